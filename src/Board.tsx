@@ -7,7 +7,14 @@ import { CommoditiesPage } from './components/CommoditiesPage';
 import { CitiesPage } from './components/CitiesPage';
 import { IndependentRailroadsPage } from './components/IndependentRailroadsPage';
 import { EditPlaytestDialog } from './components/EditPlaytestDialog';
+import { FinalStandings } from './components/FinalStandings';
+import { ReplayViewer } from './components/ReplayViewer';
 import type { Contract } from './Contract';
+import { formatMoney } from './finances';
+import { independentRailroadPrice } from './independentRailroads';
+import { EXCHANGE_OFFICE_COST } from './monopolies';
+import type { StartingRoute } from './startingRoutes';
+import type { OwnedTrack } from './track';
 import { useGame } from './hooks/useGame';
 import { useGameStore } from './stores/gameStore';
 import { useLobbyStore } from './stores/lobbyStore';
@@ -22,7 +29,7 @@ export interface WoodAndSteelStateProps {
   isBYODMode?: boolean;
 }
 
-type TabId = 'board' | 'commodities' | 'cities' | 'indies';
+type TabId = 'board' | 'commodities' | 'cities' | 'indies' | 'history';
 
 /** Main game board: tabs, NavBar, and form-driven moves. */
 export function WoodAndSteelState({
@@ -88,13 +95,10 @@ export function WoodAndSteelState({
 
   const startingContractExists =
     G.contracts.filter((contract: Contract) => contract.playerID === playerID).length > 0;
-  const currentPhase = ctx.phase as 'play' | 'setup' | 'scoring';
+  const currentPhase = ctx.phase as 'play' | 'setup' | 'bankruptcy' | 'scoring';
 
-  const handleStartingPairSelect = React.useCallback(
-    (pair: [string, string]) => {
-      moves.generateStartingContract(pair, playerID ?? '');
-      setInput('');
-    },
+  const handleRankStartingRoutes = React.useCallback(
+    (ranking: StartingRoute[]) => moves.rankStartingRoutes(ranking, playerID ?? ''),
     [moves, playerID]
   );
 
@@ -120,6 +124,65 @@ export function WoodAndSteelState({
     [moves]
   );
 
+  const handleClaimConnectionBonus = React.useCallback(
+    (bonusId: string) => moves.claimConnectionBonus(bonusId),
+    [moves]
+  );
+
+  const handleBorrow = React.useCallback(
+    (amount: number) => moves.borrowMoney(amount),
+    [moves]
+  );
+
+  const handleRepay = React.useCallback(
+    (amount: number) => moves.repayDebt(amount),
+    [moves]
+  );
+
+  const handleBuyEngine = React.useCallback(
+    (engineKey: string, replaceKey?: string) => moves.buyEngine(engineKey, replaceKey),
+    [moves]
+  );
+
+  const handleBuyUpgrade = React.useCallback(
+    (upgradeKey: string) => moves.buyUpgrade(upgradeKey),
+    [moves]
+  );
+
+  const handlePlaceRailyard = React.useCallback(
+    (cityKey: string) => moves.placeRailyard(cityKey),
+    [moves]
+  );
+
+  const handleBuildTrack = React.useCallback(
+    (routeKey: string, parallel: boolean) => moves.buildTrack(routeKey, parallel),
+    [moves]
+  );
+
+  // Bankruptcy decisions rotate between players: BYOD seats act as themselves; in hot-seat the move acts for
+  // whichever player the decision belongs to
+  const bankruptcyActorID = isBYODMode ? (playerID ?? undefined) : undefined;
+
+  const handleSellTrack = React.useCallback(
+    (segments: OwnedTrack[]) => moves.sellTrackForBankruptcy(segments, bankruptcyActorID),
+    [moves, bankruptcyActorID]
+  );
+
+  const handleChooseAuctionSegment = React.useCallback(
+    (segmentIndex: number) => moves.chooseAuctionSegment(segmentIndex, bankruptcyActorID),
+    [moves, bankruptcyActorID]
+  );
+
+  const handleBidOnTrack = React.useCallback(
+    (amount: number) => moves.bidOnTrack(amount, bankruptcyActorID),
+    [moves, bankruptcyActorID]
+  );
+
+  const handlePassOnTrack = React.useCallback(
+    () => moves.passOnTrack(bankruptcyActorID),
+    [moves, bankruptcyActorID]
+  );
+
   // Form submit: action determined by the clicked button's name
   function handleSubmit(e: React.FormEvent<HTMLFormElement>) {
     e.preventDefault();
@@ -154,12 +217,29 @@ export function WoodAndSteelState({
         const railroad = G.independentRailroads[railroadName];
         if (
           railroad &&
-          window.confirm(`Is the current player buying ${railroad.name}?`)
+          window.confirm(
+            `Is the current player buying ${railroad.name} for ${formatMoney(independentRailroadPrice(G, railroad))}?`
+          )
         ) {
           moves.acquireIndependentRailroad(railroadName);
         }
         break;
       }
+      case 'buyExchangeOffice':
+        if (
+          window.confirm(
+            `Is the current player buying a ${id} exchange office for ${formatMoney(EXCHANGE_OFFICE_COST)}?`
+          )
+        ) {
+          moves.buyExchangeOffice(id);
+        }
+        break;
+      case 'claimMonopoly':
+        moves.claimMonopoly(id);
+        break;
+      case 'goFirstNextRound':
+        moves.goFirstNextRound();
+        break;
       case 'endTurn':
         moves.endTurn();
         break;
@@ -193,10 +273,11 @@ export function WoodAndSteelState({
             ctx={ctx}
             moves={moves}
           />
-          <div className="padding-xl text-center">
-            <h1>Scoring Phase</h1>
-            <p>Game scoring will be implemented here.</p>
-          </div>
+          {activeTab === 'history' ? (
+            <ReplayViewer G={G} isBYODMode={isBYODMode} gameCode={gameManager?.currentGameCode} />
+          ) : (
+            <FinalStandings G={G} />
+          )}
         </form>
       </div>
     );
@@ -254,13 +335,24 @@ export function WoodAndSteelState({
               isBYODMode={isBYODMode}
               startingContractExists={startingContractExists}
               currentPhase={currentPhase}
-              onStartingPairSelect={handleStartingPairSelect}
+              onRankStartingRoutes={handleRankStartingRoutes}
               onOpenPrivateContractModal={() =>
                 setIsPrivateContractModalOpen(true)
               }
               onToggleFulfilled={handleToggleFulfilled}
               onDelete={handleDelete}
               onClaimContract={handleClaimContract}
+              onClaimConnectionBonus={handleClaimConnectionBonus}
+              onBorrow={handleBorrow}
+              onRepay={handleRepay}
+              onBuyEngine={handleBuyEngine}
+              onBuyUpgrade={handleBuyUpgrade}
+              onPlaceRailyard={handlePlaceRailyard}
+              onBuildTrack={handleBuildTrack}
+              onSellTrack={handleSellTrack}
+              onChooseAuctionSegment={handleChooseAuctionSegment}
+              onBidOnTrack={handleBidOnTrack}
+              onPassOnTrack={handlePassOnTrack}
             />
           )}
           {activeTab === 'commodities' && <CommoditiesPage />}
@@ -268,6 +360,9 @@ export function WoodAndSteelState({
             <CitiesPage G={G} ctx={ctx} playerID={playerID ?? ''} />
           )}
           {activeTab === 'indies' && <IndependentRailroadsPage />}
+          {activeTab === 'history' && (
+            <ReplayViewer G={G} isBYODMode={isBYODMode} gameCode={gameManager?.currentGameCode} />
+          )}
         </div>
       </form>
     </div>
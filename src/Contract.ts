@@ -1,8 +1,11 @@
 import { cities, commodities } from "./data";
-import type { GameState, GameContext } from "./stores/gameStore";
+import type { GameState, GameContext, PlayerProps } from "./stores/gameStore";
 import { shortestDistance, citiesConnectedTo } from "./utils/graph";
 import { cardinalDirection } from "./utils/geo";
-import { weightedRandom, randomSetItem } from "./utils/random";
+import { random, weightedRandom, randomSetItem, randomArrayItem } from "./utils/random";
+import { monopoliesNear } from "./monopolies";
+import { commoditiesSuppliedAt } from "./railyards";
+import { currentMoveTime } from "./stores/moveLog";
 
 /** Contract type: id, destination, commodity, fulfillment, and optional player. */
 export interface Contract {
@@ -185,6 +188,7 @@ export function generatePrivateContractSpec(
   // Choose a commodity at random from those that are:
   //  - available within 1 hop of active cities (or all commodities in commodityRegion if provided)
   //  - not available in destination city
+  // The player's railyard counts as a producer of everything it supplies.
   const availableCommodities = new Set<string>();
   if (commodityRegion === undefined) {
     const citiesWithinOneHop = Array.from(citiesConnectedTo(
@@ -192,16 +196,14 @@ export function generatePrivateContractSpec(
       { distance: 1, includeFromCities: true }
     ));
     citiesWithinOneHop.forEach((cityKey) => {
-      const city = cities.get(cityKey);
-      if (city) city.commodities.forEach((c) => availableCommodities.add(c));
+      commoditiesSuppliedAt(player[1], cityKey).forEach((c) => availableCommodities.add(c));
     });
   } else {
     commodities.forEach((data, key) => {
       if (data.regions.includes(commodityRegion)) availableCommodities.add(key);
     });
   }
-  const destCity = cities.get(contractCity);
-  if (destCity) destCity.commodities.forEach((c) => availableCommodities.delete(c));
+  commoditiesSuppliedAt(player[1], contractCity).forEach((c) => availableCommodities.delete(c));
 
   // Once a player has fulfilled 3+ contracts, prefer commodities worth at least $6k,
   // but fall back to the unfiltered list if that would leave fewer than 2 choices.
@@ -210,13 +212,30 @@ export function generatePrivateContractSpec(
     const highValueCommodities = filterCommoditiesByMinDistance(
       availableCommodities,
       contractCity,
-      2
+      2,
+      player[1]
     );
     if (highValueCommodities.size >= 2) {
       commodityPool = highValueCommodities;
     }
   }
 
+  // A monopoly supplied at or next to the current city is chosen at its Monopoly Size odds;
+  // the other commodities share the remaining odds as usual.
+  if (commodityRegion === undefined) {
+    const monopoly = randomArrayItem(monopoliesNear(G, ctx.currentPlayer, currentCityKey, contractCity));
+    if (monopoly) {
+      if (random() < monopoly.contractOdds) {
+        return { commodity: monopoly.commodity, destinationKey: contractCity };
+      }
+      const otherCommodities = new Set(commodityPool);
+      otherCommodities.delete(monopoly.commodity);
+      if (otherCommodities.size > 0) {
+        commodityPool = otherCommodities;
+      }
+    }
+  }
+
   // Pick a commodity for the contract
   const contractCommodity = randomSetItem(commodityPool);
   if (!contractCommodity) return undefined;
@@ -343,18 +362,19 @@ export function generateMarketContract(G: GameState): Contract | undefined {
 
 /**
  * Returns the subset of commodities whose nearest producing city is at least
- * minDistance segments from destinationKey.
+ * minDistance segments from destinationKey. If player is given, their railyard counts as a producer.
  */
 function filterCommoditiesByMinDistance(
   candidateCommodities: Set<string>,
   destinationKey: string,
-  minDistance: number
+  minDistance: number,
+  player?: PlayerProps
 ): Set<string> {
   const valid = new Set<string>();
   candidateCommodities.forEach((commodity) => {
     const distance = shortestDistance(
       destinationKey,
-      (c: string) => cities.get(c)?.commodities.includes(commodity) ?? false
+      (c: string) => commoditiesSuppliedAt(player, c).has(commodity)
     );
     if (distance !== undefined && distance >= minDistance) {
       valid.add(commodity);
@@ -466,15 +486,17 @@ export function newContract(
   }
 
   const city = cities.get(destinationKey)!;
-  const now = Date.now();
+  // The ID suffix comes from the game's random generator so a replayed game gives its contracts the same IDs
+  const suffix = Math.floor(random() * 0x100000000).toString(16);
   return {
-    id: `${commodity.substring(0, 3)}-${city.id}-${now.toString(16)}`,
+    id: `${commodity.substring(0, 3)}-${city.id}-${suffix}`,
     destinationKey,
     commodity,
     type,
     fulfilled,
     playerID,
-    creationTime: now,
+    // The move's logged time rather than the clock, so a replayed game gives its contracts the same creationTime
+    creationTime: currentMoveTime(),
     turnsHeld: null,
   };
 }
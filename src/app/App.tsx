@@ -5,7 +5,7 @@ import { StorageProvider, useStorage } from '../providers/StorageProvider';
 import { WoodAndSteelState } from '../Board';
 import { LobbyScreen } from '../components/LobbyScreen';
 import { WaitingForPlayersScreen } from '../components/WaitingForPlayersScreen';
-import { useGameStore } from '../stores/gameStore';
+import { useGameStore, createPlayerProps } from '../stores/gameStore';
 import { useLobbyStore } from '../stores/lobbyStore';
 import type { GameState, GameContext } from '../stores/gameStore';
 import type { StorageType } from '../utils/gameManager';
@@ -19,12 +19,26 @@ import {
   loadGameState,
   saveGameState,
   updateLastModifiedCache,
+  getSyncedState,
+  setSaveConflictHandler,
+  syncOfflineMoves,
 } from '../utils/gameManager';
+import { serializeState, type SerializedState } from '../utils/stateSerialization';
+import { mergeStates, type ReplayMoves } from '../utils/stateMerge';
+import { useConflictStore } from '../stores/conflictStore';
+import { SaveConflictDialog } from '../components/SaveConflictDialog';
+import { OfflineIndicator } from '../components/OfflineIndicator';
+import { getOfflineQueue, getQueuedMoveCount } from '../utils/storage/offlineQueue';
 import { checkPhaseTransition } from '../stores/phaseManager';
+import { withMoveLogStart } from '../stores/moveLog';
+import { endAuthoritySession, startAuthoritySession } from '../stores/authorityClient';
+import { replayQueuedMoves } from '../stores/moveAuthority';
 import { initializeIndependentRailroads } from '../independentRailroads';
-import { getPlayerAvatarColorForIndex } from '../utils/playerAvatar';
+import { getRandomState, newSeed, seedRandom } from '../utils/random';
 
 const NOT_PLAYING_MESSAGE = 'This device is not playing this game.';
+/** How often to retry syncing moves queued while the cloud was unreachable. */
+const OFFLINE_RETRY_MS = 15000;
 
 const DevSimulatorPage = __INCLUDE_SIM__
   ? React.lazy(() =>
@@ -58,6 +72,41 @@ export interface AppGameManager {
 const GAME_CODE_PATH_REGEX = /^\/g\/([^/]+)$/;
 const INVALID_CODE_MESSAGE = 'Invalid game code format. Please check and try again.';
 
+/**
+ * Replace the store's game with state saved by another device (or merged with it).
+ * Preserve transient UI fields (e.g. lastRoundRoutesAdded) so subscription doesn't clear the routes-added hint.
+ * Preserve hasMovedThisTurn when the update is for the same turn (e.g. our own save echoed back), so Undo stays
+ * enabled.
+ */
+function applySyncedState(incomingG: GameState, newCtx: GameContext): void {
+  useGameStore.setState((current) => {
+    const preserved =
+      current.G.lastRoundRoutesAdded !== undefined
+        ? { lastRoundRoutesAdded: current.G.lastRoundRoutesAdded }
+        : {};
+    const newG = { ...incomingG, ...preserved };
+    const turnChanged = newCtx.currentPlayer !== current.ctx.currentPlayer;
+    // Another device moved or rolled back: our undo history no longer leads to this state
+    const historyStale = turnChanged || newG.moveLog?.length !== current.G.moveLog?.length;
+    // A host rollback starts the turn afresh, even when it returns to the current player's turn
+    const lastEntry = newG.moveLog?.[newG.moveLog.length - 1];
+    const turnRestarted = turnChanged || (historyStale && lastEntry?.move === 'rollback');
+    return {
+      G: newG,
+      ctx: newCtx,
+      turnStartSnapshot: turnRestarted ? structuredClone({ G: newG, ctx: newCtx }) : current.turnStartSnapshot,
+      hasMovedThisTurn: turnRestarted ? false : current.hasMovedThisTurn,
+      ...(historyStale && { undoStack: [], redoStack: [] }),
+    };
+  });
+}
+
+/**
+ * Replay one device's moves onto another's state, to merge them (see mergeStates). Each move was already allowed on
+ * the device that made it, so host-only restores are not refused here.
+ */
+const replayForMerge: ReplayMoves = (onto, queue) => replayQueuedMoves(onto, queue, true);
+
 const AppContent = (): React.ReactElement => {
   const { isLobbyMode, setLobbyMode, setSelectedGame, setJoinFormPrefill } = useLobbyStore();
   const storage = useStorage();
@@ -153,6 +202,8 @@ const AppContent = (): React.ReactElement => {
             ctx: loadedCtx,
             turnStartSnapshot: structuredClone({ G: loadedG, ctx: loadedCtx }),
             hasMovedThisTurn: false,
+            undoStack: [],
+            redoStack: [],
           });
           setSelectedGame(code);
           setLobbyMode(false);
@@ -194,6 +245,58 @@ const AppContent = (): React.ReactElement => {
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [location.pathname]); // Re-run when pathname changes (e.g. /g/CODE vs /); tab switches don't change pathname
 
+  // Save conflicts: ask which side to keep, and show the merged state that was saved
+  React.useEffect(() => {
+    setSaveConflictHandler({
+      resolve: (_code, conflicts) => useConflictStore.getState().askToResolve(conflicts),
+      replay: replayForMerge,
+      applyMerged: (code, state, lastModified) => {
+        if (code !== currentGameCode) return;
+        applySyncedState(state.G as unknown as GameState, state.ctx as unknown as GameContext);
+        if (lastModified) lastAppliedTimestampRef.current = lastModified;
+      },
+    });
+    return () => setSaveConflictHandler(null);
+  }, [currentGameCode]);
+
+  // Replay moves queued while offline onto the latest cloud state, then show the result
+  const syncQueuedMoves = React.useCallback(async (): Promise<void> => {
+    if (!currentGameCode || !getOfflineQueue(currentGameCode)) return;
+    let isHost = !isBYODGame;
+    if (isBYODGame) {
+      try {
+        isHost = await storage.amIHost(currentGameCode);
+      } catch {
+        return; // Still offline
+      }
+    }
+
+    const result = await syncOfflineMoves(currentGameCode, (latest, queue) =>
+      replayQueuedMoves(latest, queue, isHost)
+    );
+    if (!result?.ok) return;
+
+    // Moves made while syncing are still queued; keep them on screen on top of the synced state
+    const remaining = getOfflineQueue(currentGameCode);
+    const shown = remaining ? replayQueuedMoves(result.state, remaining, isHost).state : result.state;
+    applySyncedState(shown.G as unknown as GameState, shown.ctx as unknown as GameContext);
+    if (result.lastModified) lastAppliedTimestampRef.current = result.lastModified;
+    useConflictStore.getState().reportRejectedMoves(result.rejected);
+  }, [currentGameCode, isBYODGame, storage]);
+
+  // Retry queued moves when the browser comes back online, and periodically in case it never says so
+  React.useEffect(() => {
+    if (!currentGameCode || isLobbyMode) return;
+    void syncQueuedMoves();
+    const onOnline = (): void => void syncQueuedMoves();
+    window.addEventListener('online', onOnline);
+    const interval = window.setInterval(onOnline, OFFLINE_RETRY_MS);
+    return () => {
+      window.removeEventListener('online', onOnline);
+      window.clearInterval(interval);
+    };
+  }, [currentGameCode, isLobbyMode, syncQueuedMoves]);
+
   // Real-time subscription for multiplayer sync
   React.useEffect(() => {
     if (!currentGameCode || isLobbyMode) {
@@ -228,29 +331,32 @@ const AppContent = (): React.ReactElement => {
             }
           }
 
-          // Update Zustand store with remote state.
-          // Preserve transient UI fields (e.g. lastRoundRoutesAdded) so subscription doesn't clear the routes-added hint.
-          // Preserve hasMovedThisTurn when the update is for the same turn (e.g. our own save echoed back), so Undo stays enabled.
-          useGameStore.setState((current) => {
-            const incomingG = state.G as GameState;
-            const preserved =
-              current.G.lastRoundRoutesAdded !== undefined
-                ? { lastRoundRoutesAdded: current.G.lastRoundRoutesAdded }
-                : {};
-            const newG = { ...incomingG, ...preserved };
-            const newCtx = state.ctx as GameContext;
-            const turnChanged = newCtx.currentPlayer !== current.ctx.currentPlayer;
-            return {
-              G: newG,
-              ctx: newCtx,
-              turnStartSnapshot: turnChanged ? structuredClone({ G: newG, ctx: newCtx }) : current.turnStartSnapshot,
-              hasMovedThisTurn: turnChanged ? false : current.hasMovedThisTurn,
-            };
-          });
+          // Queued offline moves are replayed onto the latest state instead of merged with it
+          if (getQueuedMoveCount(currentGameCode) > 0) {
+            void syncQueuedMoves();
+            return;
+          }
+
+          // Merge with changes this device has not finished saving, so the update doesn't overwrite them
+          const incoming = state as SerializedState;
+          const base = getSyncedState(currentGameCode);
+          const { G: localG, ctx: localCtx } = useGameStore.getState();
+          const synced = base
+            ? mergeStates(
+                base,
+                serializeState(
+                  localG as unknown as Record<string, unknown>,
+                  localCtx as unknown as Record<string, unknown>
+                ),
+                incoming,
+                replayForMerge
+              ).state
+            : incoming;
+          applySyncedState(synced.G as unknown as GameState, synced.ctx as unknown as GameContext);
 
           // Update last_modified cache and our tracking ref
           if (lastModified) {
-            updateLastModifiedCache(currentGameCode, lastModified);
+            updateLastModifiedCache(currentGameCode, lastModified, incoming);
             lastAppliedTimestampRef.current = lastModified;
           }
 
@@ -275,7 +381,7 @@ const AppContent = (): React.ReactElement => {
         console.info('[App] Unsubscribed from real-time updates for game:', currentGameCode);
       }
     };
-  }, [currentGameCode, isLobbyMode, storage, isBYODGame, myPlayerID]);
+  }, [currentGameCode, isLobbyMode, storage, isBYODGame, myPlayerID, syncQueuedMoves]);
 
   // Effect to update myPlayerID when game phase changes from waiting_for_players.
   // This catches the case when the host starts the game on this device.
@@ -298,6 +404,15 @@ const AppContent = (): React.ReactElement => {
     updatePlayerID();
   }, [isBYODGame, currentGameCode, currentPhase, myPlayerID, storage]);
 
+  // Once this device has a seat in a BYOD game, send its moves to the move authority (when the storage has one). No
+  // shipped adapter has one yet, so real BYOD games still save whole states (see docs/BYOD_AGENT_GUIDE.md)
+  React.useEffect(() => {
+    if (!isBYODGame || !currentGameCode || myPlayerID === null) return;
+    if (!storage.getStorageAdapter().hasMoveAuthority()) return;
+    startAuthoritySession({ gameCode: currentGameCode, playerID: myPlayerID });
+    return () => endAuthoritySession();
+  }, [isBYODGame, currentGameCode, myPlayerID, storage]);
+
   // Handler to enter a game
   const handleEnterGame = React.useCallback(
     async (code: string, options: { storageType?: StorageType } = {}): Promise<void> => {
@@ -341,6 +456,8 @@ const AppContent = (): React.ReactElement => {
             ctx: loadedCtx,
             turnStartSnapshot: structuredClone({ G: loadedG, ctx: loadedCtx }),
             hasMovedThisTurn: false,
+            undoStack: [],
+            redoStack: [],
           });
           if (storage.storageType !== storageType) {
             storage.setStorageType(storageType);
@@ -396,10 +513,12 @@ const AppContent = (): React.ReactElement => {
           // Initialize game state to initial values with specified number of players
           useGameStore.getState().resetState(validNumPlayers);
 
-          // Initialize independent railroads
+          // Seed the game's random generator, then initialize independent railroads from it
           const { G, ctx } = useGameStore.getState();
+          const seed = newSeed();
+          seedRandom(seed);
           const independentRailroads = initializeIndependentRailroads();
-          const initializedG = { ...G, independentRailroads };
+          const initializedG = withMoveLogStart({ ...G, independentRailroads, seed, rngState: getRandomState() }, ctx);
           useGameStore.setState({ G: initializedG });
 
           // Save the properly initialized state to storage
@@ -415,6 +534,8 @@ const AppContent = (): React.ReactElement => {
               ctx: loadedCtx,
               turnStartSnapshot: structuredClone({ G: loadedG, ctx: loadedCtx }),
               hasMovedThisTurn: false,
+              undoStack: [],
+              redoStack: [],
             });
           }
         }
@@ -478,32 +599,33 @@ const AppContent = (): React.ReactElement => {
             const seat = deviceId ? playerSeats[deviceId] : null;
             const playerName = seat?.playerName ?? `Player ${i}`;
 
-            return [playerID, {
-              name: playerName,
-              activeCities: [] as string[],
-              hubCity: null,
-              regionalOffice: null,
-              avatarColor: getPlayerAvatarColorForIndex(i),
-            }];
+            return [playerID, createPlayerProps(playerName, i)];
           });
 
           console.info('[App] Initialized players for BYOD game:', players);
         }
 
-        // Initialize independent railroads if not already initialized.
-        // This is done by the host when starting the BYOD game.
+        // Seed the game's random generator (unless already seeded), then initialize independent railroads if not
+        // already initialized. This is done by the host when starting the BYOD game.
+        const seed = G.seed ?? newSeed();
+        seedRandom(G.rngState ?? seed);
         const independentRailroads =
           G.independentRailroads && Object.keys(G.independentRailroads).length > 0
             ? G.independentRailroads
             : initializeIndependentRailroads();
 
-        // Set the byodGameStarted flag to trigger phase transition
-        const updatedG = {
-          ...G,
-          players,
-          independentRailroads,
-          byodGameStarted: true,
-        };
+        // Set the byodGameStarted flag to trigger phase transition; the move log starts here
+        const updatedG = withMoveLogStart(
+          {
+            ...G,
+            players,
+            independentRailroads,
+            byodGameStarted: true,
+            seed,
+            rngState: getRandomState(),
+          },
+          ctx
+        );
 
         // Update Zustand store with the new G (including players array).
         // Don't save to storage yet - let checkPhaseTransition do it atomically.
@@ -664,6 +786,8 @@ const AppContent = (): React.ReactElement => {
             isBYODMode={true}
           />
         </GameProvider>
+        <SaveConflictDialog />
+        <OfflineIndicator gameCode={currentGameCode} />
       </div>
     );
   }
@@ -693,6 +817,8 @@ const AppContent = (): React.ReactElement => {
           />
         </GameProvider>
       ))}
+      <SaveConflictDialog />
+      <OfflineIndicator gameCode={currentGameCode} />
     </div>
   );
 };
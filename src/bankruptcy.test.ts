@@ -0,0 +1,76 @@
+import { describe, test, expect } from 'vitest';
+import {
+  connectedIndependentRailroad,
+  declareBankruptcy,
+  isAuctionOver,
+  minimumBid,
+  openAuction,
+  passBid,
+  placeBid,
+  saleTarget,
+} from './bankruptcy';
+import { trackCost } from './track';
+import type { GameState } from './stores/gameStore';
+
+const PLAY_ORDER = ['0', '1', '2', '3'];
+
+describe('saleTarget', () => {
+  test('is the shortfall plus the $5,000 penalty', () => {
+    expect(saleTarget(declareBankruptcy('0', 2000))).toBe(7000);
+  });
+});
+
+describe('openAuction', () => {
+  test('rotates the opener to the left of the bankrupt player', () => {
+    const bankruptcy = declareBankruptcy('1', 1000);
+
+    expect(openAuction(bankruptcy, PLAY_ORDER).bidders).toEqual(['2', '3', '0']);
+    expect(openAuction({ ...bankruptcy, auctionsHeld: 1 }, PLAY_ORDER).bidders).toEqual(['3', '0', '2']);
+    expect(openAuction({ ...bankruptcy, auctionsHeld: 3 }, PLAY_ORDER).opener).toBe('2');
+  });
+});
+
+describe('bidding', () => {
+  const segment = { routeKey: 'Boston-New York', parallel: false };
+  const opened = { ...openAuction(declareBankruptcy('0', 1000), PLAY_ORDER), segment };
+
+  test('opens at the segment price and raises by at least $1,000', () => {
+    expect(minimumBid(opened)).toBe(trackCost('Boston-New York'));
+    expect(minimumBid(placeBid(opened, '1', 9000))).toBe(10000);
+  });
+
+  test('ends when everyone else has passed', () => {
+    let auction = placeBid(opened, '1', 9000);
+    expect(auction.nextBidder).toBe('2');
+    auction = passBid(auction, '2');
+    expect(auction.nextBidder).toBe('3');
+    expect(isAuctionOver(auction)).toBe(false);
+    auction = passBid(auction, '3');
+
+    expect(isAuctionOver(auction)).toBe(true);
+    expect(auction.highBidder).toBe('1');
+  });
+
+  test('ends with no winner when everyone passes', () => {
+    const auction = ['1', '2', '3'].reduce(passBid, opened);
+
+    expect(isAuctionOver(auction)).toBe(true);
+    expect(auction.highBidder).toBeNull();
+  });
+});
+
+describe('connectedIndependentRailroad', () => {
+  test('finds a railroad sharing a city with the route', () => {
+    const G: GameState = {
+      contracts: [],
+      players: [],
+      independentRailroads: {
+        far: { name: 'Far', routes: [{ key: 'Denver-Omaha', addedInRound: 0 }] },
+        near: { name: 'Near', routes: [{ key: 'New York-Philadelphia', addedInRound: 0 }] },
+      },
+    };
+
+    expect(connectedIndependentRailroad(G, 'Boston-New York')).toBe('near');
+    expect(connectedIndependentRailroad(G, 'Charleston-Savannah')).toBeUndefined();
+  });
+});
@@ -0,0 +1,165 @@
+import { routes } from './data';
+import { trackCost, type OwnedTrack } from './track';
+import { getOtherPlayerIdsInPlayOrder } from './utils/playerAvatar';
+import type { GameState, PlayerProps } from './stores/gameStore';
+
+/** Railroad ties a player loses each time they go bankrupt. */
+export const BANKRUPTCY_TIES = 5;
+
+/** Paid to the bank on top of the shortfall, for handling the bankrupt player's remaining debt. */
+export const BANKRUPTCY_PENALTY = 5000;
+
+/** Smallest raise over the current high bid in a track auction. */
+export const MIN_RAISE = 1000;
+
+/** One segment up for auction. The opener picks the segment; bidding then goes clockwise from the opener. */
+export interface TrackAuction {
+  /** Segment being auctioned; null until the opener picks one. */
+  segment: OwnedTrack | null;
+  opener: string;
+  highBid: number;
+  highBidder: string | null;
+  /** Players who have not passed, clockwise from the opener. */
+  bidders: string[];
+  /** Player whose turn it is to pick, bid or pass. */
+  nextBidder: string;
+}
+
+/** A bankruptcy in progress (G.bankruptcy). Play resumes once every sold segment has been auctioned. */
+export interface Bankruptcy {
+  playerID: string;
+  /** Cash the player was short after paying debt service. */
+  shortfall: number;
+  /** 'selling': the bankrupt player chooses segments to sell; 'auction': other players bid on them. */
+  stage: 'selling' | 'auction';
+  /** Sold segments not yet auctioned. */
+  forSale: OwnedTrack[];
+  auction: TrackAuction | null;
+  /** Auctions finished so far; rotates who opens the next one. */
+  auctionsHeld: number;
+}
+
+/**
+ * Start a bankruptcy for a player who could not pay debt service.
+ *
+ * @param playerID - Bankrupt player
+ * @param shortfall - Cash the player is short
+ * @returns Bankruptcy in the selling stage
+ */
+export function declareBankruptcy(playerID: string, shortfall: number): Bankruptcy {
+  return { playerID, shortfall, stage: 'selling', forSale: [], auction: null, auctionsHeld: 0 };
+}
+
+/**
+ * Value of track the bankrupt player must sell: the shortfall plus the bank's penalty.
+ *
+ * @param bankruptcy - Bankruptcy in progress
+ * @returns Dollars
+ */
+export function saleTarget(bankruptcy: Bankruptcy): number {
+  return bankruptcy.shortfall + BANKRUPTCY_PENALTY;
+}
+
+/**
+ * Total build cost of a set of segments (the price they sell to the bank for).
+ *
+ * @param segments - Segments
+ * @returns Dollars
+ */
+export function trackValue(segments: OwnedTrack[]): number {
+  return segments.reduce((sum, segment) => sum + trackCost(segment.routeKey, segment.parallel), 0);
+}
+
+/**
+ * Open the next auction: the first player to the bankrupt player's left opens the first one, the second player the
+ * second one, and so on.
+ *
+ * @param bankruptcy - Bankruptcy in the auction stage
+ * @param playOrder - ctx.playOrder
+ * @returns New auction awaiting the opener's choice of segment
+ */
+export function openAuction(bankruptcy: Bankruptcy, playOrder: string[]): TrackAuction {
+  const toLeft = getOtherPlayerIdsInPlayOrder(bankruptcy.playerID, playOrder);
+  const start = bankruptcy.auctionsHeld % toLeft.length;
+  const bidders = [...toLeft.slice(start), ...toLeft.slice(0, start)];
+  return { segment: null, opener: bidders[0], highBid: 0, highBidder: null, bidders, nextBidder: bidders[0] };
+}
+
+/**
+ * Lowest bid the next bidder may make: the segment's build cost, or the high bid plus MIN_RAISE.
+ *
+ * @param auction - Auction with a segment chosen
+ * @returns Dollars
+ */
+export function minimumBid(auction: TrackAuction): number {
+  if (auction.highBidder) return auction.highBid + MIN_RAISE;
+  return auction.segment ? trackCost(auction.segment.routeKey, auction.segment.parallel) : 0;
+}
+
+const nextAfter = (bidders: string[], playerID: string): string =>
+  bidders[(bidders.indexOf(playerID) + 1) % bidders.length];
+
+/**
+ * Record a bid and pass the decision to the next player still bidding.
+ *
+ * @param auction - Auction
+ * @param playerID - Bidder
+ * @param amount - Bid in dollars (at least minimumBid)
+ * @returns Updated auction
+ */
+export function placeBid(auction: TrackAuction, playerID: string, amount: number): TrackAuction {
+  return { ...auction, highBid: amount, highBidder: playerID, nextBidder: nextAfter(auction.bidders, playerID) };
+}
+
+/**
+ * Record a pass; the player may not re-enter the bidding.
+ *
+ * @param auction - Auction
+ * @param playerID - Player passing
+ * @returns Updated auction
+ */
+export function passBid(auction: TrackAuction, playerID: string): TrackAuction {
+  const bidders = auction.bidders.filter((id) => id !== playerID);
+  const nextBidder = bidders.length > 0 ? nextAfter(auction.bidders, playerID) : '';
+  return { ...auction, bidders, nextBidder };
+}
+
+/**
+ * Whether the auction is over: everyone passed, or only the high bidder is left.
+ *
+ * @param auction - Auction
+ * @returns true if the segment can be awarded (to highBidder, or to no one)
+ */
+export function isAuctionOver(auction: TrackAuction): boolean {
+  return (
+    auction.bidders.length === 0 ||
+    (auction.bidders.length === 1 && auction.bidders[0] === auction.highBidder)
+  );
+}
+
+/**
+ * Independent railroad that an unsold segment joins: the first one with a route touching either end of the segment.
+ *
+ * @param G - Game state
+ * @param routeKey - Unsold route
+ * @returns Railroad key, or undefined if no independent railroad is connected (the track is removed)
+ */
+export function connectedIndependentRailroad(G: GameState, routeKey: string): string | undefined {
+  const ends = routes.get(routeKey)?.cities ?? [];
+  return Object.entries(G.independentRailroads).find(([, railroad]) =>
+    railroad.routes.some((route) => {
+      if (route.key === routeKey) return true;
+      return routes.get(route.key)?.cities.some((city) => ends.includes(city)) ?? false;
+    })
+  )?.[0];
+}
+
+/**
+ * Ties lost to bankruptcies (a negative number).
+ *
+ * @param player - Player props
+ * @returns -BANKRUPTCY_TIES per bankruptcy
+ */
+export function bankruptcyTiesForPlayer(player: PlayerProps): number {
+  return -BANKRUPTCY_TIES * (player.bankruptcies ?? 0);
+}
@@ -0,0 +1,166 @@
+import React from "react";
+import { minimumBid, saleTarget, trackValue, MIN_RAISE } from "../bankruptcy";
+import { formatMoney, playerFinances } from "../finances";
+import { isSameTrack, playerTrack, trackCost, trackLabel, type OwnedTrack } from "../track";
+import type { GameState } from "../stores/gameStore";
+
+export interface BankruptcyPanelProps {
+  G: GameState;
+  /** Player viewing the panel in BYOD; undefined in hot-seat, where whoever holds the device acts. */
+  viewerID?: string;
+  onSellTrack: (segments: OwnedTrack[]) => void;
+  onChooseSegment: (segmentIndex: number) => void;
+  onBid: (amount: number) => void;
+  onPass: () => void;
+}
+
+/**
+ * Bankruptcy phase: the bankrupt player chooses track to sell, then each segment is auctioned to the other players.
+ * Shows whose decision it is; in hot-seat the device is passed to that player.
+ */
+export function BankruptcyPanel({
+  G,
+  viewerID,
+  onSellTrack,
+  onChooseSegment,
+  onBid,
+  onPass,
+}: BankruptcyPanelProps): React.ReactElement | null {
+  const bankruptcy = G.bankruptcy;
+  const auction = bankruptcy?.auction;
+  const [selected, setSelected] = React.useState<OwnedTrack[]>([]);
+  const [bid, setBid] = React.useState(0);
+  const minimum = auction?.segment ? minimumBid(auction) : 0;
+
+  // Reset the bid field to the minimum whenever the bidding moves on
+  React.useEffect(() => setBid(minimum), [minimum, auction?.nextBidder]);
+
+  if (!bankruptcy) return null;
+
+  const playerProps = (id: string) => G.players.find(([playerID]) => playerID === id)?.[1];
+  const playerName = (id: string): string => playerProps(id)?.name ?? `Player ${id}`;
+  const canAct = (id: string): boolean => viewerID === undefined || viewerID === id;
+  const bankruptName = playerName(bankruptcy.playerID);
+
+  if (bankruptcy.stage === "selling") {
+    const bankrupt = playerProps(bankruptcy.playerID);
+    const owned = bankrupt ? playerTrack(bankrupt) : [];
+    const target = saleTarget(bankruptcy);
+    const total = trackValue(selected);
+    const isSelected = (segment: OwnedTrack) => selected.some((t: OwnedTrack) => isSameTrack(t, segment));
+    const toggle = (segment: OwnedTrack) =>
+      setSelected((prev: OwnedTrack[]) =>
+        isSelected(segment) ? prev.filter((t: OwnedTrack) => !isSameTrack(t, segment)) : [...prev, segment]
+      );
+
+    return (
+      <div className="bankruptcyPanel">
+        <h3 className="playerBoard__contractsTitle">{bankruptName} is bankrupt</h3>
+        <p className="bankruptcyPanel__note">
+          Short {formatMoney(bankruptcy.shortfall)}. {bankruptName} must sell at least {formatMoney(target)} of
+          track to the bank.
+        </p>
+        {!canAct(bankruptcy.playerID) ? (
+          <div className="bankruptcyPanel__waiting">Waiting for {bankruptName} to sell track</div>
+        ) : (
+          <>
+            {owned.length === 0 && <div className="bankruptcyPanel__waiting">No track to sell.</div>}
+            <ul className="bankruptcyPanel__segments">
+              {owned.map((segment) => (
+                <li key={trackLabel(segment)}>
+                  <label className="bankruptcyPanel__segment">
+                    <input type="checkbox" checked={isSelected(segment)} onChange={() => toggle(segment)} />
+                    <span>{trackLabel(segment)}</span>
+                    <span className="bankruptcyPanel__amount">
+                      {formatMoney(trackCost(segment.routeKey, segment.parallel))}
+                    </span>
+                  </label>
+                </li>
+              ))}
+            </ul>
+            <div className="playerBoard__buttonGroup">
+              <span className="bankruptcyPanel__amount">Selected {formatMoney(total)}</span>
+              <button
+                type="button"
+                className="button"
+                disabled={total < target && selected.length < owned.length}
+                onClick={() => onSellTrack(selected)}
+              >
+                Sell track
+              </button>
+            </div>
+          </>
+        )}
+      </div>
+    );
+  }
+
+  if (!auction) return null;
+
+  if (!auction.segment) {
+    return (
+      <div className="bankruptcyPanel">
+        <h3 className="playerBoard__contractsTitle">Auction of {bankruptName}'s track</h3>
+        {!canAct(auction.opener) ? (
+          <div className="bankruptcyPanel__waiting">
+            Waiting for {playerName(auction.opener)} to choose a segment
+          </div>
+        ) : (
+          <>
+            <p className="bankruptcyPanel__note">{playerName(auction.opener)}, choose the next segment to auction.</p>
+            <div className="playerBoard__buttonGroup">
+              {bankruptcy.forSale.map((segment, i) => (
+                <button key={trackLabel(segment)} type="button" className="button" onClick={() => onChooseSegment(i)}>
+                  {trackLabel(segment)} ({formatMoney(trackCost(segment.routeKey, segment.parallel))})
+                </button>
+              ))}
+            </div>
+          </>
+        )}
+      </div>
+    );
+  }
+
+  const bidder = playerProps(auction.nextBidder);
+  const bidderCash = bidder ? playerFinances(bidder).cash : 0;
+
+  return (
+    <div className="bankruptcyPanel">
+      <h3 className="playerBoard__contractsTitle">Auction: {trackLabel(auction.segment)}</h3>
+      <p className="bankruptcyPanel__note">
+        {auction.highBidder
+          ? `High bid ${formatMoney(auction.highBid)} by ${playerName(auction.highBidder)}.`
+          : "No bids yet."}{" "}
+        Still bidding: {auction.bidders.map(playerName).join(", ")}.
+      </p>
+      {!canAct(auction.nextBidder) ? (
+        <div className="bankruptcyPanel__waiting">Waiting for {playerName(auction.nextBidder)} to bid or pass</div>
+      ) : (
+        <div className="playerBoard__buttonGroup">
+          <span>{playerName(auction.nextBidder)}:</span>
+          <input
+            type="number"
+            className="bankruptcyPanel__bid"
+            min={minimum}
+            step={MIN_RAISE}
+            value={bid}
+            onChange={(e: React.ChangeEvent<HTMLInputElement>) => setBid(Number(e.target.value))}
+            aria-label="Bid"
+          />
+          <button
+            type="button"
+            className="button"
+            disabled={bid < minimum || bid > bidderCash}
+            title={bidderCash < minimum ? `Only ${formatMoney(bidderCash)} in cash` : undefined}
+            onClick={() => onBid(bid)}
+          >
+            Bid
+          </button>
+          <button type="button" className="button" onClick={onPass}>
+            Pass
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,6 +1,7 @@
 import React from "react";
 import { cities } from "../data";
 import { valueOfCity } from "../Contract";
+import { commoditiesSuppliedAt } from "../railyards";
 import type { GameState, GameContext } from "../stores/gameStore";
 
 function formatCommodityList(items: string[]): string {
@@ -14,27 +15,31 @@ export interface CitiesPageProps {
 }
 
 /**
- * Page component displaying all cities with their values. Highlights cities that are active for this player.
+ * Page component displaying all cities with their values. Highlights cities that are active for this player; the
+ * player's railyard city lists everything it supplies to them.
  */
 export function CitiesPage({ G, ctx, playerID }: CitiesPageProps): React.ReactElement {
   const thisPlayer = G.players.find(([key]) => key === playerID);
   const activeCities = thisPlayer ? new Set(thisPlayer[1].activeCities) : new Set<string>();
   const hubCity = thisPlayer?.[1].hubCity ?? null;
 
-  const cityValues = [...cities].map(([key, value]) => {
+  const cityValues = [...cities].map(([key]) => {
     const isActive = activeCities.has(key);
+    const isRailyard = thisPlayer?.[1].railyard === key;
+    const supplied = [...commoditiesSuppliedAt(thisPlayer?.[1], key)];
     const valueNum = valueOfCity(G, key, key === hubCity ? { isHubCity: true } : {});
     return (
       <div key={key} className="cityCell">
         <span
           className={`cityCell__name ${isActive ? "cityCell__name--active" : ""}`}
           title={
-            value.commodities.length === 0
+            supplied.length === 0
               ? "(no commodities)"
-              : formatCommodityList(value.commodities)
+              : `${isRailyard ? "Railyard: " : ""}${formatCommodityList(supplied)}`
           }
         >
           {key}
+          {isRailyard && <span className="cityCell__railyard"> (railyard)</span>}
         </span>
         <span className="cityCell__value">{valueNum ?? "—"}</span>
       </div>
@@ -2,6 +2,8 @@ import React from "react";
 import { commodities } from "../data";
 import { useGame } from "../hooks/useGame";
 import { CommodityRichName } from "./CommodityRichName";
+import { coversAllSuppliers, EXCHANGE_OFFICE_COST, monopolyTerms } from "../monopolies";
+import { formatMoney, playerFinances } from "../finances";
 
 function formatCommodityCityList(items: string[]): string {
   return items.toString().replace(/,/g, ", ");
@@ -10,9 +12,21 @@ function formatCommodityCityList(items: string[]): string {
 /**
  * Page component displaying all commodities, split into two sections:
  * commodities that appear in active contracts, and all other commodities.
+ * Monopoly-eligible commodities show their holder, or buttons to buy a Commodities Exchange Office for the commodity
+ * and to claim the monopoly once the player qualifies.
  */
 export function CommoditiesPage(): React.ReactElement {
-  const { G, ctx } = useGame();
+  const { G, ctx, playerID } = useGame();
+  const isPlayerTurn = playerID === ctx.currentPlayer;
+  const playerProps = G.players.find(([id]) => id === playerID)?.[1];
+  const activeCities = playerProps?.activeCities ?? [];
+  const exchangeOffice = playerProps?.exchangeOffice ?? null;
+  const canBuyExchangeOffice =
+    playerProps != null &&
+    exchangeOffice == null &&
+    isPlayerTurn &&
+    ctx.phase === "play" &&
+    playerFinances(playerProps).cash >= EXCHANGE_OFFICE_COST;
 
   const commoditiesInContracts = new Set<string>();
   G.contracts.forEach((contract) => {
@@ -30,10 +44,37 @@ export function CommoditiesPage(): React.ReactElement {
   const othersList: React.ReactElement[] = [];
 
   [...commodities].forEach(([key, value]) => {
+    const terms = monopolyTerms(key);
+    const monopolyOwnerID = G.monopolies?.[key];
+    const monopolyOwnerName = G.players.find(([id]) => id === monopolyOwnerID)?.[1].name;
+    const canClaimMonopoly =
+      terms != null &&
+      monopolyOwnerID == null &&
+      isPlayerTurn &&
+      ctx.phase === "play" &&
+      exchangeOffice === key &&
+      coversAllSuppliers(key, activeCities);
+
     const commodityRow = (
       <div key={key} className="commodityRow">
         <div className="commodityRow__header">
           <CommodityRichName commodity={key} />
+          {monopolyOwnerName && (
+            <span className="commodityRow__monopoly">Monopoly: {monopolyOwnerName}</span>
+          )}
+          {terms != null && monopolyOwnerID == null && exchangeOffice === key && (
+            <span className="commodityRow__monopoly">Your exchange office</span>
+          )}
+          {terms != null && monopolyOwnerID == null && canBuyExchangeOffice && (
+            <button name="buyExchangeOffice" id={key} className="button commodityRow__button">
+              Buy exchange office ({formatMoney(EXCHANGE_OFFICE_COST)})
+            </button>
+          )}
+          {canClaimMonopoly && (
+            <button name="claimMonopoly" id={key} className="button commodityRow__button">
+              Claim monopoly ({terms.ties} ties)
+            </button>
+          )}
         </div>
         <div className="commodityRow__cities">{formatCommodityCityList(value.cities)}</div>
       </div>
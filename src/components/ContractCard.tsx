@@ -23,6 +23,8 @@ function formatContractTieValue(spec: ContractCardSpec): React.ReactElement {
 
 export interface ContractCardProps extends ContractCardSpec {
   variant: "market" | "private";
+  /** What the viewing player would be paid, shown beside the base value when engines or upgrades change it. */
+  payout?: number;
   fulfilled?: boolean;
   className?: string;
   disabled?: boolean;
@@ -43,6 +45,7 @@ export const ContractCard = React.forwardRef<HTMLButtonElement, ContractCardProp
       commodity,
       destinationKey,
       variant,
+      payout,
       fulfilled = false,
       className,
       disabled = false,
@@ -77,7 +80,13 @@ export const ContractCard = React.forwardRef<HTMLButtonElement, ContractCardProp
       >
         <div className="contract__header">
           {formatContractTieValue(spec)}
-          <div className="contract__moneyValue">${reward / 1000}K</div>
+          {payout != null && payout !== reward ? (
+            <div className="contract__moneyValue" title={`Base value $${reward / 1000}K`}>
+              ${payout / 1000}K <span className="contract__baseValue">(${reward / 1000}K)</span>
+            </div>
+          ) : (
+            <div className="contract__moneyValue">${reward / 1000}K</div>
+          )}
         </div>
         <div className="contract__body">
           <CommodityRichName commodity={commodity} />
@@ -5,6 +5,8 @@ import type { Contract } from "../Contract";
 
 export interface ContractDisplayProps {
   contract: Contract;
+  /** Payout for the viewing player, if it differs from the contract's base value. */
+  payout?: number;
   isMenuOpen: boolean;
   onCardClick: (() => void) | null;
   onClose: () => void;
@@ -13,6 +15,11 @@ export interface ContractDisplayProps {
   onDelete: (contractID: string) => void;
   onClaimContract?: (contractID: string) => void;
   claimMarketDisabled?: boolean;
+  /** Shown under a disabled Claim Contract item to explain why it is disabled. */
+  claimMarketDisabledReason?: string | null;
+  fulfillDisabled?: boolean;
+  /** Shown under a disabled Fulfill Contract item to explain why it is disabled. */
+  fulfillDisabledReason?: string | null;
 }
 
 /**
@@ -21,6 +28,7 @@ export interface ContractDisplayProps {
  */
 export function ContractDisplay({
   contract,
+  payout,
   isMenuOpen,
   onCardClick,
   onClose,
@@ -29,6 +37,9 @@ export function ContractDisplay({
   onDelete,
   onClaimContract,
   claimMarketDisabled,
+  claimMarketDisabledReason,
+  fulfillDisabled,
+  fulfillDisabledReason,
 }: ContractDisplayProps): React.ReactElement {
   const cardRef = React.useRef<HTMLButtonElement>(null);
   const isClickable = typeof onCardClick === "function";
@@ -55,6 +66,7 @@ export function ContractDisplay({
         commodity={contract.commodity}
         destinationKey={contract.destinationKey}
         variant={contract.type === "market" ? "market" : "private"}
+        payout={payout}
         fulfilled={contract.fulfilled}
         disabled={!isClickable}
         onClick={isClickable ? onCardClick : undefined}
@@ -79,14 +91,20 @@ export function ContractDisplay({
           anchorRef={cardRef}
           placement={{ side: "bottom", align: "center" }}
         >
-          <PopupMenuItem onClick={handleToggle}>
+          <PopupMenuItem onClick={handleToggle} disabled={fulfillDisabled}>
             {contract.fulfilled ? "Unfulfill Contract" : "Fulfill Contract"}
+            {fulfillDisabled && fulfillDisabledReason && (
+              <span className="popupMenu__itemNote">{fulfillDisabledReason}</span>
+            )}
           </PopupMenuItem>
           {contract.type === "market" &&
             contract.playerID == null &&
             onClaimContract != null && (
               <PopupMenuItem onClick={handleClaim} disabled={claimMarketDisabled}>
                 Claim Contract
+                {claimMarketDisabled && claimMarketDisabledReason && (
+                  <span className="popupMenu__itemNote">{claimMarketDisabledReason}</span>
+                )}
               </PopupMenuItem>
             )}
           {!contract.fulfilled && (
@@ -1,5 +1,7 @@
 import React from "react";
 import { ContractDisplay } from "./ContractDisplay";
+import { canClaimMarketContracts, marketContractsLockedReason } from "../engines";
+import { contractPayout } from "../finances";
 import type { GameState, GameContext } from "../stores/gameStore";
 import type { Contract } from "../Contract";
 
@@ -68,6 +70,20 @@ export function ContractsList({
   const currentPlayerHasUnfulfilledMarketContract = G.contracts.some(
     (c) => c.type === "market" && !c.fulfilled && c.playerID === ctx.currentPlayer
   );
+  const currentPlayerProps = G.players.find(([id]) => id === ctx.currentPlayer)?.[1];
+  const currentPlayerCanClaim = currentPlayerProps != null && canClaimMarketContracts(currentPlayerProps);
+  const claimMarketDisabledReason = !currentPlayerCanClaim
+    ? marketContractsLockedReason()
+    : currentPlayerHasUnfulfilledMarketContract
+      ? "You already hold a market contract"
+      : null;
+  // Fulfilled contracts were paid at delivery; the ledger has what they earned
+  const payoutPlayer =
+    type === "market"
+      ? currentPlayerProps
+      : type === "private"
+        ? G.players.find(([id]) => id === playerID)?.[1]
+        : undefined;
 
   return (
     <div className="contractsList">
@@ -75,6 +91,7 @@ export function ContractsList({
         <ContractDisplay
           key={contract.id}
           contract={contract}
+          payout={payoutPlayer ? contractPayout(payoutPlayer, contract) : undefined}
           isMenuOpen={openContractId === contract.id}
           onCardClick={isPlayerTurn ? () => handleCardClick(contract.id) : null}
           onClose={() => setOpenContractId(null)}
@@ -82,7 +99,10 @@ export function ContractsList({
           onToggleFulfilled={onToggleFulfilled}
           onDelete={onDelete}
           onClaimContract={onClaimContract}
-          claimMarketDisabled={currentPlayerHasUnfulfilledMarketContract}
+          claimMarketDisabled={claimMarketDisabledReason != null}
+          claimMarketDisabledReason={claimMarketDisabledReason}
+          fulfillDisabled={contract.playerID == null && !currentPlayerCanClaim}
+          fulfillDisabledReason={marketContractsLockedReason()}
         />
       ))}
     </div>
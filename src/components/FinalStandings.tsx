@@ -0,0 +1,77 @@
+import React from "react";
+import { finalStandings, type PlayerScore } from "../scoring";
+import { getPlayerAvatarColor } from "../utils/playerAvatar";
+import { PlayerAvatar } from "./PlayerAvatar";
+import type { GameState } from "../stores/gameStore";
+
+/** Breakdown rows shown for each player, in display order. */
+const SCORE_CATEGORIES: { key: keyof PlayerScore; label: string }[] = [
+  { key: "contracts", label: "Contracts" },
+  { key: "westCoast", label: "West Coast" },
+  { key: "commodityBreadth", label: "Breadth" },
+  { key: "commodityDepth", label: "Depth" },
+  { key: "connections", label: "Connections" },
+  { key: "monopolies", label: "Monopolies" },
+  { key: "bankruptcy", label: "Bankruptcy" },
+  { key: "regionalOffice", label: "Regional Office" },
+  { key: "engines", label: "Challenger" },
+];
+
+export interface FinalStandingsProps {
+  G: GameState;
+}
+
+/**
+ * End-of-game screen: players ranked by railroad ties with a per-category breakdown.
+ */
+export function FinalStandings({ G }: FinalStandingsProps): React.ReactElement {
+  const standings = finalStandings(G);
+  const winningTotal = standings[0]?.total ?? 0;
+
+  return (
+    <div className="pageContent finalStandings">
+      <h1 className="finalStandings__title">Final Standings</h1>
+      <table className="table finalStandings__table">
+        <thead className="table__header">
+          <tr>
+            <th className="table__headerCell">Player</th>
+            {SCORE_CATEGORIES.map(({ key, label }) => (
+              <th key={key} className="table__headerCell finalStandings__number">
+                {label}
+              </th>
+            ))}
+            <th className="table__headerCell finalStandings__number">Total</th>
+          </tr>
+        </thead>
+        <tbody>
+          {standings.map((score) => {
+            const avatarColor = G.players.find(([id]) => id === score.playerID)?.[1].avatarColor;
+            const isWinner = score.total === winningTotal;
+            return (
+              <tr
+                key={score.playerID}
+                className={`finalStandings__row ${isWinner ? "finalStandings__row--winner" : ""}`}
+              >
+                <td className="table__cell">
+                  <span className="finalStandings__player">
+                    <PlayerAvatar
+                      name={score.name}
+                      avatarColor={getPlayerAvatarColor(score.playerID, avatarColor)}
+                    />
+                    {score.name}
+                  </span>
+                </td>
+                {SCORE_CATEGORIES.map(({ key }) => (
+                  <td key={key} className="table__cell finalStandings__number">
+                    {score[key]}
+                  </td>
+                ))}
+                <td className="table__cell table__cell--bold finalStandings__number">{score.total}</td>
+              </tr>
+            );
+          })}
+        </tbody>
+      </table>
+    </div>
+  );
+}
@@ -1,49 +1,77 @@
 import React from "react";
 import { useGame } from "../hooks/useGame";
+import { formatMoney, isWestOpened, playerFinances } from "../finances";
+import {
+  canReachIndependentRailroad,
+  independentRailroadPrice,
+  playersReachingIndependentRailroad,
+} from "../independentRailroads";
 
 /**
- * Page component displaying all independent railroad companies with their routes.
- * Each railroad can be acquired via the "Acquire" button.
+ * Page component displaying all independent railroad companies with their routes, prices and the players whose
+ * networks reach them. The current player can acquire a railroad that touches their network via the "Acquire" button.
  */
 export function IndependentRailroadsPage(): React.ReactElement {
   const { G, ctx, playerID } = useGame();
   const isPlayerTurn = playerID === ctx.currentPlayer;
 
   const railroadsArray = Object.values(G.independentRailroads);
+  const currentPlayer = G.players.find(([id]) => id === ctx.currentPlayer)?.[1];
+  const cash = currentPlayer ? playerFinances(currentPlayer).cash : 0;
+  const playerName = (id: string): string =>
+    G.players.find(([playerID]) => playerID === id)?.[1].name ?? `Player ${id}`;
 
   return (
     <div className="pageContent">
       <div>
+        <p className="independentRailroads__note">
+          {isWestOpened(G)
+            ? "The West is open: independent railroads cost $4K per route."
+            : "Independent railroads cost $3K per route until a contract is fulfilled in a Western region."}
+        </p>
         <div className="independentRailroads">
-          {railroadsArray.map((railroad) => (
-            <div key={railroad.name} className="independentRailroads__item">
-              <div className="independentRailroads__header">
-                <div className="independentRailroads__name">{railroad.name}</div>
-                {isPlayerTurn && (
-                  <button
-                    name="acquireIndependentRailroad"
-                    id={railroad.name}
-                    className="button independentRailroads__button"
-                  >
-                    Acquire
-                  </button>
-                )}
+          {railroadsArray.map((railroad) => {
+            const price = independentRailroadPrice(G, railroad);
+            const reachedBy = playersReachingIndependentRailroad(G, railroad);
+            const canAcquire = currentPlayer != null && canReachIndependentRailroad(currentPlayer, railroad);
+            return (
+              <div key={railroad.name} className="independentRailroads__item">
+                <div className="independentRailroads__header">
+                  <div className="independentRailroads__name">{railroad.name}</div>
+                  <div className="independentRailroads__price">{formatMoney(price)}</div>
+                  {isPlayerTurn && canAcquire && (
+                    <button
+                      name="acquireIndependentRailroad"
+                      id={railroad.name}
+                      className="button independentRailroads__button"
+                      disabled={cash < price}
+                      title={cash < price ? `Only ${formatMoney(cash)} in cash` : undefined}
+                    >
+                      Acquire
+                    </button>
+                  )}
+                </div>
+                <div className="independentRailroads__reach">
+                  {reachedBy.length > 0
+                    ? `Reachable by ${reachedBy.map(playerName).join(", ")}`
+                    : "Not reachable by any player"}
+                </div>
+                <div className="independentRailroads__body">
+                  {railroad.routes.map((route) => (
+                    <div
+                      key={route.key}
+                      className="independentRailroads__route"
+                    >
+                      {ctx.round >= 2 && route.addedInRound === ctx.round - 1 && (
+                        <span className="independentRailroads__route-dot" aria-hidden />
+                      )}
+                      {route.key}
+                    </div>
+                  ))}
+                </div>
               </div>
-              <div className="independentRailroads__body">
-                {railroad.routes.map((route) => (
-                  <div
-                    key={route.key}
-                    className="independentRailroads__route"
-                  >
-                    {ctx.round >= 2 && route.addedInRound === ctx.round - 1 && (
-                      <span className="independentRailroads__route-dot" aria-hidden />
-                    )}
-                    {route.key}
-                  </div>
-                ))}
-              </div>
-            </div>
-          ))}
+            );
+          })}
         </div>
       </div>
     </div>
@@ -17,7 +17,7 @@ function useIsDesktop(): boolean {
   return isDesktop;
 }
 
-export type NavBarTabId = "board" | "commodities" | "indies" | "cities";
+export type NavBarTabId = "board" | "commodities" | "indies" | "cities" | "history";
 
 export interface NavBarGameManager {
   currentGameCode?: string | null;
@@ -211,6 +211,7 @@ export function NavBar({
     { id: "commodities", label: "Commodities" },
     { id: "indies", label: "Railroads" },
     { id: "cities", label: "Cities" },
+    { id: "history", label: "History" },
   ];
 
   return (
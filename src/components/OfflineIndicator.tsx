@@ -0,0 +1,24 @@
+import React from "react";
+import { getQueuedMoveCount, subscribeToOfflineQueue } from "../utils/storage/offlineQueue";
+
+export interface OfflineIndicatorProps {
+  /** Current game code (normalized). */
+  gameCode: string | null;
+}
+
+/**
+ * Shows that the cloud is unreachable and how many moves are waiting to be synced. Hidden when nothing is queued.
+ */
+export function OfflineIndicator({ gameCode }: OfflineIndicatorProps): React.ReactElement | null {
+  const pending = React.useSyncExternalStore(subscribeToOfflineQueue, () =>
+    gameCode ? getQueuedMoveCount(gameCode) : 0
+  );
+
+  if (pending === 0) return null;
+
+  return (
+    <div className="offlineIndicator" role="status">
+      Offline, {pending} {pending === 1 ? "move" : "moves"} pending
+    </div>
+  );
+}
@@ -1,18 +1,17 @@
 import React from "react";
-import { railroadTieValue } from "../Contract";
+import { commodityBonuses } from "../scoring";
+import { BankruptcyPanel } from "./BankruptcyPanel";
+import { isConnectionComplete } from "../connectionBonuses";
 import { ContractsList } from "./ContractsList";
+import { PlayerFinances } from "./PlayerFinances";
+import { PlayerFleet } from "./PlayerFleet";
+import { PlayerTrack } from "./PlayerTrack";
+import { StartingRouteDraft } from "./StartingRouteDraft";
 import type { GameState, GameContext } from "../stores/gameStore";
+import type { StartingRoute } from "../startingRoutes";
+import type { OwnedTrack } from "../track";
 
-const STARTING_CITY_PAIRS: [string, string][] = [
-  ["Montreal", "Quebec City"],
-  ["Boston", "Portland ME"],
-  ["New York", "Philadelphia"],
-  ["Philadelphia", "Washington"],
-  ["Norfolk", "Raleigh"],
-  ["Charleston", "Savannah"],
-];
-
-export type GamePhase = "setup" | "play" | "scoring";
+export type GamePhase = "setup" | "play" | "bankruptcy" | "scoring";
 
 export interface PlayerBoardProps {
   G: GameState;
@@ -21,11 +20,22 @@ export interface PlayerBoardProps {
   isBYODMode?: boolean;
   startingContractExists: boolean;
   currentPhase: GamePhase;
-  onStartingPairSelect: (pair: [string, string]) => void;
+  onRankStartingRoutes: (ranking: StartingRoute[]) => void;
   onOpenPrivateContractModal?: () => void;
   onToggleFulfilled: (contractID: string) => void;
   onDelete: (contractID: string) => void;
   onClaimContract?: (contractID: string) => void;
+  onClaimConnectionBonus?: (bonusID: string) => void;
+  onBorrow?: (amount: number) => void;
+  onRepay?: (amount: number) => void;
+  onBuyEngine?: (engineKey: string, replaceKey?: string) => void;
+  onBuyUpgrade?: (upgradeKey: string) => void;
+  onPlaceRailyard?: (cityKey: string) => void;
+  onBuildTrack?: (routeKey: string, parallel: boolean) => void;
+  onSellTrack?: (segments: OwnedTrack[]) => void;
+  onChooseAuctionSegment?: (segmentIndex: number) => void;
+  onBidOnTrack?: (amount: number) => void;
+  onPassOnTrack?: () => void;
 }
 
 /**
@@ -38,11 +48,22 @@ export function PlayerBoard({
   isBYODMode = false,
   startingContractExists,
   currentPhase,
-  onStartingPairSelect,
+  onRankStartingRoutes,
   onOpenPrivateContractModal,
   onToggleFulfilled,
   onDelete,
   onClaimContract,
+  onClaimConnectionBonus,
+  onBorrow,
+  onRepay,
+  onBuyEngine,
+  onBuyUpgrade,
+  onPlaceRailyard,
+  onBuildTrack,
+  onSellTrack,
+  onChooseAuctionSegment,
+  onBidOnTrack,
+  onPassOnTrack,
 }: PlayerBoardProps): React.ReactElement | null {
   const effectivePlayerID = isBYODMode && playerID != null ? playerID : ctx.currentPlayer;
   const activePlayer = G.players.find(([key]) => key === effectivePlayerID);
@@ -50,53 +71,106 @@ export function PlayerBoard({
 
   if (!activePlayer) return null;
 
-  const [key, { name }] = activePlayer;
-  const contracts = G.contracts;
-  const playerScore = contracts
-    .filter((contract) => contract.playerID === key && contract.fulfilled)
-    .reduce((sum, contract) => sum + railroadTieValue(contract), 0);
-
-  const getChosenCities = (): Set<string> => {
-    const chosenCities = new Set<string>();
-    G.players.forEach(([, player]) => {
-      player.activeCities.forEach((city) => chosenCities.add(city));
-    });
-    return chosenCities;
-  };
-
-  const chosenCities = currentPhase === "setup" ? getChosenCities() : new Set<string>();
-
-  const isPairChosen = (pair: [string, string]): boolean =>
-    chosenCities.has(pair[0]) || chosenCities.has(pair[1]);
-
-  const handlePairClick = (pair: [string, string]) => {
-    if (isPairChosen(pair) || !isPlayerTurn) return;
-    onStartingPairSelect(pair);
-  };
+  const [key, playerProps] = activePlayer;
+  const { activeCities } = playerProps;
+  const bonuses = commodityBonuses(G, key);
+  const connectionBonuses = G.connectionBonuses ?? [];
+  const playerName = (playerID: string): string =>
+    G.players.find(([id]) => id === playerID)?.[1].name ?? `Player ${playerID}`;
 
   return (
     <div className="playerBoard">
       <div className="playerBoard__player">
         {currentPhase === "setup" && (
-          <div className="playerBoard__startingPairs">
-            <div className="playerBoard__startingPairsLabel">Choose your starting cities:</div>
-            {STARTING_CITY_PAIRS.map((pair, index) => {
-              const disabled = isPairChosen(pair) || !isPlayerTurn;
-              return (
-                <button
-                  key={index}
-                  type="button"
-                  className="button playerBoard__pairButton"
-                  disabled={disabled}
-                  onClick={() => handlePairClick(pair)}
-                >
-                  {pair.join(" & ")}
-                </button>
-              );
-            })}
-          </div>
+          <StartingRouteDraft
+            key={key}
+            submittedRanking={G.startingRoutePreferences?.[key]}
+            waitingFor={G.players
+              .filter(([id]) => G.startingRoutePreferences?.[id] == null)
+              .map(([, player]) => player.name)}
+            onSubmit={onRankStartingRoutes}
+          />
+        )}
+        {currentPhase === "bankruptcy" && (
+          <BankruptcyPanel
+            G={G}
+            viewerID={isBYODMode && playerID != null ? playerID : undefined}
+            onSellTrack={(segments) => onSellTrack?.(segments)}
+            onChooseSegment={(segmentIndex) => onChooseAuctionSegment?.(segmentIndex)}
+            onBid={(amount) => onBidOnTrack?.(amount)}
+            onPass={() => onPassOnTrack?.()}
+          />
         )}
         <div className={`playerBoard__contracts ${currentPhase === "play" ? "" : "hidden"}`}>
+          <h3 className="playerBoard__contractsTitle">Finances</h3>
+          <PlayerFinances
+            player={playerProps}
+            isPlayerTurn={isPlayerTurn}
+            onBorrow={(amount) => onBorrow?.(amount)}
+            onRepay={(amount) => onRepay?.(amount)}
+          />
+          <h3 className="playerBoard__contractsTitle">Engines</h3>
+          <PlayerFleet
+            G={G}
+            player={playerProps}
+            isPlayerTurn={isPlayerTurn}
+            onBuyEngine={(engineKey, replaceKey) => onBuyEngine?.(engineKey, replaceKey)}
+            onBuyUpgrade={(upgradeKey) => onBuyUpgrade?.(upgradeKey)}
+            onPlaceRailyard={(cityKey) => onPlaceRailyard?.(cityKey)}
+          />
+          <h3 className="playerBoard__contractsTitle">Track</h3>
+          <PlayerTrack
+            G={G}
+            ctx={ctx}
+            player={playerProps}
+            isPlayerTurn={isPlayerTurn}
+            onBuildTrack={(routeKey, parallel) => onBuildTrack?.(routeKey, parallel)}
+          />
+          <h3 className="playerBoard__contractsTitle">Commodity bonuses</h3>
+          <div className="playerBoard__bonuses">
+            <div className="playerBoard__bonus">
+              <span>Breadth ({bonuses.distinctCommodities} commodities)</span>
+              <span className="playerBoard__bonusTies">{bonuses.breadth}</span>
+            </div>
+            <div className="playerBoard__bonus">
+              <span>
+                Depth
+                {bonuses.mostDeliveredCommodity
+                  ? ` (${bonuses.mostDeliveredCommodity} ×${bonuses.mostDeliveredCount})`
+                  : ""}
+              </span>
+              <span className="playerBoard__bonusTies">{bonuses.depth}</span>
+            </div>
+          </div>
+          {connectionBonuses.length > 0 && (
+            <>
+              <h3 className="playerBoard__contractsTitle">Connection bonuses</h3>
+              <div className="playerBoard__bonuses">
+                {connectionBonuses.map((bonus) => (
+                  <div key={bonus.id} className="playerBoard__bonus">
+                    <span>
+                      {bonus.label}
+                      {bonus.claimedBy !== null && (
+                        <span className="playerBoard__bonusClaimedBy"> (claimed by {playerName(bonus.claimedBy)})</span>
+                      )}
+                    </span>
+                    <span className="playerBoard__buttonGroup">
+                      {bonus.claimedBy === null && isPlayerTurn && isConnectionComplete(bonus, activeCities) && (
+                        <button
+                          type="button"
+                          className="button"
+                          onClick={() => onClaimConnectionBonus?.(bonus.id)}
+                        >
+                          Claim
+                        </button>
+                      )}
+                      <span className="playerBoard__bonusTies">{bonus.ties}</span>
+                    </span>
+                  </div>
+                ))}
+              </div>
+            </>
+          )}
           <h3 className="playerBoard__contractsTitle">Private</h3>
           <ContractsList
             G={G}
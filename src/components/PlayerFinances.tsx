@@ -0,0 +1,68 @@
+import React from "react";
+import { DEBT_FLOOR, LOAN_INCREMENT, REPAY_AMOUNTS, formatMoney, playerFinances } from "../finances";
+import type { PlayerProps } from "../stores/gameStore";
+
+export interface PlayerFinancesProps {
+  player: PlayerProps;
+  isPlayerTurn: boolean;
+  onBorrow: (amount: number) => void;
+  onRepay: (amount: number) => void;
+}
+
+/**
+ * Cash and debt for one player, Borrow/Repay buttons, and the player's transaction history (newest first).
+ */
+export function PlayerFinances({
+  player,
+  isPlayerTurn,
+  onBorrow,
+  onRepay,
+}: PlayerFinancesProps): React.ReactElement {
+  const { cash, debt, transactions } = playerFinances(player);
+
+  return (
+    <div className="playerFinances">
+      <div className="playerFinances__summary">
+        <span>
+          Cash <span className="playerFinances__amount">{formatMoney(cash)}</span>
+        </span>
+        <span>
+          Debt <span className="playerFinances__amount">{formatMoney(debt)}</span>
+        </span>
+      </div>
+      {isPlayerTurn && (
+        <div className="playerBoard__buttonGroup">
+          <button type="button" className="button" onClick={() => onBorrow(LOAN_INCREMENT)}>
+            Borrow {formatMoney(LOAN_INCREMENT)}
+          </button>
+          {REPAY_AMOUNTS.map((amount) => (
+            <button
+              key={amount}
+              type="button"
+              className="button"
+              disabled={debt - amount < DEBT_FLOOR || cash < amount}
+              onClick={() => onRepay(amount)}
+            >
+              Repay {formatMoney(amount)}
+            </button>
+          ))}
+        </div>
+      )}
+      {transactions.length > 0 && (
+        <details className="playerFinances__history">
+          <summary>Transactions ({transactions.length})</summary>
+          <ol className="playerFinances__transactions" reversed>
+            {[...transactions].reverse().map((transaction) => (
+              <li key={transaction.id} className="playerFinances__transaction">
+                <span>
+                  Round {transaction.round}: {transaction.description}
+                </span>
+                <span className="playerFinances__amount">{formatMoney(transaction.cash)}</span>
+              </li>
+            ))}
+          </ol>
+        </details>
+      )}
+    </div>
+  );
+}
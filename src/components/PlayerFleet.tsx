@@ -0,0 +1,136 @@
+import React from "react";
+import { engines, upgrades } from "../data";
+import {
+  MAX_ENGINES,
+  STARTING_ENGINE,
+  engineDistance,
+  isUpgradeAvailable,
+  nextEngine,
+  playerEngines,
+  playerUpgrades,
+  tradeInValue,
+} from "../engines";
+import { formatMoney, playerFinances } from "../finances";
+import { railyardOwner } from "../railyards";
+import type { GameState, PlayerProps } from "../stores/gameStore";
+
+export interface PlayerFleetProps {
+  G: GameState;
+  player: PlayerProps;
+  isPlayerTurn: boolean;
+  onBuyEngine: (engineKey: string, replaceKey?: string) => void;
+  onBuyUpgrade: (upgradeKey: string) => void;
+  onPlaceRailyard: (cityKey: string) => void;
+}
+
+/**
+ * The player's engines and upgrades, with buttons to buy the next engine (optionally trading one in) and any
+ * available upgrade. Once the Railyard is bought, the player picks a city on their network to place it in.
+ */
+export function PlayerFleet({
+  G,
+  player,
+  isPlayerTurn,
+  onBuyEngine,
+  onBuyUpgrade,
+  onPlaceRailyard,
+}: PlayerFleetProps): React.ReactElement {
+  const owned = playerEngines(player);
+  const ownedUpgrades = playerUpgrades(player);
+  const { cash } = playerFinances(player);
+  const next = nextEngine(player);
+  const [railyardCity, setRailyardCity] = React.useState("");
+  const railyardCities = player.activeCities.filter((cityKey) => railyardOwner(G, cityKey) === undefined);
+
+  // Each way to buy the next engine: trade in one of the owned engines, or keep both if there is room
+  const engineOptions: { replaceKey?: string; price: number }[] = [];
+  if (next) {
+    const [, engine] = next;
+    if (owned.includes(STARTING_ENGINE)) {
+      engineOptions.push({ replaceKey: STARTING_ENGINE, price: engine.cost });
+    } else {
+      if (owned.length < MAX_ENGINES) engineOptions.push({ price: engine.cost });
+      owned.forEach((key) => engineOptions.push({ replaceKey: key, price: engine.cost - tradeInValue(key) }));
+    }
+  }
+
+  return (
+    <div className="playerFleet">
+      <div className="playerBoard__bonuses">
+        {owned.map((key, index) => (
+          <div key={`${key}-${index}`} className="playerBoard__bonus">
+            <span>
+              {engines.get(key)?.wheels} {key}
+            </span>
+            <span className="playerFleet__distance">{engineDistance(player, key)} segments</span>
+          </div>
+        ))}
+      </div>
+      {isPlayerTurn && next && (
+        <div className="playerBoard__buttonGroup">
+          {engineOptions.map(({ replaceKey, price }) => (
+            <button
+              key={replaceKey ?? ""}
+              type="button"
+              className="button"
+              disabled={cash < price}
+              onClick={() => onBuyEngine(next[0], replaceKey)}
+            >
+              Buy {next[0]}
+              {replaceKey ? `, trade in ${replaceKey}` : ""} ({formatMoney(price)})
+            </button>
+          ))}
+        </div>
+      )}
+      {ownedUpgrades.length > 0 && (
+        <div className="playerFleet__upgrades">Upgrades: {ownedUpgrades.join(", ")}</div>
+      )}
+      {player.railyard && <div className="playerFleet__upgrades">Railyard in {player.railyard}</div>}
+      {isPlayerTurn && ownedUpgrades.includes("Railyard") && !player.railyard && (
+        <div className="playerBoard__buttonGroup">
+          <select
+            value={railyardCity}
+            onChange={(e: React.ChangeEvent<HTMLSelectElement>) => setRailyardCity(e.target.value)}
+            aria-label="Railyard city"
+          >
+            <option value="">Choose a city…</option>
+            {railyardCities.map((cityKey) => (
+              <option key={cityKey} value={cityKey}>
+                {cityKey}
+              </option>
+            ))}
+          </select>
+          <button
+            type="button"
+            className="button"
+            disabled={!railyardCity}
+            onClick={() => onPlaceRailyard(railyardCity)}
+          >
+            Place railyard
+          </button>
+        </div>
+      )}
+      {isPlayerTurn && (
+        <div className="playerBoard__buttonGroup">
+          {[...upgrades.entries()]
+            .filter(([key]) => !ownedUpgrades.includes(key))
+            .map(([key, upgrade]) => {
+              const available = isUpgradeAvailable(G, key);
+              return (
+                <button
+                  key={key}
+                  type="button"
+                  className="button"
+                  disabled={!available || cash < upgrade.cost}
+                  title={available ? upgrade.description : `Available once a player buys a ${upgrade.requiresEngine}`}
+                  onClick={() => onBuyUpgrade(key)}
+                >
+                  {key} ({formatMoney(upgrade.cost)})
+                </button>
+              );
+            })}
+        </div>
+      )}
+    </div>
+  );
+}
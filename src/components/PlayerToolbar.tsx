@@ -1,11 +1,12 @@
 import React from "react";
-import { railroadTieValue } from "../Contract";
+import { scorePlayer } from "../scoring";
+import { marketContractsLockedReason, marketContractsOpen } from "../engines";
 import { getOtherPlayerIdsInPlayOrder, getPlayerAvatarColor } from "../utils/playerAvatar";
 import { PlayerAvatar } from "./PlayerAvatar";
 import type { GameState, GameContext } from "../stores/gameStore";
 import { useGameStore } from "../stores/gameStore";
 
-export type GamePhase = "setup" | "play" | "scoring";
+export type GamePhase = "setup" | "play" | "bankruptcy" | "scoring";
 
 export interface PlayerToolbarProps {
   G: GameState;
@@ -18,7 +19,8 @@ export interface PlayerToolbarProps {
 }
 
 /**
- * Toolbar shown below NavBar: current player name, score, turn indicator or action buttons (Undo, +P, +M, End Turn).
+ * Toolbar shown below NavBar: current player name, score, turn indicator or action buttons (Undo Turn, Undo, Redo,
+ * +P, +M, End Turn).
  */
 export function PlayerToolbar({
   G,
@@ -44,14 +46,18 @@ export function PlayerToolbar({
     isPlayerTurn &&
     turnStartSnapshot != null &&
     hasMovedThisTurn;
+  // Per-move undo/redo stays within this player's turn; going back to earlier turns is the host's rollback
+  const undoMove = useGameStore((s) => s.undoMove);
+  const redoMove = useGameStore((s) => s.redoMove);
+  const previousState = useGameStore((s) => s.undoStack[s.undoStack.length - 1]);
+  const undoneState = useGameStore((s) => s.redoStack[s.redoStack.length - 1]);
+  const canUndoMove = currentPhase === "play" && isPlayerTurn && previousState?.ctx.currentPlayer === ctx.currentPlayer;
+  const canRedoMove = currentPhase === "play" && isPlayerTurn && undoneState?.ctx.currentPlayer === ctx.currentPlayer;
 
   if (!activePlayer) return null;
 
   const [key, { name, avatarColor }] = activePlayer;
-  const contracts = G.contracts;
-  const playerScore = contracts
-    .filter((contract) => contract.playerID === key && contract.fulfilled)
-    .reduce((sum, contract) => sum + railroadTieValue(contract), 0);
+  const playerScore = scorePlayer(G, key, activePlayer[1])?.duringGame ?? 0;
   const otherPlayerIds = getOtherPlayerIdsInPlayOrder(key, ctx.playOrder);
 
   return (
@@ -77,7 +83,7 @@ export function PlayerToolbar({
                     key={otherPlayerId}
                     name={otherName}
                     avatarColor={getPlayerAvatarColor(otherPlayerId, otherAvatarColor)}
-                    title={otherName}
+                    title={G.goFirstNextRound === otherPlayerId ? `${otherName} (going first next round)` : otherName}
                     isCurrentTurn={otherPlayerId === ctx.currentPlayer}
                   />
                 );
@@ -94,9 +100,29 @@ export function PlayerToolbar({
               className={`button playerToolbar__undo ${currentPhase === "play" && isPlayerTurn ? "" : "button--hidden"}`}
               disabled={!canUndo}
               onClick={() => undoCurrentTurn()}
+            >
+              Undo Turn
+            </button>
+            <button
+              type="button"
+              name="undoMove"
+              aria-label="Undo last action"
+              className={`button ${currentPhase === "play" && isPlayerTurn ? "" : "button--hidden"}`}
+              disabled={!canUndoMove}
+              onClick={() => undoMove()}
             >
               Undo
             </button>
+            <button
+              type="button"
+              name="redoMove"
+              aria-label="Redo last undone action"
+              className={`button ${currentPhase === "play" && isPlayerTurn ? "" : "button--hidden"}`}
+              disabled={!canRedoMove}
+              onClick={() => redoMove()}
+            >
+              Redo
+            </button>
             <button
               type="button"
               name="privateContract"
@@ -109,9 +135,28 @@ export function PlayerToolbar({
               type="submit"
               name="marketContract"
               className={`button ${currentPhase === "play" && isPlayerTurn ? "" : "button--hidden"}`}
+              disabled={!marketContractsOpen(G)}
+              title={
+                marketContractsOpen(G)
+                  ? undefined
+                  : `Market contracts are created once a player can claim one (${marketContractsLockedReason()})`
+              }
             >
               +M
             </button>
+            <button
+              type="submit"
+              name="goFirstNextRound"
+              className={`button ${currentPhase === "play" && isPlayerTurn ? "" : "button--hidden"}`}
+              disabled={G.goFirstNextRound != null}
+              title={
+                G.goFirstNextRound != null
+                  ? `${G.players.find(([id]) => id === G.goFirstNextRound)?.[1].name ?? "Another player"} is going first next round`
+                  : "Go first next round"
+              }
+            >
+              Go First
+            </button>
             <button
               type="submit"
               name="endTurn"
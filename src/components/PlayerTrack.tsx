@@ -0,0 +1,89 @@
+import React from "react";
+import { formatMoney, playerFinances } from "../finances";
+import {
+  buildableTrack,
+  playerTrack,
+  segmentsBuiltThisTurn,
+  trackCost,
+  trackLabel,
+  trackSegmentsPerTurn,
+} from "../track";
+import type { GameState, GameContext, PlayerProps } from "../stores/gameStore";
+
+export interface PlayerTrackProps {
+  G: GameState;
+  ctx: GameContext;
+  player: PlayerProps;
+  isPlayerTurn: boolean;
+  onBuildTrack: (routeKey: string, parallel: boolean) => void;
+}
+
+/**
+ * The player's track network, with a picker for the next segment to build and how many segments are left this turn.
+ */
+export function PlayerTrack({ G, ctx, player, isPlayerTurn, onBuildTrack }: PlayerTrackProps): React.ReactElement {
+  const owned = playerTrack(player);
+  const { cash } = playerFinances(player);
+  const options = buildableTrack(G, player);
+  const limit = trackSegmentsPerTurn(player);
+  const built = segmentsBuiltThisTurn(player, ctx);
+  const [routeKey, setRouteKey] = React.useState("");
+  const choice = options.find((option) => option.routeKey === routeKey);
+
+  return (
+    <div className="playerTrack">
+      <div className="playerBoard__bonuses">
+        {owned.length === 0 && <div className="playerTrack__empty">No track built</div>}
+        {owned.map((segment) => (
+          <div key={trackLabel(segment)} className="playerBoard__bonus">
+            <span>{trackLabel(segment)}</span>
+            <span className="playerTrack__cost">{formatMoney(trackCost(segment.routeKey, segment.parallel))}</span>
+          </div>
+        ))}
+      </div>
+      {isPlayerTurn && (
+        <div className="playerBoard__buttonGroup">
+          <select
+            className="playerTrack__select"
+            value={routeKey}
+            onChange={(e: React.ChangeEvent<HTMLSelectElement>) => setRouteKey(e.target.value)}
+            aria-label="Track to build"
+          >
+            <option value="">Choose a segment…</option>
+            {options.map((option) => (
+              <option key={option.routeKey} value={option.routeKey}>
+                {trackLabel(option)} ({formatMoney(option.cost)})
+              </option>
+            ))}
+          </select>
+          <button
+            type="button"
+            className="button"
+            disabled={!choice || cash < choice.cost || built >= limit}
+            onClick={() => {
+              if (!choice) return;
+              onBuildTrack(choice.routeKey, choice.parallel);
+              setRouteKey("");
+            }}
+          >
+            Build track
+          </button>
+          <span className="playerTrack__limit">
+            {built} of {limit} segments built this turn
+          </span>
+        </div>
+      )}
+      {isPlayerTurn && choice && (
+        <div className="playerTrack__preview">
+          {trackLabel(choice)}: {formatMoney(choice.cost)}
+          {choice.cost < choice.baseCost && (
+            <span className="playerTrack__cost">
+              {" "}
+              (base {formatMoney(choice.baseCost)}, hub discount {formatMoney(choice.baseCost - choice.cost)})
+            </span>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -2,6 +2,8 @@ import React from "react";
 import { generatePrivateContractOffers, generatePrivateContractSpec } from "../Contract";
 import { ContractCard } from "./ContractCard";
 import { cities } from "../data";
+import { contractPayout } from "../finances";
+import { regionalOfficeUnavailableReason } from "../regionalOffices";
 import type { GameState, GameContext, RegionCode } from "../stores/gameStore";
 import type { PrivateContractSpec } from "../Contract";
 import { useGameStore } from "../stores/gameStore";
@@ -73,13 +75,15 @@ export function PrivateContractOfferModal({
     [otherPlayersHubCities]
   );
 
-  const otherPlayersRegionalOffices = React.useMemo(() => {
-    if (!G?.players || ctx?.currentPlayer == null) return [];
-    return G.players
-      .filter(([id]) => id !== ctx.currentPlayer)
-      .map(([, p]) => p.regionalOffice)
-      .filter((region): region is RegionCode => region != null);
-  }, [G?.players, ctx?.currentPlayer]);
+  const regionalOfficeReasons = React.useMemo(() => {
+    if (!G?.players || ctx?.currentPlayer == null) return {};
+    return Object.fromEntries(
+      REGION_GRID_ORDER.flat().map((regionCode) => [
+        regionCode,
+        regionalOfficeUnavailableReason(G, ctx.currentPlayer, regionCode),
+      ])
+    ) as Record<string, string | null>;
+  }, [G, ctx?.currentPlayer]);
 
   const prevIsOpenRef = React.useRef(false);
   React.useEffect(() => {
@@ -218,13 +222,14 @@ export function PrivateContractOfferModal({
             >
               {REGION_GRID_ORDER.map((row, rowIndex) =>
                 row.map((regionCode) => {
-                  const disabled = otherPlayersRegionalOffices.includes(regionCode);
+                  const reason = regionalOfficeReasons[regionCode] ?? null;
                   return (
                     <button
                       key={regionCode}
                       type="button"
                       className="privateContractOfferModal__regionItem"
-                      disabled={disabled}
+                      disabled={reason != null}
+                      title={reason ?? undefined}
                       onClick={() => {
                         if (!moves?.claimRegionalOffice(regionCode)) return;
                         const { G: updatedG, ctx: updatedCtx } = useGameStore.getState();
@@ -255,6 +260,9 @@ export function PrivateContractOfferModal({
                       }}
                     >
                       {REGION_LABELS[regionCode] ?? regionCode}
+                      {reason && (
+                        <span className="privateContractOfferModal__regionReason">{reason}</span>
+                      )}
                     </button>
                   );
                 })
@@ -287,6 +295,7 @@ export function PrivateContractOfferModal({
                     commodity={spec.commodity}
                     destinationKey={spec.destinationKey}
                     variant="private"
+                    payout={currentPlayer ? contractPayout(currentPlayer, spec) : undefined}
                     className="privateContractOfferModal__card"
                     onClick={() => handleOfferClick(spec.commodity, spec.destinationKey)}
                   />
@@ -0,0 +1,201 @@
+import React from "react";
+import type { Contract } from "../Contract";
+import { formatMoney, playerFinances } from "../finances";
+import { scorePlayer } from "../scoring";
+import { useStorage } from "../providers/StorageProvider";
+import { replayMoveLog, rollbackToPosition, type ReplayedState } from "../stores/replay";
+import { turnStartPositions, type MoveLogEntry } from "../stores/moveLog";
+import { useGameStore, type GameState, type PlayerProps } from "../stores/gameStore";
+
+export interface ReplayViewerProps {
+  G: GameState;
+  isBYODMode?: boolean;
+  /** Current game code (BYOD: used to check whether this device is the host). */
+  gameCode?: string;
+}
+
+function playerName(G: GameState, playerID: string): string {
+  return G.players.find(([id]) => id === playerID)?.[1].name ?? `Player ${playerID}`;
+}
+
+function describeEntry(entry: MoveLogEntry, G: GameState): string {
+  const player = playerName(G, entry.playerID);
+  const args = entry.args.filter((arg) => typeof arg === "string" || typeof arg === "number").join(", ");
+  return `${player}: ${entry.move}${args ? ` (${args})` : ""}`;
+}
+
+/**
+ * Game history: steps forward and back through the move log and shows the game as it stood after each move,
+ * rebuilt by replaying the log from the start of the game. Hot-seat games can undo and redo moves across turns and
+ * roll back to the start of any earlier turn; in BYOD games only the host can roll back.
+ */
+export function ReplayViewer({ G, isBYODMode = false, gameCode }: ReplayViewerProps): React.ReactElement {
+  const storage = useStorage();
+  const log = G.moveLog ?? [];
+  const [position, setPosition] = React.useState(log.length);
+  const [followLatest, setFollowLatest] = React.useState(true);
+  const [replayed, setReplayed] = React.useState<ReplayedState | null>(null);
+  const [isHost, setIsHost] = React.useState(false);
+  const canUndoMove = useGameStore((s) => s.undoStack.length > 0);
+  const canRedoMove = useGameStore((s) => s.redoStack.length > 0);
+  const undoMove = useGameStore((s) => s.undoMove);
+  const redoMove = useGameStore((s) => s.redoMove);
+
+  React.useEffect(() => {
+    if (!isBYODMode || !gameCode) return;
+    storage.amIHost(gameCode).then(setIsHost).catch(() => setIsHost(false));
+  }, [isBYODMode, gameCode, storage]);
+
+  // Stay on the latest move as new ones arrive, unless the user has stepped back
+  React.useEffect(() => {
+    if (followLatest) setPosition(log.length);
+  }, [followLatest, log.length]);
+
+  // Replaying runs moves against the store, so it must happen outside render
+  React.useEffect(() => {
+    setReplayed(replayMoveLog(G, position));
+  }, [G.moveLogStart, log.length, position]);
+
+  if (!G.moveLogStart) {
+    return (
+      <div className="pageContent replayViewer">
+        <p className="replayViewer__note">This game was started before moves were recorded, so it has no history.</p>
+      </div>
+    );
+  }
+
+  const goTo = (next: number) => {
+    const clamped = Math.max(0, Math.min(log.length, next));
+    setPosition(clamped);
+    setFollowLatest(clamped === log.length);
+  };
+
+  const canRollback = !isBYODMode || isHost;
+  const isTurnStart = turnStartPositions(log).includes(position);
+  const handleRollback = () => {
+    if (!window.confirm(`Roll the game back to before move ${position + 1}? Later moves stay in the history.`)) return;
+    if (rollbackToPosition(position)) setFollowLatest(true);
+  };
+
+  return (
+    <div className="pageContent replayViewer">
+      <div className="replayViewer__controls">
+        <button type="button" className="button" onClick={() => goTo(0)} disabled={position === 0}>
+          Start
+        </button>
+        <button type="button" className="button" onClick={() => goTo(position - 1)} disabled={position === 0}>
+          Back
+        </button>
+        <input
+          type="range"
+          className="replayViewer__slider"
+          min={0}
+          max={log.length}
+          value={position}
+          onChange={(e) => goTo(Number(e.target.value))}
+          aria-label="Move"
+        />
+        <button
+          type="button"
+          className="button"
+          onClick={() => goTo(position + 1)}
+          disabled={position === log.length}
+        >
+          Forward
+        </button>
+        <button type="button" className="button" onClick={() => goTo(log.length)} disabled={position === log.length}>
+          Latest
+        </button>
+        <span className="replayViewer__position">
+          Move {position} of {log.length}
+        </span>
+      </div>
+
+      <div className="replayViewer__controls">
+        {!isBYODMode && (
+          <>
+            <button type="button" className="button" onClick={() => undoMove()} disabled={!canUndoMove}>
+              Undo
+            </button>
+            <button type="button" className="button" onClick={() => redoMove()} disabled={!canRedoMove}>
+              Redo
+            </button>
+          </>
+        )}
+        {canRollback && position < log.length && (
+          <button
+            type="button"
+            className="button button--danger"
+            onClick={handleRollback}
+            disabled={!isTurnStart}
+            title={isTurnStart ? undefined : "Step to the start of a turn to roll back to it"}
+          >
+            Roll back to here
+          </button>
+        )}
+      </div>
+
+      {replayed && (
+        <div className="replayViewer__state">
+          <p className="replayViewer__summary">
+            Round {replayed.ctx.round}, turn {replayed.ctx.turn} &middot; {replayed.ctx.phase} &middot;{" "}
+            {playerName(replayed.G, replayed.ctx.currentPlayer)} to play
+          </p>
+          {replayed.divergedAt != null && (
+            <p className="replayViewer__note">
+              Replay diverged from the recorded game at move {replayed.divergedAt + 1}; later positions may differ.
+            </p>
+          )}
+          <table className="table">
+            <thead className="table__header">
+              <tr>
+                <th className="table__headerCell">Player</th>
+                <th className="table__headerCell replayViewer__number">Cash</th>
+                <th className="table__headerCell replayViewer__number">Debt</th>
+                <th className="table__headerCell replayViewer__number">Cities</th>
+                <th className="table__headerCell replayViewer__number">Delivered</th>
+                <th className="table__headerCell replayViewer__number">Ties</th>
+              </tr>
+            </thead>
+            <tbody>
+              {replayed.G.players.map(([id, props]: [string, PlayerProps]) => {
+                const { cash, debt } = playerFinances(props);
+                const delivered = replayed.G.contracts.filter((c: Contract) => c.playerID === id && c.fulfilled).length;
+                return (
+                  <tr key={id}>
+                    <td className="table__cell">{props.name}</td>
+                    <td className="table__cell replayViewer__number">{formatMoney(cash)}</td>
+                    <td className="table__cell replayViewer__number">{formatMoney(debt)}</td>
+                    <td className="table__cell replayViewer__number">{props.activeCities.length}</td>
+                    <td className="table__cell replayViewer__number">{delivered}</td>
+                    <td className="table__cell replayViewer__number">
+                      {scorePlayer(replayed.G, id, props)?.duringGame ?? 0}
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      <ol className="replayViewer__log">
+        {log.map((entry) => (
+          <li
+            key={entry.index}
+            className={`replayViewer__entry ${entry.index < position ? "" : "replayViewer__entry--future"} ${
+              entry.index === position - 1 ? "replayViewer__entry--current" : ""
+            }`}
+          >
+            <button type="button" className="replayViewer__entryButton" onClick={() => goTo(entry.index + 1)}>
+              <span className="replayViewer__entryTurn">
+                R{entry.round} T{entry.turn}
+              </span>
+              {describeEntry(entry, G)}
+            </button>
+          </li>
+        ))}
+      </ol>
+    </div>
+  );
+}
@@ -0,0 +1,72 @@
+import React from "react";
+import { useConflictStore } from "../stores/conflictStore";
+import type { MergeConflict } from "../utils/stateMerge";
+import type { RejectedMove } from "../utils/storage/storageAdapter";
+
+/**
+ * Asks which changes to keep when this device and another made moves at once that cannot both stand. Moves that
+ * still apply alongside the other device's have already been merged; only the moves listed here do not. Also lists
+ * moves made offline that were dropped on reconnecting because the game had moved on.
+ */
+export function SaveConflictDialog(): React.ReactElement | null {
+  const conflicts = useConflictStore((s) => s.conflicts);
+  const resolve = useConflictStore((s) => s.resolve);
+  const rejectedMoves = useConflictStore((s) => s.rejectedMoves);
+  const dismissRejectedMoves = useConflictStore((s) => s.dismissRejectedMoves);
+
+  if (!conflicts && rejectedMoves) {
+    return (
+      <div className="modal" role="dialog" aria-modal="true" aria-labelledby="rejected-moves-title">
+        <div className="modal__content">
+          <h2 id="rejected-moves-title" className="modal__title">
+            Offline moves not applied
+          </h2>
+          <p className="saveConflictDialog__intro">
+            The game changed while you were offline, so these moves no longer applied. Your other moves were saved.
+          </p>
+          <ul className="saveConflictDialog__list">
+            {rejectedMoves.map((rejected: RejectedMove, index: number) => (
+              <li key={index}>
+                {rejected.move.move} ({rejected.error})
+              </li>
+            ))}
+          </ul>
+          <div className="modal__actions">
+            <button type="button" className="button" onClick={dismissRejectedMoves}>
+              OK
+            </button>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  if (!conflicts) return null;
+
+  return (
+    <div className="modal" role="dialog" aria-modal="true" aria-labelledby="save-conflict-title">
+      <div className="modal__content">
+        <h2 id="save-conflict-title" className="modal__title">
+          Changes made at the same time
+        </h2>
+        <p className="saveConflictDialog__intro">
+          Another device moved while you did, so these moves of yours no longer apply. Everything else from both
+          devices has been kept.
+        </p>
+        <ul className="saveConflictDialog__list">
+          {conflicts.map((conflict: MergeConflict) => (
+            <li key={conflict.path}>{conflict.description}</li>
+          ))}
+        </ul>
+        <div className="modal__actions">
+          <button type="button" className="button" onClick={() => resolve("mine")}>
+            Keep my changes
+          </button>
+          <button type="button" className="button" onClick={() => resolve("theirs")}>
+            Keep theirs
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
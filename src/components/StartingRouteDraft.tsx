@@ -0,0 +1,86 @@
+import React from "react";
+import { STARTING_CITY_PAIRS, STARTING_ROUTE_RANKS, type StartingRoute } from "../startingRoutes";
+
+export interface StartingRouteDraftProps {
+  /** The player's submitted ranking, or undefined if they have not ranked yet. */
+  submittedRanking?: StartingRoute[];
+  /** Names of players who have not ranked yet. */
+  waitingFor: string[];
+  onSubmit: (ranking: StartingRoute[]) => void;
+}
+
+/**
+ * Setup draft: the player ranks their top starting routes by clicking them in order, then submits. Once every player
+ * has submitted, the app resolves the rankings into one starting route each.
+ */
+export function StartingRouteDraft({
+  submittedRanking,
+  waitingFor,
+  onSubmit,
+}: StartingRouteDraftProps): React.ReactElement {
+  const [picks, setPicks] = React.useState<StartingRoute[]>([]);
+  const rankOf = (route: StartingRoute): number => picks.indexOf(route) + 1;
+
+  const handleRouteClick = (route: StartingRoute) => {
+    setPicks((prev: StartingRoute[]) =>
+      prev.includes(route)
+        ? prev.filter((r: StartingRoute) => r !== route)
+        : prev.length < STARTING_ROUTE_RANKS
+          ? [...prev, route]
+          : prev
+    );
+  };
+
+  if (submittedRanking) {
+    return (
+      <div className="playerBoard__startingPairs">
+        <div className="playerBoard__startingPairsLabel">Your starting route ranking:</div>
+        <ol className="startingRouteDraft__ranking">
+          {submittedRanking.map((route) => (
+            <li key={route.join("-")}>{route.join(" & ")}</li>
+          ))}
+        </ol>
+        {waitingFor.length > 0 && (
+          <div className="startingRouteDraft__waiting">Waiting for {waitingFor.join(", ")}</div>
+        )}
+      </div>
+    );
+  }
+
+  return (
+    <div className="playerBoard__startingPairs">
+      <div className="playerBoard__startingPairsLabel">
+        Rank your top {STARTING_ROUTE_RANKS} starting routes:
+      </div>
+      {STARTING_CITY_PAIRS.map((route) => {
+        const rank = rankOf(route);
+        return (
+          <button
+            key={route.join("-")}
+            type="button"
+            className={`button playerBoard__pairButton ${rank ? "startingRouteDraft__route--ranked" : ""}`}
+            disabled={!rank && picks.length >= STARTING_ROUTE_RANKS}
+            aria-pressed={rank > 0}
+            onClick={() => handleRouteClick(route)}
+          >
+            {rank > 0 && <span className="startingRouteDraft__rank">{rank}</span>}
+            {route.join(" & ")}
+          </button>
+        );
+      })}
+      <div className="playerBoard__buttonGroup">
+        <button type="button" className="button" disabled={picks.length === 0} onClick={() => setPicks([])}>
+          Clear
+        </button>
+        <button
+          type="button"
+          className="button"
+          disabled={picks.length !== STARTING_ROUTE_RANKS}
+          onClick={() => onSubmit(picks)}
+        >
+          Submit ranking
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,39 @@
+import { describe, test, expect } from 'vitest';
+import {
+  connectionBonusTies,
+  dealConnectionBonuses,
+  isConnectionComplete,
+} from './connectionBonuses';
+import { shortestTrackLength } from './utils/graph';
+
+describe('dealConnectionBonuses', () => {
+  test('deals coast-to-coast plus city pairs that share no city', () => {
+    const bonuses = dealConnectionBonuses();
+
+    expect(bonuses[0].kind).toBe('coastToCoast');
+    const pairs = bonuses.filter((b) => b.kind === 'cityPair');
+    expect(pairs.length).toBeGreaterThan(0);
+    const pairCities = pairs.flatMap((b) => b.ends.flat());
+    expect(new Set(pairCities).size).toBe(pairCities.length);
+    bonuses.forEach((b) => {
+      expect(b.claimedBy).toBeNull();
+      expect(b.ties).toBe(connectionBonusTies(b.trackLength));
+    });
+  });
+
+  test('values city pairs by shortest track length', () => {
+    const pair = dealConnectionBonuses().find((b) => b.kind === 'cityPair')!;
+    const [[fromKey], [toKey]] = pair.ends;
+
+    expect(pair.trackLength).toBe(shortestTrackLength([fromKey], (c: string) => c === toKey));
+  });
+});
+
+describe('isConnectionComplete', () => {
+  test('requires an active city on each end', () => {
+    const bonus = dealConnectionBonuses()[0];
+
+    expect(isConnectionComplete(bonus, ['New York'])).toBe(false);
+    expect(isConnectionComplete(bonus, ['New York', 'Seattle'])).toBe(true);
+  });
+});
@@ -0,0 +1,150 @@
+import { cities } from './data';
+import { shortestTrackLength } from './utils/graph';
+import { shuffleArray } from './utils/random';
+import type { GameState } from './stores/gameStore';
+
+/** Atlantic coast cities that count as the East Coast for the coast-to-coast bonus. */
+const EAST_COAST_CITIES = [
+  'Portland ME',
+  'Boston',
+  'New York',
+  'Philadelphia',
+  'Norfolk',
+  'Charleston',
+  'Savannah',
+];
+
+/** Number of city-pair bonuses dealt at setup (in addition to the coast-to-coast bonus). */
+const CITY_PAIR_BONUS_COUNT = 3;
+
+/** City pairs are only dealt if their shortest track length is within this range, so they take real effort without being out of reach. */
+const CITY_PAIR_MIN_TRACK_LENGTH = 8;
+const CITY_PAIR_MAX_TRACK_LENGTH = 20;
+
+/** Track length (sum of route lengths) worth one railroad tie; partial amounts round up. */
+const TRACK_LENGTH_PER_TIE = 4;
+
+/** A connection bonus card: connect one city from each end to claim it. */
+export interface ConnectionBonus {
+  id: string;
+  kind: 'coastToCoast' | 'cityPair';
+  /** Display label, e.g. "East Coast to West Coast" or "Boston to Denver". */
+  label: string;
+  /** City keys that satisfy each end of the connection. */
+  ends: [string[], string[]];
+  /** Shortest track length between the two ends when the bonus was dealt. */
+  trackLength: number;
+  ties: number;
+  /** Player who claimed the bonus, or null while it is available. */
+  claimedBy: string | null;
+}
+
+/**
+ * Railroad ties for a connection requiring this much track.
+ *
+ * @param trackLength - Shortest track length between the two ends
+ * @returns Ties, at least 1
+ */
+export function connectionBonusTies(trackLength: number): number {
+  return Math.max(1, Math.ceil(trackLength / TRACK_LENGTH_PER_TIE));
+}
+
+/**
+ * Build a bonus for connecting any city in one set to any city in the other.
+ *
+ * @returns The bonus, or undefined if the ends are not connected by the route graph
+ */
+function newConnectionBonus(
+  id: string,
+  kind: ConnectionBonus['kind'],
+  label: string,
+  ends: [string[], string[]]
+): ConnectionBonus | undefined {
+  const [fromEnd, toEnd] = ends;
+  const toKeys = new Set(toEnd);
+  const trackLength = shortestTrackLength(fromEnd, (cityKey: string) => toKeys.has(cityKey));
+  if (trackLength === undefined) {
+    console.error(`newConnectionBonus: ${label} is not connected`);
+    return undefined;
+  }
+  return {
+    id,
+    kind,
+    label,
+    ends,
+    trackLength,
+    ties: connectionBonusTies(trackLength),
+    claimedBy: null,
+  };
+}
+
+/**
+ * Deal connection bonuses for a new game: East Coast to West Coast, plus random city pairs
+ * that do not share a city and are a reasonable distance apart.
+ *
+ * @returns Connection bonuses, all unclaimed
+ */
+export function dealConnectionBonuses(): ConnectionBonus[] {
+  const westCoastCities = [...cities].filter(([, city]) => city.westCoast).map(([key]) => key);
+  const bonuses: ConnectionBonus[] = [];
+
+  const coastToCoast = newConnectionBonus('coastToCoast', 'coastToCoast', 'East Coast to West Coast', [
+    EAST_COAST_CITIES,
+    westCoastCities,
+  ]);
+  if (coastToCoast) bonuses.push(coastToCoast);
+
+  const cityKeys = shuffleArray([...cities.keys()]) as string[];
+  const usedCities = new Set<string>();
+  for (let i = 0; i < cityKeys.length && bonuses.length < CITY_PAIR_BONUS_COUNT + 1; i++) {
+    const fromKey = cityKeys[i];
+    if (usedCities.has(fromKey)) continue;
+    const toKey = cityKeys.slice(i + 1).find((candidate) => {
+      if (usedCities.has(candidate)) return false;
+      const trackLength = shortestTrackLength([fromKey], (cityKey: string) => cityKey === candidate);
+      return (
+        trackLength !== undefined &&
+        trackLength >= CITY_PAIR_MIN_TRACK_LENGTH &&
+        trackLength <= CITY_PAIR_MAX_TRACK_LENGTH
+      );
+    });
+    if (!toKey) continue;
+
+    const bonus = newConnectionBonus(`${fromKey}-${toKey}`, 'cityPair', `${fromKey} to ${toKey}`, [
+      [fromKey],
+      [toKey],
+    ]);
+    if (bonus) {
+      bonuses.push(bonus);
+      usedCities.add(fromKey);
+      usedCities.add(toKey);
+    }
+  }
+
+  return bonuses;
+}
+
+/**
+ * Whether the player's network reaches both ends of a connection bonus.
+ *
+ * @param bonus - Connection bonus
+ * @param activeCities - The player's active cities
+ * @returns true if some active city is on each end
+ */
+export function isConnectionComplete(bonus: ConnectionBonus, activeCities: string[]): boolean {
+  const active = new Set(activeCities);
+  return bonus.ends.every((end) => end.some((cityKey) => active.has(cityKey)));
+}
+
+/**
+ * Ties from connection bonuses the player has claimed.
+ *
+ * @param G - Game state
+ * @param playerID - Player ID
+ * @returns Sum of ties
+ */
+export function connectionBonusTiesForPlayer(G: GameState, playerID: string): number {
+  return (G.connectionBonuses ?? [])
+    .filter((bonus) => bonus.claimedBy === playerID)
+    .reduce((sum, bonus) => sum + bonus.ties, 0);
+}
@@ -0,0 +1,25 @@
+/**
+ * Engine record: level (purchase order), wheel arrangement, distance in segments, cost, and unlock effects.
+ */
+export interface Engine {
+  level: number;
+  wheels: string;
+  distance: number;
+  cost: number;
+  unlocks: "marketContracts" | "serviceYard" | null;
+  endOfGameTies: number;
+  payoutMultiplier: number;
+}
+
+export const engines = new Map<string, Engine>([
+  [ "John Bull", { "level": 0, "wheels": "2-4-0", "distance": 1, "cost": 0, "unlocks": null, "endOfGameTies": 0, "payoutMultiplier": 1 } ],
+  [ "American", { "level": 1, "wheels": "4-4-0", "distance": 2, "cost": 5000, "unlocks": null, "endOfGameTies": 0, "payoutMultiplier": 1 } ],
+  [ "Mogul", { "level": 2, "wheels": "2-6-0", "distance": 3, "cost": 7000, "unlocks": "marketContracts", "endOfGameTies": 0, "payoutMultiplier": 1 } ],
+  [ "Consolidation", { "level": 3, "wheels": "2-8-0", "distance": 3, "cost": 10000, "unlocks": "serviceYard", "endOfGameTies": 0, "payoutMultiplier": 1 } ],
+  [ "Camelback", { "level": 4, "wheels": "4-6-0", "distance": 4, "cost": 13000, "unlocks": null, "endOfGameTies": 0, "payoutMultiplier": 1 } ],
+  [ "Prairie", { "level": 5, "wheels": "2-6-2", "distance": 5, "cost": 16000, "unlocks": null, "endOfGameTies": 0, "payoutMultiplier": 1 } ],
+  [ "Pacific", { "level": 6, "wheels": "4-6-2", "distance": 7, "cost": 20000, "unlocks": null, "endOfGameTies": 0, "payoutMultiplier": 1 } ],
+  [ "Mikado", { "level": 7, "wheels": "2-8-2", "distance": 8, "cost": 24000, "unlocks": null, "endOfGameTies": 0, "payoutMultiplier": 1 } ],
+  [ "Mountain", { "level": 8, "wheels": "4-8-2", "distance": 9, "cost": 28000, "unlocks": null, "endOfGameTies": 0, "payoutMultiplier": 4 / 3 } ],
+  [ "Challenger", { "level": 9, "wheels": "4-6-6-4", "distance": 11, "cost": 32000, "unlocks": null, "endOfGameTies": 2, "payoutMultiplier": 4 / 3 } ],
+]);
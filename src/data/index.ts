@@ -1,3 +1,5 @@
 export { cities } from './cities';
 export { commodities } from './commodities';
+export { engines } from './engines';
 export { routes } from './routes';
+export { upgrades } from './upgrades';
@@ -0,0 +1,19 @@
+/**
+ * Upgrade record: cost, when in the game it pays off, and the engine that must be bought (by any player) before it
+ * is available. Hub, Regional Office and Commodities Exchange Office have their own moves and are not listed here.
+ */
+export interface Upgrade {
+  cost: number;
+  timing: "early" | "early-mid" | "mid";
+  requiresEngine: string | null;
+  description: string;
+}
+
+export const upgrades = new Map<string, Upgrade>([
+  [ "Service Yard", { "cost": 10000, "timing": "early", "requiresEngine": "Consolidation", "description": "Consolidation and better engines move one segment farther" } ],
+  [ "Upgraded Stations", { "cost": 10000, "timing": "early", "requiresEngine": null, "description": "Receive an additional $3,000 for each delivery" } ],
+  [ "Timetable", { "cost": 15000, "timing": "early-mid", "requiresEngine": null, "description": "Keep moving after fulfilling a contract" } ],
+  [ "Roundhouse", { "cost": 10000, "timing": "mid", "requiresEngine": null, "description": "Transfer a commodity between your engines mid-run" } ],
+  [ "Employment Office", { "cost": 10000, "timing": "mid", "requiresEngine": null, "description": "Build three track segments instead of two" } ],
+  [ "Railyard", { "cost": 10000, "timing": "mid", "requiresEngine": null, "description": "A city on your network supplies all commodities within two segments" } ],
+]);
@@ -0,0 +1,74 @@
+import { describe, test, expect } from 'vitest';
+import {
+  canClaimMarketContracts,
+  engineDistance,
+  engineTiesForPlayer,
+  isUpgradeAvailable,
+  marketContractsOpen,
+  nextEngine,
+  tradeInValue,
+} from './engines';
+import type { GameState, PlayerProps } from './stores/gameStore';
+
+function makePlayer(engines?: string[], upgrades?: string[]): PlayerProps {
+  return { name: 'P', activeCities: [], hubCity: null, regionalOffice: null, engines, upgrades };
+}
+
+function makeGameState(...players: PlayerProps[]): GameState {
+  return {
+    contracts: [],
+    players: players.map((player, i) => [String(i), player]),
+    independentRailroads: {},
+  };
+}
+
+describe('nextEngine', () => {
+  test('is one level above the best engine owned', () => {
+    expect(nextEngine(makePlayer())?.[0]).toBe('American');
+    expect(nextEngine(makePlayer(['American', 'Mogul']))?.[0]).toBe('Consolidation');
+    expect(nextEngine(makePlayer(['Mikado', 'Challenger']))).toBeUndefined();
+  });
+});
+
+describe('tradeInValue', () => {
+  test('is half the cost rounded down to the nearest $1,000', () => {
+    expect(tradeInValue('John Bull')).toBe(0);
+    expect(tradeInValue('American')).toBe(2000);
+    expect(tradeInValue('Camelback')).toBe(6000);
+  });
+});
+
+describe('unlock effects', () => {
+  test('Mogul allows claiming market contracts', () => {
+    expect(canClaimMarketContracts(makePlayer(['American']))).toBe(false);
+    expect(canClaimMarketContracts(makePlayer(['American', 'Mogul']))).toBe(true);
+  });
+
+  test('market contracts open once any player owns a Mogul', () => {
+    expect(marketContractsOpen(makeGameState(makePlayer(), makePlayer(['American'])))).toBe(false);
+    expect(marketContractsOpen(makeGameState(makePlayer(), makePlayer(['Mogul'])))).toBe(true);
+  });
+
+  test('Service Yard is available to everyone once anyone buys a Consolidation', () => {
+    const early = makeGameState(makePlayer(['Mogul']), makePlayer(['American']));
+    const later = makeGameState(makePlayer(['Mogul', 'Consolidation']), makePlayer(['American']));
+
+    expect(isUpgradeAvailable(early, 'Service Yard')).toBe(false);
+    expect(isUpgradeAvailable(later, 'Service Yard')).toBe(true);
+    expect(isUpgradeAvailable(early, 'Timetable')).toBe(true);
+  });
+
+  test('Service Yard adds a segment for Consolidation and better', () => {
+    const player = makePlayer(['Mogul', 'Consolidation'], ['Service Yard']);
+
+    expect(engineDistance(player, 'Mogul')).toBe(3);
+    expect(engineDistance(player, 'Consolidation')).toBe(4);
+  });
+});
+
+describe('engineTiesForPlayer', () => {
+  test('counts the Challenger', () => {
+    expect(engineTiesForPlayer(makePlayer(['Mountain']))).toBe(0);
+    expect(engineTiesForPlayer(makePlayer(['Mountain', 'Challenger']))).toBe(2);
+  });
+});
@@ -0,0 +1,151 @@
+import { engines, upgrades } from './data';
+import type { Engine } from './data/engines';
+import type { GameState, PlayerProps } from './stores/gameStore';
+
+/** Engine every player starts with. */
+export const STARTING_ENGINE = 'John Bull';
+
+/** Most engines a player can own at once. */
+export const MAX_ENGINES = 2;
+
+/**
+ * Engines the player owns, with a default for games saved before engines were tracked.
+ *
+ * @param player - Player props
+ * @returns Engine keys
+ */
+export function playerEngines(player: PlayerProps): string[] {
+  return player.engines ?? [STARTING_ENGINE];
+}
+
+/**
+ * Upgrades the player has bought, with a default for games saved before upgrades were tracked.
+ *
+ * @param player - Player props
+ * @returns Upgrade keys
+ */
+export function playerUpgrades(player: PlayerProps): string[] {
+  return player.upgrades ?? [];
+}
+
+/**
+ * Level of the best engine the player owns.
+ *
+ * @param player - Player props
+ * @returns Engine level (0 for the John Bull)
+ */
+export function bestEngineLevel(player: PlayerProps): number {
+  return Math.max(0, ...playerEngines(player).map((key) => engines.get(key)?.level ?? 0));
+}
+
+/**
+ * The only engine the player may buy next: one level higher than their best.
+ *
+ * @param player - Player props
+ * @returns [engine key, engine], or undefined if the player owns the best engine
+ */
+export function nextEngine(player: PlayerProps): [string, Engine] | undefined {
+  const level = bestEngineLevel(player) + 1;
+  return [...engines.entries()].find(([, engine]) => engine.level === level);
+}
+
+/**
+ * Trade-in value of an engine: half its purchase price, rounded down to the nearest $1,000.
+ *
+ * @param engineKey - Engine key
+ * @returns Trade-in value in dollars
+ */
+export function tradeInValue(engineKey: string): number {
+  const cost = engines.get(engineKey)?.cost ?? 0;
+  return Math.floor(cost / 2 / 1000) * 1000;
+}
+
+/**
+ * Level of the engine that unlocks an effect.
+ *
+ * @param effect - Unlock effect from the engine table
+ * @returns Engine level
+ */
+function unlockLevel(effect: NonNullable<Engine['unlocks']>): number {
+  return [...engines.values()].find((engine) => engine.unlocks === effect)?.level ?? Infinity;
+}
+
+/**
+ * Whether the player owns a Mogul or better, which allows claiming market contracts.
+ *
+ * @param player - Player props
+ * @returns true if the player may claim market contracts
+ */
+export function canClaimMarketContracts(player: PlayerProps): boolean {
+  return bestEngineLevel(player) >= unlockLevel('marketContracts');
+}
+
+/**
+ * Whether any player can claim market contracts yet. Market contracts are not created until then.
+ *
+ * @param G - Game state
+ * @returns true once some player owns a Mogul or better
+ */
+export function marketContractsOpen(G: GameState): boolean {
+  return G.players.some(([, player]) => canClaimMarketContracts(player));
+}
+
+/**
+ * Why the player cannot claim market contracts, for display next to a disabled Claim button.
+ *
+ * @returns Explanation naming the engine that unlocks market contracts
+ */
+export function marketContractsLockedReason(): string {
+  const entry = [...engines.entries()].find(([, engine]) => engine.unlocks === 'marketContracts');
+  return entry ? `Requires a ${entry[1].wheels} ${entry[0]} or better` : 'Market contracts are unavailable';
+}
+
+/**
+ * Whether an upgrade can be bought by anyone yet. Service Yard becomes available once any player buys a Consolidation.
+ *
+ * @param G - Game state
+ * @param upgradeKey - Upgrade key
+ * @returns true if the upgrade is available for purchase
+ */
+export function isUpgradeAvailable(G: GameState, upgradeKey: string): boolean {
+  const upgrade = upgrades.get(upgradeKey);
+  if (!upgrade) return false;
+  if (!upgrade.requiresEngine) return true;
+  const requiredLevel = engines.get(upgrade.requiresEngine)?.level ?? Infinity;
+  return G.players.some(([, player]) => bestEngineLevel(player) >= requiredLevel);
+}
+
+/**
+ * Segments an engine moves in one Run Trains action, including the Service Yard bonus.
+ *
+ * @param player - Player props
+ * @param engineKey - Engine key
+ * @returns Distance in segments
+ */
+export function engineDistance(player: PlayerProps, engineKey: string): number {
+  const engine = engines.get(engineKey);
+  if (!engine) return 0;
+  const serviceYard =
+    playerUpgrades(player).includes('Service Yard') && engine.level >= unlockLevel('serviceYard');
+  return engine.distance + (serviceYard ? 1 : 0);
+}
+
+/**
+ * End-of-game ties from the player's engines (the Challenger).
+ *
+ * @param player - Player props
+ * @returns Sum of endOfGameTies over owned engines
+ */
+export function engineTiesForPlayer(player: PlayerProps): number {
+  return playerEngines(player).reduce((sum, key) => sum + (engines.get(key)?.endOfGameTies ?? 0), 0);
+}
+
+/**
+ * Contract payout multiplier from the player's engines: 1⅓ with a Mountain or Challenger, otherwise 1.
+ *
+ * @param player - Player props
+ * @returns Largest payoutMultiplier over owned engines
+ */
+export function payoutMultiplier(player: PlayerProps): number {
+  return Math.max(1, ...playerEngines(player).map((key) => engines.get(key)?.payoutMultiplier ?? 1));
+}
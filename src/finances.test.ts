@@ -0,0 +1,91 @@
+import { describe, test, expect } from 'vitest';
+import { moneyValue, newContract, type Contract } from './Contract';
+import {
+  contractPayout,
+  debtServiceDue,
+  playerFinances,
+  reverseContractTransactions,
+  settleDelivery,
+  STARTING_CASH,
+} from './finances';
+import type { GameState, GameContext, PlayerProps } from './stores/gameStore';
+
+const ctx: GameContext = {
+  phase: 'play',
+  currentPlayer: '0',
+  numPlayers: 1,
+  playOrder: ['0'],
+  playOrderPos: 0,
+  turn: 3,
+  round: 3,
+};
+
+function delivered(destinationKey: string, commodity = 'coal'): Contract {
+  return newContract(destinationKey, commodity, { type: 'private', fulfilled: true, playerID: '0' })!;
+}
+
+function makeGameState(contracts: Contract[]): GameState {
+  return {
+    contracts,
+    players: [['0', { name: 'P0', activeCities: [], hubCity: null, regionalOffice: null }]],
+    independentRailroads: {},
+  };
+}
+
+describe('debtServiceDue', () => {
+  const debt = 20000;
+
+  test('is nothing for Northeast and Southeast deliveries', () => {
+    const contract = delivered('Boston');
+    expect(debtServiceDue(makeGameState([contract]), '0', contract, debt)).toBe(0);
+  });
+
+  test('is charged once for the first Central delivery', () => {
+    const first = delivered('Chicago');
+    const second = delivered('Kansas City');
+    const G = makeGameState([first, second]);
+
+    expect(debtServiceDue(G, '0', second, debt)).toBe(0);
+    expect(debtServiceDue(makeGameState([first]), '0', first, debt)).toBe(4000);
+  });
+
+  test('is charged on every delivery once a Western region is opened', () => {
+    const western = delivered('Denver');
+    const later = delivered('Boston');
+
+    expect(debtServiceDue(makeGameState([western, later]), '0', later, debt)).toBe(4000);
+  });
+});
+
+describe('contractPayout', () => {
+  const contract = delivered('Chicago');
+  const base = moneyValue(contract);
+  const player: PlayerProps = { name: 'P0', activeCities: [], hubCity: null, regionalOffice: null };
+
+  test('is the base value without modifiers', () => {
+    expect(contractPayout(player, contract)).toBe(base);
+  });
+
+  test('pays 1⅓× with a Mountain and adds $3,000 with Upgraded Stations', () => {
+    expect(contractPayout({ ...player, engines: ['Mountain'] }, contract)).toBe(Math.round((base * 4) / 3000) * 1000);
+    expect(contractPayout({ ...player, upgrades: ['Upgraded Stations'] }, contract)).toBe(base + 3000);
+  });
+});
+
+describe('settleDelivery and reverseContractTransactions', () => {
+  test('reversing a delivery restores cash and keeps the history', () => {
+    const contract = delivered('Chicago');
+    const G = makeGameState([contract]);
+    const player: PlayerProps = { ...G.players[0][1], cash: STARTING_CASH, debt: 10000, transactions: [] };
+
+    const settled = settleDelivery(G, ctx, '0', player, contract);
+    expect(playerFinances(settled).transactions.map((t) => t.kind)).toEqual(['contractPayment', 'debtService']);
+
+    const reversed = reverseContractTransactions(settled, ctx, contract.id);
+    expect(playerFinances(reversed).cash).toBe(STARTING_CASH);
+    expect(playerFinances(reversed).transactions).toHaveLength(4);
+
+    // Reversing again finds nothing left to reverse
+    expect(reverseContractTransactions(reversed, ctx, contract.id)).toEqual(reversed);
+  });
+});
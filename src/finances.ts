@@ -0,0 +1,239 @@
+import { cities } from './data';
+import { moneyValue, type Contract } from './Contract';
+import { payoutMultiplier, playerUpgrades } from './engines';
+import type { GameState, GameContext, PlayerProps } from './stores/gameStore';
+
+/** Cash each player starts with. */
+export const STARTING_CASH = 10000;
+
+/** Loans are taken in multiples of this amount. */
+export const LOAN_INCREMENT = 5000;
+
+/** Amounts that can be repaid in one Repay Debt action. */
+export const REPAY_AMOUNTS: readonly number[] = [5000, 10000];
+
+/** Debt cannot be repaid below this amount. */
+export const DEBT_FLOOR = 15000;
+
+/** Debt service per LOAN_INCREMENT borrowed. */
+const DEBT_SERVICE_PER_LOAN = 1000;
+
+/** Extra payment per delivery with the Upgraded Stations upgrade. */
+export const UPGRADED_STATIONS_BONUS = 3000;
+
+const CENTRAL_REGIONS = ['NC', 'SC'];
+const WESTERN_REGIONS = ['NW', 'SW'];
+
+export type TransactionKind =
+  | 'borrow'
+  | 'repay'
+  | 'contractPayment'
+  | 'debtService'
+  | 'reversal'
+  | 'purchase'
+  | 'build'
+  | 'sale'
+  | 'bankruptcy';
+
+/** One entry in a player's ledger. Amounts are signed changes to the player's cash and debt. */
+export interface FinanceTransaction {
+  /** Sequential within the player's ledger. */
+  id: number;
+  kind: TransactionKind;
+  round: number;
+  turn: number;
+  cash: number;
+  debt: number;
+  description: string;
+  contractID?: string;
+  /** For reversals: id of the transaction being reversed. */
+  reverses?: number;
+}
+
+/**
+ * A player's cash, debt and ledger, with defaults for games saved before finances were tracked.
+ *
+ * @param player - Player props
+ * @returns Cash, debt and transactions
+ */
+export function playerFinances(player: PlayerProps): {
+  cash: number;
+  debt: number;
+  transactions: FinanceTransaction[];
+} {
+  return {
+    cash: player.cash ?? STARTING_CASH,
+    debt: player.debt ?? 0,
+    transactions: player.transactions ?? [],
+  };
+}
+
+/**
+ * Format a dollar amount for display, e.g. "$5,000" or "-$1,000".
+ *
+ * @param amount - Dollars
+ * @returns Formatted amount
+ */
+export function formatMoney(amount: number): string {
+  const sign = amount < 0 ? '-' : '';
+  return `${sign}$${Math.abs(amount).toLocaleString()}`;
+}
+
+/**
+ * Whether any player has fulfilled a contract in either Western region. Raises independent railroad prices.
+ *
+ * @param G - Game state
+ * @returns true once the West is opened
+ */
+export function isWestOpened(G: GameState): boolean {
+  return G.contracts.some(
+    (c) => c.fulfilled && c.playerID != null && WESTERN_REGIONS.includes(cities.get(c.destinationKey)?.region ?? '')
+  );
+}
+
+/**
+ * Debt service on an amount of debt: $1,000 per $5,000 borrowed.
+ *
+ * @param debt - Amount borrowed
+ * @returns Debt service in dollars
+ */
+export function debtServiceAmount(debt: number): number {
+  return Math.floor(debt / LOAN_INCREMENT) * DEBT_SERVICE_PER_LOAN;
+}
+
+/**
+ * Debt service due when the player fulfills a contract. Nothing is due while the player has only delivered to the
+ * Northeast and Southeast; the first delivery to either Central region is charged once; from the first delivery to
+ * either Western region on, every delivery is charged.
+ *
+ * @param G - Game state (the contract being fulfilled is ignored among the player's fulfilled contracts)
+ * @param playerID - Player fulfilling the contract
+ * @param contract - Contract being fulfilled
+ * @param debt - The player's debt
+ * @returns Debt service in dollars
+ */
+export function debtServiceDue(G: GameState, playerID: string, contract: Contract, debt: number): number {
+  const regionOf = (cityKey: string) => cities.get(cityKey)?.region ?? '';
+  const earlierRegions = G.contracts
+    .filter((c) => c.id !== contract.id && c.playerID === playerID && c.fulfilled)
+    .map((c) => regionOf(c.destinationKey));
+  const region = regionOf(contract.destinationKey);
+
+  const westernOpened = [...earlierRegions, region].some((r) => WESTERN_REGIONS.includes(r));
+  const firstCentral =
+    CENTRAL_REGIONS.includes(region) && !earlierRegions.some((r) => CENTRAL_REGIONS.includes(r));
+
+  return westernOpened || firstCentral ? debtServiceAmount(debt) : 0;
+}
+
+/**
+ * Append a transaction to the player's ledger and apply it to their cash and debt.
+ *
+ * @param player - Player props
+ * @param ctx - Game context (for round and turn)
+ * @param entry - Transaction without its id, round and turn
+ * @returns Updated player props
+ */
+export function recordTransaction(
+  player: PlayerProps,
+  ctx: GameContext,
+  entry: Omit<FinanceTransaction, 'id' | 'round' | 'turn'>
+): PlayerProps {
+  const { cash, debt, transactions } = playerFinances(player);
+  return {
+    ...player,
+    cash: cash + entry.cash,
+    debt: debt + entry.debt,
+    transactions: [
+      ...transactions,
+      { ...entry, id: transactions.length, round: ctx.round, turn: ctx.turn },
+    ],
+  };
+}
+
+/**
+ * What this player is paid for delivering a contract: the contract's moneyValue times the engine payout
+ * multiplier (rounded to the nearest $1,000), plus the Upgraded Stations bonus.
+ *
+ * @param player - Player props
+ * @param contract - The contract or spec (needs destinationKey and commodity)
+ * @returns Dollar payout
+ */
+export function contractPayout(
+  player: PlayerProps,
+  contract: Pick<Contract, 'destinationKey' | 'commodity'>
+): number {
+  const value = Math.round((moneyValue(contract) * payoutMultiplier(player)) / 1000) * 1000;
+  const stations = playerUpgrades(player).includes('Upgraded Stations') ? UPGRADED_STATIONS_BONUS : 0;
+  return value + stations;
+}
+
+/**
+ * Collect payment for a fulfilled contract and pay any debt service due.
+ *
+ * @param G - Game state
+ * @param ctx - Game context
+ * @param playerID - Player fulfilling the contract
+ * @param player - Player props
+ * @param contract - Contract being fulfilled
+ * @returns Updated player props
+ */
+export function settleDelivery(
+  G: GameState,
+  ctx: GameContext,
+  playerID: string,
+  player: PlayerProps,
+  contract: Contract
+): PlayerProps {
+  const label = `${contract.commodity} to ${contract.destinationKey}`;
+  let updated = recordTransaction(player, ctx, {
+    kind: 'contractPayment',
+    cash: contractPayout(player, contract),
+    debt: 0,
+    description: `Delivered ${label}`,
+    contractID: contract.id,
+  });
+
+  const service = debtServiceDue(G, playerID, contract, playerFinances(player).debt);
+  if (service > 0) {
+    updated = recordTransaction(updated, ctx, {
+      kind: 'debtService',
+      cash: -service,
+      debt: 0,
+      description: `Debt service on ${label}`,
+      contractID: contract.id,
+    });
+  }
+  return updated;
+}
+
+/**
+ * Reverse every not-yet-reversed transaction for a contract (used when a contract is marked unfulfilled).
+ *
+ * @param player - Player props
+ * @param ctx - Game context
+ * @param contractID - Contract being unfulfilled
+ * @returns Updated player props
+ */
+export function reverseContractTransactions(
+  player: PlayerProps,
+  ctx: GameContext,
+  contractID: string
+): PlayerProps {
+  const { transactions } = playerFinances(player);
+  const reversed = new Set(transactions.map((t) => t.reverses).filter((id) => id !== undefined));
+  return transactions
+    .filter((t) => t.contractID === contractID && t.kind !== 'reversal' && !reversed.has(t.id))
+    .reduce(
+      (updated, t) =>
+        recordTransaction(updated, ctx, {
+          kind: 'reversal',
+          cash: -t.cash,
+          debt: -t.debt,
+          description: `Reversed: ${t.description}`,
+          contractID,
+          reverses: t.id,
+        }),
+      player
+    );
+}
@@ -0,0 +1,82 @@
+import { describe, test, expect } from 'vitest';
+import { newContract, type Contract } from './Contract';
+import { routes } from './data';
+import {
+  canReachIndependentRailroad,
+  independentRailroadPrice,
+  initializeIndependentRailroads,
+  playersReachingIndependentRailroad,
+} from './independentRailroads';
+import type { GameState, PlayerProps } from './stores/gameStore';
+import { seedRandom } from './utils/random';
+
+const railroad = {
+  name: 'Test',
+  routes: [
+    { key: 'Denver-Omaha', addedInRound: 0 },
+    { key: 'Denver-Kansas City', addedInRound: 0 },
+  ],
+};
+
+function makeGameState(contracts: Contract[]): GameState {
+  return { contracts, players: [], independentRailroads: { Test: railroad } };
+}
+
+describe('independentRailroadPrice', () => {
+  test('is $3,000 per route until a Western delivery, then $4,000', () => {
+    const western = newContract('Denver', 'coal', { playerID: '0' }) as Contract;
+
+    expect(independentRailroadPrice(makeGameState([western]), railroad)).toBe(6000);
+    expect(independentRailroadPrice(makeGameState([{ ...western, fulfilled: true }]), railroad)).toBe(8000);
+  });
+
+  test('ignores fulfilled contracts outside the Western regions', () => {
+    const eastern = newContract('Boston', 'coal', { playerID: '0', fulfilled: true }) as Contract;
+
+    expect(independentRailroadPrice(makeGameState([eastern]), railroad)).toBe(6000);
+  });
+});
+
+describe('canReachIndependentRailroad', () => {
+  const player = (activeCities: string[]): PlayerProps => ({
+    name: 'P',
+    activeCities,
+    hubCity: null,
+    regionalOffice: null,
+  });
+
+  test("requires one of the railroad's cities in the player's network", () => {
+    expect(canReachIndependentRailroad(player(['Omaha', 'Des Moines']), railroad)).toBe(true);
+    expect(canReachIndependentRailroad(player(['Boston', 'Portland ME']), railroad)).toBe(false);
+  });
+
+  test('lists every player who can reach the railroad', () => {
+    const G: GameState = {
+      ...makeGameState([]),
+      players: [
+        ['0', player(['Boston'])],
+        ['1', player(['Kansas City'])],
+      ],
+    };
+
+    expect(playersReachingIndependentRailroad(G, railroad)).toEqual(['1']);
+  });
+});
+
+describe('initializeIndependentRailroads', () => {
+  test('balanced placement gives each railroad its own cities', () => {
+    const placed = Object.values(initializeIndependentRailroads('balanced'));
+    const railroadCities = placed.flatMap((rr) => rr.routes.flatMap((route) => routes.get(route.key)?.cities ?? []));
+
+    expect(placed.length).toBeGreaterThan(0);
+    expect(new Set(railroadCities).size).toBe(railroadCities.length);
+  });
+
+  test('places the same railroads for the same seed', () => {
+    seedRandom(2024);
+    const first = initializeIndependentRailroads();
+    seedRandom(2024);
+
+    expect(initializeIndependentRailroads()).toEqual(first);
+  });
+});
@@ -1,12 +1,65 @@
 import { cities, routes } from './data';
+import { isWestOpened } from './finances';
+import { STARTING_CITY_PAIRS } from './startingRoutes';
 import { citiesConnectedTo } from './utils/graph';
-import { weightedRandom, randomArrayItem } from './utils/random';
+import { distanceInMiles } from './utils/geo';
+import { random, weightedRandom, randomArrayItem, shuffleArray } from './utils/random';
 import type {
   GameState,
   GameContext,
   IndependentRailroadRoute,
+  PlayerProps,
 } from './stores/gameStore';
 
+/** Price per route of an independent railroad. */
+export const INDEPENDENT_ROUTE_PRICE = 3000;
+
+/** Price per route once any player has delivered to a Western region. */
+export const WEST_OPENED_ROUTE_PRICE = 4000;
+
+/**
+ * Price to acquire an independent railroad: per route, higher once the West is opened (see isWestOpened).
+ *
+ * @param G - Game state
+ * @param railroad - The railroad (needs routes)
+ * @returns Price in dollars
+ */
+export function independentRailroadPrice(G: GameState, railroad: { routes: IndependentRailroadRoute[] }): number {
+  return railroad.routes.length * (isWestOpened(G) ? WEST_OPENED_ROUTE_PRICE : INDEPENDENT_ROUTE_PRICE);
+}
+
+/**
+ * Whether an independent railroad touches the player's network: one of its routes ends in one of the player's
+ * active cities. Only such railroads can be acquired.
+ *
+ * @param player - Player props
+ * @param railroad - The railroad (needs routes)
+ * @returns true if the player can acquire the railroad
+ */
+export function canReachIndependentRailroad(
+  player: PlayerProps,
+  railroad: { routes: IndependentRailroadRoute[] }
+): boolean {
+  const network = new Set(player.activeCities);
+  return railroad.routes.some(
+    (route) => routes.get(route.key)?.cities.some((city) => network.has(city)) ?? false
+  );
+}
+
+/**
+ * Players whose networks touch an independent railroad, in G.players order.
+ *
+ * @param G - Game state
+ * @param railroad - The railroad (needs routes)
+ * @returns Player IDs that can acquire the railroad
+ */
+export function playersReachingIndependentRailroad(
+  G: GameState,
+  railroad: { routes: IndependentRailroadRoute[] }
+): string[] {
+  return G.players.filter(([, player]) => canReachIndependentRailroad(player, railroad)).map(([id]) => id);
+}
+
 /**
  * Given a set of cities, return a set of all the route keys that do not include those cities.
  *
@@ -26,55 +79,116 @@ function routesWithoutTheseCities(citiesToAvoid: Set<string>): Set<string> {
   return routesFound;
 }
 
+/** How initializeIndependentRailroads chooses routes. */
+export type IndependentRailroadPlacement = 'balanced' | 'random';
+
+/** Balanced placement picks at random among this many of the most isolated candidate routes, so games differ. */
+const BALANCED_PLACEMENT_CHOICES = 3;
+
+/**
+ * Segments from every city to the nearest of the given cities (multi-source breadth-first search).
+ *
+ * @param sourceCities - City keys at distance 0
+ * @returns City key to number of segments; unreachable cities are absent
+ */
+function segmentsToNearest(sourceCities: Iterable<string>): Map<string, number> {
+  const distances = new Map<string, number>();
+  let currentLevel = [...sourceCities];
+  currentLevel.forEach((cityKey) => distances.set(cityKey, 0));
+
+  for (let distance = 1; currentLevel.length > 0; distance++) {
+    const nextLevel: string[] = [];
+    for (const cityKey of currentLevel) {
+      for (const routeKey of cities.get(cityKey)?.routes ?? []) {
+        const neighbor = routes.get(routeKey)?.cities.find((c) => c !== cityKey);
+        if (neighbor && !distances.has(neighbor)) {
+          distances.set(neighbor, distance);
+          nextLevel.push(neighbor);
+        }
+      }
+    }
+    currentLevel = nextLevel;
+  }
+  return distances;
+}
+
+/**
+ * How isolated a candidate route is from the occupied cities: segments to the nearest one, then miles to the
+ * nearest one as a tiebreaker (the map has many routes at equal segment distance).
+ *
+ * @param routeKey - Candidate route
+ * @param occupied - Starting cities and cities already on an independent railroad
+ * @param segments - segmentsToNearest(occupied)
+ * @returns [segments, miles]; larger is more isolated
+ */
+function openSpaceScore(routeKey: string, occupied: Set<string>, segments: Map<string, number>): [number, number] {
+  const routeCities = routes.get(routeKey)?.cities ?? [];
+  const nearestSegments = Math.min(...routeCities.map((c) => segments.get(c) ?? Infinity));
+  const nearestMiles = Math.min(
+    ...routeCities.flatMap((c) => [...occupied].map((o) => distanceInMiles(c, o) ?? Infinity))
+  );
+  return [nearestSegments, nearestMiles];
+}
+
+/**
+ * Choose routes one at a time, each from the most spacious part of the map that is left: the candidates farthest
+ * from the starting cities and the railroads already placed. Routes never share a city with another railroad.
+ *
+ * @param candidates - Eligible route keys
+ * @param count - Number of routes to choose
+ * @returns Chosen route keys, in the order they were chosen
+ */
+function balancedRoutes(candidates: Iterable<string>, count: number): string[] {
+  const occupied = new Set(STARTING_CITY_PAIRS.flat());
+  let remaining = [...candidates];
+  const chosen: string[] = [];
+
+  while (chosen.length < count) {
+    const segments = segmentsToNearest(occupied);
+    const ranked = remaining
+      .filter((routeKey) => !routes.get(routeKey)?.cities.some((c) => occupied.has(c)))
+      .map((routeKey) => ({ routeKey, score: openSpaceScore(routeKey, occupied, segments) }))
+      .sort((a, b) => b.score[0] - a.score[0] || b.score[1] - a.score[1]);
+    if (ranked.length === 0) break;
+
+    const { routeKey } = randomArrayItem(ranked.slice(0, BALANCED_PLACEMENT_CHOICES)) as { routeKey: string };
+    chosen.push(routeKey);
+    remaining = remaining.filter((key) => key !== routeKey);
+    routes.get(routeKey)?.cities.forEach((c) => occupied.add(c));
+  }
+  return chosen;
+}
+
 /**
  * Initialize independent railroads: assign ~10% of eligible routes to new companies.
- * Eligible = routes not within 2 hops of possible starting cities.
+ * Eligible = routes not within 2 hops of possible starting cities. Balanced placement fills in the most spacious
+ * areas first so open space is roughly even for all players; random placement shuffles the eligible routes.
  *
+ * @param placement - Placement strategy (the simulator compares both)
  * @returns Record of company name to { name, routes }
  */
-export function initializeIndependentRailroads(): Record<
+export function initializeIndependentRailroads(
+  placement: IndependentRailroadPlacement = 'balanced'
+): Record<
   string,
   { name: string; routes: IndependentRailroadRoute[] }
 > {
   // Get the set of cities that are valid endpoints for independent railroads: everything not within 2 hops of possible starting cities
-  const withinTwoOfStartingCities = citiesConnectedTo(
-    [
-      'Quebec City',
-      'Montreal',
-      'Boston',
-      'Portland ME',
-      'Philadelphia',
-      'New York',
-      'Washington',
-      'Norfolk',
-      'Raleigh',
-      'Charleston',
-      'Savannah',
-    ],
-    {
-      distance: 2,
-      includeFromCities: true,
-    }
-  );
+  const withinTwoOfStartingCities = citiesConnectedTo(STARTING_CITY_PAIRS.flat(), {
+    distance: 2,
+    includeFromCities: true,
+  });
   const routesAvailableToIndies =
     routesWithoutTheseCities(withinTwoOfStartingCities);
 
   // Calculate how many routes we want to assign (10% of total)
   const numberOfRoutesToAssign = Math.ceil(routesAvailableToIndies.size * 0.1);
-  
-  // Convert routes Map to array of entries for easier random selection
-  const routeEntries = Array.from(routesAvailableToIndies.entries());
-
-  // Shuffle the routes array
-  function shuffle<T>(array: T[]): T[] {
-    for (let i = array.length - 1; i > 0; i--) {
-      const j = Math.floor(Math.random() * (i + 1));
-      [array[i], array[j]] = [array[j], array[i]];
-    }
-    return array;
-  }
 
-  const shuffledRoutes = shuffle([...routeEntries]);
+  // Routes to try in pop() order
+  const candidateRoutes =
+    placement === 'balanced'
+      ? balancedRoutes(routesAvailableToIndies, numberOfRoutesToAssign).reverse()
+      : (shuffleArray([...routesAvailableToIndies]) as string[]);
 
   const independentRailroads: Record<
     string,
@@ -86,8 +200,8 @@ export function initializeIndependentRailroads(): Record<
   // Try to assign routes one by one
   let assignedCount = 0;
 
-  while (assignedCount < numberOfRoutesToAssign && shuffledRoutes.length > 0) {
-    const [routeKey] = shuffledRoutes.pop()!;
+  while (assignedCount < numberOfRoutesToAssign && candidateRoutes.length > 0) {
+    const routeKey = candidateRoutes.pop()!;
 
     // Create a new company name that doesn't already exist
     let companyCreated = false;
@@ -221,7 +335,7 @@ export function growIndependentRailroads(
   // Rounding might mean that a non-zero increase in occupancy would still result in no growth. If this happens,
   // make it a 50/50 chance we'll grow by one route anyway.
   if (newRouteCount === startingRouteCount) {
-    if (Math.random() > 0.5) {
+    if (random() > 0.5) {
       newRouteCount++;
     } else {
       return undefined;
@@ -238,7 +352,7 @@ export function growIndependentRailroads(
     ([name, rr]) => {
       // 85% of the time, the cap is one below the max, otherwise at the max
       const cap =
-        Math.random() < 0.85
+        random() < 0.85
           ? LARGEST_RR_ROUTE_COUNT - 1
           : LARGEST_RR_ROUTE_COUNT;
       indieCaps.set(name, cap);
@@ -259,7 +373,7 @@ export function growIndependentRailroads(
     if (eligibleEntries.length === 0) break;
 
     const [randomRailroadName, railroadToExpand] =
-      eligibleEntries[Math.floor(Math.random() * eligibleEntries.length)] ?? [];
+      eligibleEntries[Math.floor(random() * eligibleEntries.length)] ?? [];
     if (!railroadToExpand) continue;
 
     /*
@@ -650,11 +764,11 @@ function generateRailroadName(state?: string): string {
     ])
   );
   // Determine name style
-  const nameStyle = Math.random();
+  const nameStyle = random();
 
   if (typeof state !== 'string' || nameStyle < 0.2) {
     // 20% chance: Grand single name (e.g. Enterprise)
-    const prefix = Math.random() < 0.5 ? 'The ' : '';
+    const prefix = random() < 0.5 ? 'The ' : '';
     const name = randomArrayItem(grandNames);
     return `${prefix}${name ?? 'Pioneer'} ${suffix ?? 'Railroad'}`;
   }
@@ -666,7 +780,7 @@ function generateRailroadName(state?: string): string {
       const name = randomArrayItem(grandNames);
       return `${name ?? 'Pioneer'} ${suffix ?? 'Railroad'}`;
     }
-    const direction = Math.random() < 0.5 ? `${randomArrayItem(regions) ?? ''} ` : '';
+    const direction = random() < 0.5 ? `${randomArrayItem(regions) ?? ''} ` : '';
     const industry = randomArrayItem(chars.industries);
     return `${chars.name} ${direction}${industry ?? 'Railroad'} ${suffix ?? 'Railroad'}`;
   }
@@ -0,0 +1,72 @@
+import { describe, test, expect } from 'vitest';
+import { generatePrivateContractSpec } from './Contract';
+import { coversAllSuppliers, monopolyTerms, monopolyTiesForPlayer } from './monopolies';
+import type { GameState, GameContext } from './stores/gameStore';
+
+/** Game state where player 0's latest city is Pittsburgh (a coal city). */
+function makeGameState(monopolies: Record<string, string> = {}): { G: GameState; ctx: GameContext } {
+  return {
+    G: {
+      contracts: [],
+      players: [
+        ['0', { name: 'P0', activeCities: ['New York', 'Philadelphia', 'Pittsburgh'], hubCity: null, regionalOffice: null }],
+        ['1', { name: 'P1', activeCities: ['Boston', 'Portland ME'], hubCity: null, regionalOffice: null }],
+      ],
+      independentRailroads: {},
+      monopolies,
+    },
+    ctx: {
+      phase: 'play',
+      currentPlayer: '0',
+      numPlayers: 2,
+      playOrder: ['0', '1'],
+      playOrderPos: 0,
+      turn: 1,
+      round: 1,
+    },
+  };
+}
+
+describe('monopolyTerms', () => {
+  test('follows the Monopoly Size table', () => {
+    expect(monopolyTerms('cattle')).toEqual({ ties: 2, contractOdds: 0.4 });
+    expect(monopolyTerms('grain')).toEqual({ ties: 3, contractOdds: 0.5 });
+    expect(monopolyTerms('coal')).toEqual({ ties: 4, contractOdds: 0.6 });
+    expect(monopolyTerms('aluminum')).toBeUndefined();
+  });
+});
+
+describe('coversAllSuppliers', () => {
+  test('requires every supplying city', () => {
+    expect(coversAllSuppliers('copper', ['Boise', 'Calgary', 'Flagstaff'])).toBe(false);
+    expect(coversAllSuppliers('copper', ['Boise', 'Calgary', 'Flagstaff', 'Phoenix'])).toBe(true);
+  });
+});
+
+describe('monopolyTiesForPlayer', () => {
+  test('sums ties for monopolies the player holds', () => {
+    const { G } = makeGameState({ coal: '0', cattle: '0', grain: '1' });
+    expect(monopolyTiesForPlayer(G, '0')).toBe(6);
+    expect(monopolyTiesForPlayer(G, '1')).toBe(3);
+  });
+});
+
+describe('private contract bias', () => {
+  test('offers the monopolized commodity near a supplying city far more often', () => {
+    const coalShare = (monopolies: Record<string, string>): number => {
+      const { G, ctx } = makeGameState(monopolies);
+      let coal = 0;
+      let total = 0;
+      for (let i = 0; i < 300; i++) {
+        const spec = generatePrivateContractSpec(G, ctx);
+        if (!spec) continue;
+        total++;
+        if (spec.commodity === 'coal') coal++;
+      }
+      return coal / total;
+    };
+
+    // Destinations that supply coal themselves are never biased, so the share stays below the 60% odds
+    expect(coalShare({ coal: '0' })).toBeGreaterThan(coalShare({}) + 0.15);
+  });
+});
@@ -0,0 +1,86 @@
+import { cities, commodities } from './data';
+import { citiesConnectedTo } from './utils/graph';
+import type { GameState } from './stores/gameStore';
+
+/** Monopoly terms for a commodity, from the rules' Monopoly Size table. */
+export interface MonopolyTerms {
+  /** Railroad ties awarded when the monopoly is claimed. */
+  ties: number;
+  /** Chance the commodity is chosen for a private contract offered near a city that supplies it. */
+  contractOdds: number;
+}
+
+/** Price of a Commodities Exchange Office, which is dedicated to one commodity and needed to monopolize it. */
+export const EXCHANGE_OFFICE_COST = 20000;
+
+/** Keyed by the number of cities that supply the commodity; commodities with other counts cannot be monopolized. */
+const MONOPOLY_SIZES: Record<number, MonopolyTerms> = {
+  4: { ties: 2, contractOdds: 0.4 },
+  5: { ties: 3, contractOdds: 0.5 },
+  6: { ties: 4, contractOdds: 0.6 },
+};
+
+/**
+ * Monopoly terms for a commodity.
+ *
+ * @param commodity - Commodity key
+ * @returns Terms, or undefined if the commodity cannot be monopolized
+ */
+export function monopolyTerms(commodity: string): MonopolyTerms | undefined {
+  const data = commodities.get(commodity);
+  return data ? MONOPOLY_SIZES[data.cities.length] : undefined;
+}
+
+/**
+ * Whether the given cities include every city that supplies the commodity.
+ *
+ * @param commodity - Commodity key
+ * @param activeCities - The player's active cities
+ * @returns true if all supplying cities are active
+ */
+export function coversAllSuppliers(commodity: string, activeCities: string[]): boolean {
+  const data = commodities.get(commodity);
+  if (!data) return false;
+  const active = new Set(activeCities);
+  return data.cities.every((cityKey) => active.has(cityKey));
+}
+
+/**
+ * Ties from monopolies the player holds.
+ *
+ * @param G - Game state
+ * @param playerID - Player ID
+ * @returns Sum of monopoly ties
+ */
+export function monopolyTiesForPlayer(G: GameState, playerID: string): number {
+  return Object.entries(G.monopolies ?? {})
+    .filter(([, ownerID]) => ownerID === playerID)
+    .reduce((sum, [commodity]) => sum + (monopolyTerms(commodity)?.ties ?? 0), 0);
+}
+
+/**
+ * The player's monopolies that should bias a private contract: the commodity is supplied by the current city or a
+ * city one segment away, and is not supplied by the destination.
+ *
+ * @param G - Game state
+ * @param playerID - Player ID
+ * @param currentCityKey - City of the player's latest delivery
+ * @param destinationKey - Destination of the contract being generated
+ * @returns Monopolized commodities with their terms
+ */
+export function monopoliesNear(
+  G: GameState,
+  playerID: string,
+  currentCityKey: string,
+  destinationKey: string
+): ({ commodity: string } & MonopolyTerms)[] {
+  const nearbyCities = citiesConnectedTo([currentCityKey], { distance: 1, includeFromCities: true });
+  const destinationCommodities = cities.get(destinationKey)?.commodities ?? [];
+
+  return Object.entries(G.monopolies ?? {})
+    .filter(([commodity, ownerID]) => {
+      if (ownerID !== playerID || destinationCommodities.includes(commodity)) return false;
+      return commodities.get(commodity)?.cities.some((cityKey) => nearbyCities.has(cityKey)) ?? false;
+    })
+    .map(([commodity]) => ({ commodity, ...(monopolyTerms(commodity) as MonopolyTerms) }));
+}
@@ -0,0 +1,39 @@
+import { describe, test, expect } from 'vitest';
+import { cities } from './data';
+import { commoditiesSuppliedAt, railyardCommodities, railyardOwner } from './railyards';
+import type { GameState, PlayerProps } from './stores/gameStore';
+
+function makePlayer(railyard: string | null = null): PlayerProps {
+  return { name: 'P', activeCities: ['Boston'], hubCity: null, regionalOffice: null, railyard };
+}
+
+describe('railyardCommodities', () => {
+  test('includes commodities of cities two segments away', () => {
+    // Boston -> Portland ME -> Quebec City
+    const supplied = railyardCommodities('Boston');
+
+    cities.get('Quebec City')?.commodities.forEach((c) => expect(supplied.has(c)).toBe(true));
+    cities.get('Boston')?.commodities.forEach((c) => expect(supplied.has(c)).toBe(true));
+  });
+});
+
+describe('commoditiesSuppliedAt', () => {
+  test('widens supply only at the player’s own railyard', () => {
+    expect(commoditiesSuppliedAt(makePlayer('Boston'), 'Boston')).toEqual(railyardCommodities('Boston'));
+    expect(commoditiesSuppliedAt(makePlayer(), 'Boston')).toEqual(new Set(cities.get('Boston')?.commodities));
+    expect(commoditiesSuppliedAt(undefined, 'Boston')).toEqual(new Set(cities.get('Boston')?.commodities));
+  });
+});
+
+describe('railyardOwner', () => {
+  test('finds the player with a railyard in the city', () => {
+    const G: GameState = {
+      contracts: [],
+      players: [['0', makePlayer()], ['1', makePlayer('Boston')]],
+      independentRailroads: {},
+    };
+
+    expect(railyardOwner(G, 'Boston')).toBe('1');
+    expect(railyardOwner(G, 'New York')).toBeUndefined();
+  });
+});
@@ -0,0 +1,40 @@
+import { cities } from './data';
+import { citiesConnectedTo } from './utils/graph';
+import type { GameState, PlayerProps } from './stores/gameStore';
+
+/** A railyard supplies every commodity available within this many segments of its city. */
+export const RAILYARD_SUPPLY_DISTANCE = 2;
+
+/**
+ * Commodities a railyard in a city supplies: those of the city and every city within RAILYARD_SUPPLY_DISTANCE.
+ *
+ * @param cityKey - Railyard city
+ * @returns Commodity keys
+ */
+export function railyardCommodities(cityKey: string): Set<string> {
+  const nearby = citiesConnectedTo([cityKey], { distance: RAILYARD_SUPPLY_DISTANCE, includeFromCities: true });
+  return new Set([...nearby].flatMap((key) => cities.get(key)?.commodities ?? []));
+}
+
+/**
+ * Commodities a city supplies to a player: the city's own, plus everything nearby if it is the player's railyard.
+ *
+ * @param player - Player props (undefined for supply that is the same for everyone)
+ * @param cityKey - City key
+ * @returns Commodity keys
+ */
+export function commoditiesSuppliedAt(player: PlayerProps | undefined, cityKey: string): Set<string> {
+  if (player?.railyard === cityKey) return railyardCommodities(cityKey);
+  return new Set(cities.get(cityKey)?.commodities ?? []);
+}
+
+/**
+ * Player holding the railyard in a city, if any. A city can only have one railyard.
+ *
+ * @param G - Game state
+ * @param cityKey - City key
+ * @returns Player ID, or undefined
+ */
+export function railyardOwner(G: GameState, cityKey: string): string | undefined {
+  return G.players.find(([, props]) => props.railyard === cityKey)?.[0];
+}
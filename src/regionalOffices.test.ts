@@ -0,0 +1,40 @@
+import { describe, test, expect } from 'vitest';
+import { regionalOfficeUnavailableReason } from './regionalOffices';
+import type { GameState, PlayerProps, RegionCode } from './stores/gameStore';
+
+const NORTHEAST = ['Boston', 'Portland ME', 'Quebec City', 'Montreal', 'Ottawa'];
+
+function makePlayer(name: string, activeCities: string[], regionalOffice: RegionCode | null = null): PlayerProps {
+  return { name, activeCities, hubCity: null, regionalOffice };
+}
+
+function makeGameState(...players: PlayerProps[]): GameState {
+  return {
+    contracts: [],
+    players: players.map((player, i) => [String(i), player]),
+    independentRailroads: {},
+  };
+}
+
+describe('regionalOfficeUnavailableReason', () => {
+  test('allows a player connected to five cities with the region to themselves', () => {
+    const G = makeGameState(makePlayer('Ann', NORTHEAST), makePlayer('Bo', ['Atlanta']));
+
+    expect(regionalOfficeUnavailableReason(G, '0', 'NE')).toBeNull();
+  });
+
+  test('requires five connected cities in the region', () => {
+    const G = makeGameState(makePlayer('Ann', NORTHEAST.slice(0, 4)));
+
+    expect(regionalOfficeUnavailableReason(G, '0', 'NE')).toBe('Connected to 4 of 5 cities needed');
+  });
+
+  test('is blocked by another player holding it or having connections there', () => {
+    expect(
+      regionalOfficeUnavailableReason(makeGameState(makePlayer('Ann', NORTHEAST), makePlayer('Bo', ['New York'])), '0', 'NE')
+    ).toBe('Bo has connections here');
+    expect(
+      regionalOfficeUnavailableReason(makeGameState(makePlayer('Ann', NORTHEAST), makePlayer('Bo', [], 'NE')), '0', 'NE')
+    ).toBe('Bo has this Regional Office');
+  });
+});
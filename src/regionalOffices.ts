@@ -0,0 +1,43 @@
+import { cities } from './data';
+import type { GameState, PlayerProps } from './stores/gameStore';
+
+/** Connected cities a player needs in a region to build a Regional Office there. */
+export const REGIONAL_OFFICE_MIN_CITIES = 5;
+
+/**
+ * Cities in a region that the player's network reaches.
+ *
+ * @param player - Player props
+ * @param region - Region code
+ * @returns City keys, in activeCities order
+ */
+export function connectedCitiesInRegion(player: PlayerProps, region: string): string[] {
+  return player.activeCities.filter((cityKey) => cities.get(cityKey)?.region === region);
+}
+
+/**
+ * Why the player cannot build a Regional Office in a region: another player holds it or has connections there, or
+ * the player reaches fewer than REGIONAL_OFFICE_MIN_CITIES of its cities.
+ *
+ * @param G - Game state
+ * @param playerID - Player ID
+ * @param region - Region code
+ * @returns Explanation for display, or null if the player is eligible
+ */
+export function regionalOfficeUnavailableReason(G: GameState, playerID: string, region: string): string | null {
+  const player = G.players.find(([id]) => id === playerID)?.[1];
+  if (!player) return 'Unknown player';
+
+  const others = G.players.filter(([id]) => id !== playerID).map(([, props]) => props);
+  const holder = others.find((props) => props.regionalOffice === region);
+  if (holder) return `${holder.name} has this Regional Office`;
+
+  const rival = others.find((props) => connectedCitiesInRegion(props, region).length > 0);
+  if (rival) return `${rival.name} has connections here`;
+
+  const connected = connectedCitiesInRegion(player, region).length;
+  if (connected < REGIONAL_OFFICE_MIN_CITIES) {
+    return `Connected to ${connected} of ${REGIONAL_OFFICE_MIN_CITIES} cities needed`;
+  }
+  return null;
+}
@@ -0,0 +1,109 @@
+import { describe, test, expect } from 'vitest';
+import { newContract, railroadTieValue, type Contract } from './Contract';
+import {
+  END_OF_GAME_TIE_THRESHOLD,
+  breadthBonus,
+  commodityBonuses,
+  depthBonus,
+  REGIONAL_OFFICE_TIES,
+  finalStandings,
+  isGameOver,
+  scorePlayer,
+} from './scoring';
+import type { GameState, RegionCode } from './stores/gameStore';
+
+/** Minimal game state with two players. */
+function makeGameState(contracts: Contract[], regionalOffice: RegionCode | null = null): GameState {
+  return {
+    contracts,
+    players: [
+      ['0', { name: 'P0', activeCities: ['New York', 'Philadelphia'], hubCity: null, regionalOffice }],
+      ['1', { name: 'P1', activeCities: ['Boston', 'Portland ME'], hubCity: null, regionalOffice: null }],
+    ],
+    independentRailroads: {},
+  };
+}
+
+/** Fulfilled contract held by playerID. */
+function fulfilled(playerID: string, commodity: string, destinationKey: string): Contract {
+  return newContract(destinationKey, commodity, { playerID, fulfilled: true }) as Contract;
+}
+
+describe('scorePlayer', () => {
+  test('sums railroadTieValue of fulfilled contracts only', () => {
+    const done = fulfilled('0', 'coal', 'Chicago');
+    const open = newContract('Boston', 'imports', { playerID: '0' }) as Contract;
+    const G = makeGameState([done, open]);
+
+    const score = scorePlayer(G, '0');
+    expect(score?.contracts).toBe(railroadTieValue(done));
+    expect(score?.duringGame).toBe(railroadTieValue(done) + score!.commodityBreadth);
+  });
+
+  test('adds Regional Office ties at end of game only', () => {
+    const G = makeGameState([], 'NE');
+
+    const score = scorePlayer(G, '0');
+    expect(score?.regionalOffice).toBe(REGIONAL_OFFICE_TIES);
+    expect(score?.duringGame).toBe(0);
+    expect(score?.total).toBe(REGIONAL_OFFICE_TIES);
+  });
+
+  test('returns undefined for unknown player', () => {
+    expect(scorePlayer(makeGameState([]), '9')).toBeUndefined();
+  });
+});
+
+describe('commodity bonuses', () => {
+  test('breadth is 1 tie each for the first eight, 2 for the next four, then 3', () => {
+    expect(breadthBonus(0)).toBe(0);
+    expect(breadthBonus(8)).toBe(8);
+    expect(breadthBonus(12)).toBe(16);
+    expect(breadthBonus(14)).toBe(22);
+  });
+
+  test('depth starts with the second delivery of a commodity', () => {
+    expect(depthBonus(0)).toBe(0);
+    expect(depthBonus(1)).toBe(0);
+    expect(depthBonus(2)).toBe(2);
+    expect(depthBonus(4)).toBe(4);
+  });
+
+  test('derives counts from fulfilled contracts held by the player', () => {
+    const G = makeGameState([
+      fulfilled('0', 'coal', 'Chicago'),
+      fulfilled('0', 'coal', 'Boston'),
+      fulfilled('0', 'imports', 'Chicago'),
+      fulfilled('1', 'grain', 'Chicago'),
+      newContract('Atlanta', 'coal', { playerID: '0' }) as Contract,
+    ]);
+
+    expect(commodityBonuses(G, '0')).toEqual({
+      distinctCommodities: 2,
+      mostDeliveredCommodity: 'coal',
+      mostDeliveredCount: 2,
+      breadth: 2,
+      depth: 2,
+    });
+  });
+});
+
+describe('finalStandings', () => {
+  test('orders players by total, highest first', () => {
+    const G = makeGameState([fulfilled('1', 'coal', 'Chicago')]);
+
+    expect(finalStandings(G).map((s) => s.playerID)).toEqual(['1', '0']);
+  });
+});
+
+describe('isGameOver', () => {
+  test('is true once a player reaches the threshold during play', () => {
+    const contracts: Contract[] = [];
+    while ((scorePlayer(makeGameState(contracts), '0')?.duringGame ?? 0) < END_OF_GAME_TIE_THRESHOLD) {
+      expect(isGameOver(makeGameState(contracts))).toBe(false);
+      contracts.push(fulfilled('0', 'coal', 'Chicago'));
+    }
+
+    expect(isGameOver(makeGameState(contracts))).toBe(true);
+  });
+});
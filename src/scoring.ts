@@ -0,0 +1,206 @@
+import { bankruptcyTiesForPlayer } from './bankruptcy';
+import { railroadTieValue } from './Contract';
+import { connectionBonusTiesForPlayer } from './connectionBonuses';
+import { engineTiesForPlayer } from './engines';
+import { monopolyTiesForPlayer } from './monopolies';
+import type { GameState, PlayerProps } from './stores/gameStore';
+import { westCoastTiesForPlayer } from './westCoast';
+
+/** Railroad ties (earned during play) that end the game when any player reaches them. */
+export const END_OF_GAME_TIE_THRESHOLD = 30;
+
+/** End-of-game bonus for a player who has purchased a Regional Office. */
+export const REGIONAL_OFFICE_TIES = 2;
+
+/** Breadth bonus tiers: [number of distinct commodities in the tier, ties per commodity]; the last tier is open-ended. */
+const BREADTH_BONUS_TIERS: [number, number][] = [
+  [8, 1],
+  [4, 2],
+  [Infinity, 3],
+];
+
+/** Commodity bonus detail for one player. */
+export interface CommodityBonuses {
+  /** Number of distinct commodities delivered. */
+  distinctCommodities: number;
+  /** Most-delivered commodity, or null if nothing has been delivered. */
+  mostDeliveredCommodity: string | null;
+  /** Number of deliveries of mostDeliveredCommodity. */
+  mostDeliveredCount: number;
+  breadth: number;
+  depth: number;
+}
+
+/** Per-player railroad tie breakdown. */
+export interface PlayerScore {
+  playerID: string;
+  name: string;
+  /** Ties from fulfilled contracts (railroadTieValue). */
+  contracts: number;
+  /** West Coast delivery bonuses (first delivery in the game and later ones). */
+  westCoast: number;
+  /** Breadth bonus for distinct commodities delivered. */
+  commodityBreadth: number;
+  /** Depth bonus for the most-delivered commodity. */
+  commodityDepth: number;
+  /** Claimed connection bonuses. */
+  connections: number;
+  /** Monopolies held. */
+  monopolies: number;
+  /** Ties lost to bankruptcy (zero or negative). */
+  bankruptcy: number;
+  /** End-of-game Regional Office bonus. */
+  regionalOffice: number;
+  /** End-of-game ties from engines (the Challenger). */
+  engines: number;
+  /** Ties earned during play; compared against END_OF_GAME_TIE_THRESHOLD. */
+  duringGame: number;
+  /** duringGame plus end-of-game bonuses. */
+  total: number;
+}
+
+/**
+ * Ties from the player's fulfilled contracts.
+ *
+ * @param G - Game state
+ * @param playerID - Player ID
+ * @returns Sum of railroadTieValue over fulfilled contracts held by the player
+ */
+export function contractTies(G: GameState, playerID: string): number {
+  return G.contracts
+    .filter((contract) => contract.playerID === playerID && contract.fulfilled)
+    .reduce((sum, contract) => sum + railroadTieValue(contract), 0);
+}
+
+/**
+ * Breadth bonus for a number of distinct commodities delivered: the first eight are worth 1 tie each,
+ * the next four 2 ties each, and every one after that 3 ties.
+ *
+ * @param distinctCommodities - Number of different commodities delivered
+ * @returns Breadth bonus in railroad ties
+ */
+export function breadthBonus(distinctCommodities: number): number {
+  let remaining = distinctCommodities;
+  let ties = 0;
+  for (const [size, tiesEach] of BREADTH_BONUS_TIERS) {
+    const inTier = Math.min(remaining, size);
+    ties += inTier * tiesEach;
+    remaining -= inTier;
+    if (remaining <= 0) break;
+  }
+  return ties;
+}
+
+/**
+ * Depth bonus for the number of deliveries of the player's most-delivered commodity. Nothing is earned until
+ * a commodity is delivered a second time; after that the bonus is one plus the deliveries beyond the first.
+ *
+ * @param mostDeliveredCount - Deliveries of the most-delivered commodity
+ * @returns Depth bonus in railroad ties
+ */
+export function depthBonus(mostDeliveredCount: number): number {
+  return mostDeliveredCount > 1 ? 1 + (mostDeliveredCount - 1) : 0;
+}
+
+/**
+ * Breadth and depth bonuses derived from the player's fulfilled contracts.
+ *
+ * @param G - Game state
+ * @param playerID - Player ID
+ * @returns Commodity bonus detail
+ */
+export function commodityBonuses(G: GameState, playerID: string): CommodityBonuses {
+  const deliveries = new Map<string, number>();
+  G.contracts
+    .filter((contract) => contract.playerID === playerID && contract.fulfilled)
+    .forEach((contract) => {
+      deliveries.set(contract.commodity, (deliveries.get(contract.commodity) ?? 0) + 1);
+    });
+
+  let mostDeliveredCommodity: string | null = null;
+  let mostDeliveredCount = 0;
+  deliveries.forEach((count, commodity) => {
+    if (count > mostDeliveredCount) {
+      mostDeliveredCommodity = commodity;
+      mostDeliveredCount = count;
+    }
+  });
+
+  return {
+    distinctCommodities: deliveries.size,
+    mostDeliveredCommodity,
+    mostDeliveredCount,
+    breadth: breadthBonus(deliveries.size),
+    depth: depthBonus(mostDeliveredCount),
+  };
+}
+
+/**
+ * Score one player: ties earned during play plus end-of-game bonuses.
+ *
+ * @param G - Game state
+ * @param playerID - Player ID
+ * @param player - Player props (looked up in G.players when omitted)
+ * @returns Score breakdown, or undefined if the player is not in the game
+ */
+export function scorePlayer(
+  G: GameState,
+  playerID: string,
+  player?: PlayerProps
+): PlayerScore | undefined {
+  const props = player ?? G.players.find(([id]) => id === playerID)?.[1];
+  if (!props) return undefined;
+
+  const contracts = contractTies(G, playerID);
+  const westCoast = westCoastTiesForPlayer(G, playerID);
+  const { breadth: commodityBreadth, depth: commodityDepth } = commodityBonuses(G, playerID);
+  const connections = connectionBonusTiesForPlayer(G, playerID);
+  const monopolies = monopolyTiesForPlayer(G, playerID);
+  const bankruptcy = bankruptcyTiesForPlayer(props);
+  const regionalOffice = props.regionalOffice ? REGIONAL_OFFICE_TIES : 0;
+  const engines = engineTiesForPlayer(props);
+
+  const duringGame = contracts + westCoast + commodityBreadth + commodityDepth + connections + monopolies + bankruptcy;
+  const endOfGame = regionalOffice + engines;
+
+  return {
+    playerID,
+    name: props.name,
+    contracts,
+    westCoast,
+    commodityBreadth,
+    commodityDepth,
+    connections,
+    monopolies,
+    bankruptcy,
+    regionalOffice,
+    engines,
+    duringGame,
+    total: duringGame + endOfGame,
+  };
+}
+
+/**
+ * Final standings: every player's score, highest total first. Ties in total keep play order.
+ *
+ * @param G - Game state
+ * @returns Player scores sorted by total, descending
+ */
+export function finalStandings(G: GameState): PlayerScore[] {
+  return G.players
+    .map(([playerID, props]) => scorePlayer(G, playerID, props) as PlayerScore)
+    .sort((a, b) => b.total - a.total);
+}
+
+/**
+ * Whether any player has earned enough ties during play to end the game.
+ *
+ * @param G - Game state
+ * @returns true if some player has at least END_OF_GAME_TIE_THRESHOLD ties
+ */
+export function isGameOver(G: GameState): boolean {
+  return G.players.some(
+    ([playerID, props]) =>
+      (scorePlayer(G, playerID, props)?.duringGame ?? 0) >= END_OF_GAME_TIE_THRESHOLD
+  );
+}
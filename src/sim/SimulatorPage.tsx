@@ -1,7 +1,8 @@
 import React from 'react';
 import '../shared/styles/simulator-screen.css';
 import { preloadMapImage, renderGamePng } from './renderGamePng';
-import { runSimulation, type SimulationParams } from './runSimulation';
+import type { IndependentRailroadPlacement } from '../independentRailroads';
+import { averagePlacementMetrics, runSimulation, type SimulationParams } from './runSimulation';
 import {
   pickOutputDirectory,
   supportsDirectoryPicker,
@@ -16,6 +17,7 @@ const MIN_GAMES = 1;
 const MAX_GAMES = 1000;
 const MIN_ACTIVE_CITIES_PER_ROUND = 0.1;
 const MAX_ACTIVE_CITIES_PER_ROUND = 1;
+const MAX_SEED = 0xffffffff;
 
 function clampInt(value: string, min: number, max: number, fallback: number): number {
   const parsed = Number.parseInt(value, 10);
@@ -61,6 +63,8 @@ export function SimulatorPage(): React.ReactElement {
   const [numRounds, setNumRounds] = React.useState('20');
   const [numGames, setNumGames] = React.useState('100');
   const [activeCitiesPerRound, setActiveCitiesPerRound] = React.useState('0.4');
+  const [placement, setPlacement] = React.useState<IndependentRailroadPlacement>('balanced');
+  const [seed, setSeed] = React.useState('');
   const [status, setStatus] = React.useState<string | null>(null);
   const [error, setError] = React.useState<string | null>(null);
   const [running, setRunning] = React.useState(false);
@@ -86,6 +90,8 @@ export function SimulatorPage(): React.ReactElement {
         MAX_ACTIVE_CITIES_PER_ROUND,
         MIN_ACTIVE_CITIES_PER_ROUND
       ),
+      placement,
+      ...(seed.trim() !== '' && { seed: clampInt(seed, 0, MAX_SEED, 0) }),
     };
 
     const validationError = validateParams(
@@ -137,7 +143,13 @@ export function SimulatorPage(): React.ReactElement {
         parentDir,
       });
 
-      setStatus(`Done. Wrote ${baseName}.csv and ${baseName}/ (${params.numGames} PNGs).`);
+      const metrics = averagePlacementMetrics(results);
+      setStatus(
+        `Done. Wrote ${baseName}.csv and ${baseName}/ (${params.numGames} PNGs). ` +
+          `Initial placement averages: largest open space ${metrics.openSpaceMax.toFixed(2)} segments, ` +
+          `open space ${metrics.openSpaceAverage.toFixed(2)} segments, ` +
+          `closest railroad ${metrics.railroadSpacingMin.toFixed(2)} segments apart.`
+      );
     } catch (err) {
       if (err instanceof DOMException && err.name === 'AbortError') {
         setStatus('Cancelled — no files written.');
@@ -220,6 +232,32 @@ export function SimulatorPage(): React.ReactElement {
             />
           </label>
 
+          <label className="simulatorPage__field">
+            <span className="simulatorPage__label">Independent railroad placement</span>
+            <select
+              className="simulatorPage__input"
+              value={placement}
+              onChange={(e) => setPlacement(e.target.value as IndependentRailroadPlacement)}
+              disabled={running}
+            >
+              <option value="balanced">Balanced (fill open space)</option>
+              <option value="random">Random (for comparison)</option>
+            </select>
+          </label>
+
+          <label className="simulatorPage__field">
+            <span className="simulatorPage__label">Seed of the first game (blank for random)</span>
+            <input
+              className="simulatorPage__input"
+              type="number"
+              min={0}
+              max={MAX_SEED}
+              value={seed}
+              onChange={(e) => setSeed(e.target.value)}
+              disabled={running}
+            />
+          </label>
+
           <button className="button button--primary" type="submit" disabled={running}>
             {running ? 'Running…' : 'Launch simulation'}
           </button>
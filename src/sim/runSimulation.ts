@@ -1,31 +1,40 @@
-import { routes } from '../data';
+import { cities, routes } from '../data';
 import {
   growIndependentRailroads,
   initializeIndependentRailroads,
+  type IndependentRailroadPlacement,
 } from '../independentRailroads';
+import { createPlayerProps } from '../stores/gameStore';
 import type {
   GameContext,
   GameState,
   IndependentRailroadRoute,
 } from '../stores/gameStore';
-import { citiesConnectedTo } from '../utils/graph';
-import { getPlayerAvatarColorForIndex } from '../utils/playerAvatar';
-import { randomArrayItem, shuffleArray } from '../utils/random';
-
-export const STARTING_CITY_PAIRS: readonly [string, string][] = [
-  ['Montreal', 'Quebec City'],
-  ['Boston', 'Portland ME'],
-  ['New York', 'Philadelphia'],
-  // ['Philadelphia', 'Washington'], -- omitting one of the Phildelphia dupes to simplify implementation
-  ['Norfolk', 'Raleigh'],
-  ['Charleston', 'Savannah'],
-];
+import { STARTING_CITY_PAIRS } from '../startingRoutes';
+import { citiesConnectedTo, shortestDistance } from '../utils/graph';
+import { newSeed, random, randomArrayItem, seedRandom, shuffleArray } from '../utils/random';
 
 export interface SimulationParams {
   numPlayers: number;
   numRounds: number;
   numGames: number;
   activeCitiesPerRound: number;
+  placement: IndependentRailroadPlacement;
+  /** Seed of the first game; game N uses seed + N - 1. A new seed is chosen when omitted. */
+  seed?: number;
+}
+
+/**
+ * How evenly the initial independent railroads cover the map. Open space is measured in segments from a city to the
+ * nearest starting city or independent railroad; a more even placement has a smaller maximum and average.
+ */
+export interface PlacementMetrics {
+  /** Largest open space: segments from the most isolated city to anything occupied. */
+  openSpaceMax: number;
+  /** Average open space over all cities. */
+  openSpaceAverage: number;
+  /** Fewest segments between an independent railroad and the nearest other railroad or starting city. */
+  railroadSpacingMin: number;
 }
 
 export interface AcquiredRailroad {
@@ -40,6 +49,8 @@ export type PlayerCityAcquiredInRound = Record<string, Record<string, number>>;
 
 export interface GameResult {
   gameNumber: number;
+  /** Seed this game was generated from; rerunning with it reproduces the game exactly. */
+  seed: number;
   G: GameState;
   activeCities: string[];
   activeCitiesTotal: number;
@@ -50,6 +61,7 @@ export interface GameResult {
   acquiredRailroads: AcquiredRailroad[];
   railroadColorIndices: Record<string, number>;
   playerCityAcquiredInRound: PlayerCityAcquiredInRound;
+  placementMetrics: PlacementMetrics;
 }
 
 function seedStartingCities(
@@ -57,7 +69,11 @@ function seedStartingCities(
   numPlayers: number,
   playerCityAcquiredInRound: PlayerCityAcquiredInRound
 ): void {
-  const pool: [string, string][] = shuffleArray([...STARTING_CITY_PAIRS]) as [string, string][];
+  // Pairs sharing a city (the two Philadelphia routes) are not dealt together, to keep starting networks apart
+  const pool: [string, string][] = [];
+  for (const pair of shuffleArray([...STARTING_CITY_PAIRS]) as [string, string][]) {
+    if (!pool.some((dealt) => dealt.some((city) => pair.includes(city)))) pool.push(pair);
+  }
   if (pool.length < numPlayers) {
     throw new Error(
       `Not enough starting city pairs for ${numPlayers} players (need ${numPlayers}, have ${pool.length}).`
@@ -82,21 +98,16 @@ function seedStartingCities(
 
 function createStubGame(
   numPlayers: number,
+  placement: IndependentRailroadPlacement,
   playerCityAcquiredInRound: PlayerCityAcquiredInRound
 ): { G: GameState; ctx: GameContext } {
   const G: GameState = {
     contracts: [],
     players: Array.from({ length: numPlayers }, (_, i) => [
       String(i),
-      {
-        name: `Player ${i}`,
-        activeCities: [],
-        hubCity: null,
-        regionalOffice: null,
-        avatarColor: getPlayerAvatarColorForIndex(i),
-      },
+      createPlayerProps(`Player ${i}`, i),
     ]),
-    independentRailroads: initializeIndependentRailroads(),
+    independentRailroads: initializeIndependentRailroads(placement),
   };
 
   const ctx: GameContext = {
@@ -127,7 +138,7 @@ function expandCities(
   round: number
 ): string | undefined {
   const target = Math.trunc(round * activeCitiesPerRound + 2);
-  if (target <= activeCities.length && Math.random() < 0.75 && target <= (activeCities.length + 1)) {
+  if (target <= activeCities.length && random() < 0.75 && target <= (activeCities.length + 1)) {
     return undefined;
   }
 
@@ -156,6 +167,28 @@ function collectRailroadCities(rr: {
   return cities;
 }
 
+export function measurePlacement(independentRailroads: GameState['independentRailroads']): PlacementMetrics {
+  const startingCities = new Set(STARTING_CITY_PAIRS.flat());
+  const railroadCities = Object.values(independentRailroads).map(collectRailroadCities);
+  const occupied = new Set([...startingCities, ...railroadCities.flatMap((rrCities) => [...rrCities])]);
+
+  const openSpace = [...cities.keys()].map(
+    (city) => shortestDistance(city, (c: string) => occupied.has(c)) ?? 0
+  );
+  const spacing = railroadCities.map((rrCities) => {
+    const others = new Set([...occupied].filter((city) => !rrCities.has(city)));
+    return Math.min(
+      ...[...rrCities].map((city) => shortestDistance(city, (c: string) => others.has(c)) ?? Infinity)
+    );
+  });
+
+  return {
+    openSpaceMax: Math.max(0, ...openSpace),
+    openSpaceAverage: openSpace.reduce((sum, d) => sum + d, 0) / Math.max(1, openSpace.length),
+    railroadSpacingMin: spacing.length > 0 ? Math.min(...spacing) : 0,
+  };
+}
+
 function checkAcquisitions(
   newCity: string,
   G: GameState,
@@ -193,10 +226,12 @@ function checkAcquisitions(
   }
 }
 
-function runSingleGame(params: SimulationParams, gameNumber: number): GameResult {
+function runSingleGame(params: SimulationParams, gameNumber: number, seed: number): GameResult {
+  seedRandom(seed);
   const playerCityAcquiredInRound: PlayerCityAcquiredInRound = {};
-  const { G, ctx } = createStubGame(params.numPlayers, playerCityAcquiredInRound);
+  const { G, ctx } = createStubGame(params.numPlayers, params.placement, playerCityAcquiredInRound);
   const railroadColorIndices = captureRailroadColorIndices(G);
+  const placementMetrics = measurePlacement(G.independentRailroads);
   const acquiredRailroads: AcquiredRailroad[] = [];
 
   for (let round = 1; round <= params.numRounds; round++) {
@@ -242,6 +277,7 @@ function runSingleGame(params: SimulationParams, gameNumber: number): GameResult
 
   return {
     gameNumber,
+    seed,
     G,
     activeCities,
     activeCitiesTotal: activeCities.length,
@@ -252,13 +288,25 @@ function runSingleGame(params: SimulationParams, gameNumber: number): GameResult
     acquiredRailroads,
     railroadColorIndices,
     playerCityAcquiredInRound,
+    placementMetrics,
   };
 }
 
 export function runSimulation(params: SimulationParams): GameResult[] {
+  const firstSeed = params.seed ?? newSeed();
   const results: GameResult[] = [];
   for (let i = 1; i <= params.numGames; i++) {
-    results.push(runSingleGame(params, i));
+    results.push(runSingleGame(params, i, (firstSeed + i - 1) >>> 0));
   }
   return results;
 }
+
+export function averagePlacementMetrics(results: GameResult[]): PlacementMetrics {
+  const average = (key: keyof PlacementMetrics) =>
+    results.reduce((sum, result) => sum + result.placementMetrics[key], 0) / Math.max(1, results.length);
+  return {
+    openSpaceMax: average('openSpaceMax'),
+    openSpaceAverage: average('openSpaceAverage'),
+    railroadSpacingMin: average('railroadSpacingMin'),
+  };
+}
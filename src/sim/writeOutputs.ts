@@ -31,29 +31,37 @@ function formatRunTimestamp(date: Date): string {
 
 export function buildRunBaseName(params: SimulationParams, runDate = new Date()): string {
   const timestampPart = formatRunTimestamp(runDate);
-  return `${timestampPart} ${params.numPlayers}P ${params.numRounds}R - ${params.numGames} games`;
+  return `${timestampPart} ${params.numPlayers}P ${params.numRounds}R - ${params.numGames} games (${params.placement})`;
 }
 
 export function buildCsv(results: GameResult[]): string {
   const header = [
     'Game Number',
+    'Seed',
     'Active Cities',
     'Active Cities Total',
     'Active Cities Average',
     'RR sizes',
     'Max RR size',
     'RR routes',
+    'Open space max',
+    'Open space average',
+    'RR spacing min',
   ].join(',');
 
   const rows = results.map((result) =>
     [
       result.gameNumber,
+      result.seed,
       csvEscape(result.activeCities.join(', ')),
       result.activeCitiesTotal,
       result.activeCitiesAverage.toFixed(2),
       csvEscape(result.rrSizes.join(', ')),
       result.maxRrSize,
       csvEscape(result.rrRoutes.join(', ')),
+      result.placementMetrics.openSpaceMax,
+      result.placementMetrics.openSpaceAverage.toFixed(2),
+      result.placementMetrics.railroadSpacingMin,
     ].join(',')
   );
 
@@ -0,0 +1,52 @@
+import { describe, test, expect } from 'vitest';
+import {
+  isValidStartingRouteRanking,
+  resolveStartingRoutes,
+  STARTING_CITY_PAIRS,
+  type StartingRoute,
+} from './startingRoutes';
+
+const [montreal, boston, newYork, philadelphia, norfolk] = STARTING_CITY_PAIRS;
+
+describe('isValidStartingRouteRanking', () => {
+  test('requires three different listed routes', () => {
+    expect(isValidStartingRouteRanking([montreal, boston, newYork])).toBe(true);
+    expect(isValidStartingRouteRanking([montreal, boston])).toBe(false);
+    expect(isValidStartingRouteRanking([montreal, montreal, boston])).toBe(false);
+    expect(isValidStartingRouteRanking([montreal, boston, ['Chicago', 'Detroit']])).toBe(false);
+  });
+});
+
+describe('resolveStartingRoutes', () => {
+  test('gives everyone their first choice when there is no conflict', () => {
+    const resolved = resolveStartingRoutes(
+      { '0': [montreal, boston, newYork], '1': [boston, montreal, newYork] },
+      ['0', '1']
+    );
+    expect(resolved).toEqual({ '0': montreal, '1': boston });
+  });
+
+  test('breaks ties in favor of the player later in play order', () => {
+    const same: StartingRoute[] = [montreal, boston, norfolk];
+    const resolved = resolveStartingRoutes({ '0': same, '1': same, '2': same }, ['0', '1', '2']);
+
+    expect(resolved).toEqual({ '2': montreal, '1': boston, '0': norfolk });
+  });
+
+  test('never gives two players routes that share a city', () => {
+    const resolved = resolveStartingRoutes(
+      { '0': [newYork, montreal, boston], '1': [philadelphia, montreal, boston] },
+      ['0', '1']
+    );
+
+    expect(resolved).toEqual({ '1': philadelphia, '0': montreal });
+  });
+
+  test('falls back to the first free route when all ranked routes are taken', () => {
+    const same: StartingRoute[] = [newYork, philadelphia, norfolk];
+    const resolved = resolveStartingRoutes({ '0': same, '1': same, '2': same }, ['0', '1', '2']);
+
+    // New York and Philadelphia share a city, so only one of them is dealt
+    expect(resolved).toEqual({ '2': newYork, '1': norfolk, '0': montreal });
+  });
+});
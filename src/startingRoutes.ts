@@ -0,0 +1,86 @@
+import { routes } from './data';
+import type { OwnedTrack } from './track';
+
+/** A starting route: the two cities a player starts with. */
+export type StartingRoute = [string, string];
+
+/** Starting route options, in the order shown to players. */
+export const STARTING_CITY_PAIRS: StartingRoute[] = [
+  ['Montreal', 'Quebec City'],
+  ['Boston', 'Portland ME'],
+  ['New York', 'Philadelphia'],
+  ['Philadelphia', 'Washington'],
+  ['Norfolk', 'Raleigh'],
+  ['Charleston', 'Savannah'],
+];
+
+/** Number of starting routes each player ranks. */
+export const STARTING_ROUTE_RANKS = 3;
+
+const routeKey = (route: StartingRoute): string => route.join('-');
+
+/**
+ * Whether a ranking is a valid submission: STARTING_ROUTE_RANKS distinct routes from STARTING_CITY_PAIRS.
+ *
+ * @param ranking - Routes, most preferred first
+ * @returns true if the ranking is valid
+ */
+export function isValidStartingRouteRanking(ranking: StartingRoute[]): boolean {
+  if (!Array.isArray(ranking) || ranking.length !== STARTING_ROUTE_RANKS) return false;
+  const options = new Set(STARTING_CITY_PAIRS.map(routeKey));
+  const keys = ranking.map((route) => (Array.isArray(route) ? routeKey(route) : ''));
+  return keys.every((key) => options.has(key)) && new Set(keys).size === keys.length;
+}
+
+/**
+ * Track a player owns at the start of the game: the route between their two starting cities.
+ *
+ * @param route - Starting route
+ * @returns The route's track segment, or none if the pair is not a route in data/routes.ts
+ */
+export function startingTrack(route: StartingRoute): OwnedTrack[] {
+  const key = routeKey(route);
+  return routes.has(key) ? [{ routeKey: key, parallel: false }] : [];
+}
+
+/**
+ * Resolve every player's ranked preferences into one starting route each. Choices are resolved rank by rank; when
+ * players want the same route (or routes sharing a city) at the same rank, the player later in play order gets it,
+ * offsetting the advantage of going first. A route sharing a city with one already assigned is taken. Players left
+ * without a route take the first free one in STARTING_CITY_PAIRS order.
+ * See "Set Up" in docs/Game rules.md.
+ *
+ * @param preferences - Player ID -> ranked routes, most preferred first
+ * @param playOrder - Player IDs in play order
+ * @returns Player ID -> starting route
+ */
+export function resolveStartingRoutes(
+  preferences: Record<string, StartingRoute[]>,
+  playOrder: string[]
+): Record<string, StartingRoute> {
+  const priority = [...playOrder].reverse();
+  const assigned: Record<string, StartingRoute> = {};
+  // Players cannot share a starting city, so a route is taken once either of its cities is
+  const takenCities = new Set<string>();
+  const isTaken = (route: StartingRoute) => route.some((city) => takenCities.has(city));
+
+  const assign = (playerID: string, route: StartingRoute) => {
+    assigned[playerID] = route;
+    route.forEach((city) => takenCities.add(city));
+  };
+
+  for (let rank = 0; rank < STARTING_ROUTE_RANKS; rank++) {
+    priority.forEach((playerID) => {
+      const route = preferences[playerID]?.[rank];
+      if (!assigned[playerID] && route && !isTaken(route)) assign(playerID, route);
+    });
+  }
+
+  priority.forEach((playerID) => {
+    if (assigned[playerID]) return;
+    const route = STARTING_CITY_PAIRS.find((r) => !isTaken(r));
+    if (route) assign(playerID, route);
+  });
+
+  return assigned;
+}
@@ -0,0 +1,108 @@
+/**
+ * Client side of the BYOD move authority. While a session is active, moves still run locally (so the board updates
+ * at once) but are not saved; each is submitted as a MoveIntent and the state the authority returns replaces the
+ * local prediction. While the cloud is unreachable, moves are queued offline and sent once it is back (see
+ * syncOfflineMoves in gameManager.ts).
+ */
+
+import { useGameStore } from './gameStore';
+import type { GameState, GameContext } from './gameStore';
+import { getSyncedState, submitMoveIntent as submitToAuthority, updateLastModifiedCache } from '../utils/gameManager';
+import { appendToOfflineQueue, getOfflineQueue } from '../utils/storage/offlineQueue';
+
+/** Game and seat whose moves go to the authority (the authority knows the seat from the device, not from this). */
+export interface AuthoritySession {
+  gameCode: string;
+  playerID: string;
+}
+
+let session: AuthoritySession | null = null;
+
+/** Intents are sent one at a time, in the order they were made. */
+let queue: Promise<void> = Promise.resolve();
+let pendingCount = 0;
+
+/**
+ * Send this device's moves to the move authority instead of saving whole states.
+ *
+ * @param newSession - Game code and this device's player
+ */
+export function startAuthoritySession(newSession: AuthoritySession): void {
+  session = newSession;
+}
+
+/** Stop sending moves to the authority (leaving the game). */
+export function endAuthoritySession(): void {
+  session = null;
+}
+
+/** Active authority session, or null when moves are saved directly. */
+export function getAuthoritySession(): AuthoritySession | null {
+  return session;
+}
+
+/**
+ * Queue a move for the authority. When it answers, its canonical state replaces the local one; a rejected move is
+ * logged and the canonical state (without it) is restored. A move that cannot reach the authority, or that would
+ * overtake moves already queued offline, is queued offline and keeps its local prediction.
+ *
+ * @param move - Move name (or restore, with the log position as its argument)
+ * @param args - Move arguments
+ */
+export function submitMoveIntent(move: string, args: unknown[]): void {
+  const current = session;
+  if (!current) return;
+
+  const intent = { move, args };
+  pendingCount++;
+  queue = queue.then(async () => {
+    // Once moves are queued offline, later ones queue behind them so they reach the authority in order
+    const result = getOfflineQueue(current.gameCode) ? null : await submitToAuthority(current.gameCode, intent);
+    pendingCount--;
+    if (!result || (!result.ok && result.unavailable)) {
+      queueOffline(current, move, args);
+      return;
+    }
+    if (!result.ok) {
+      console.warn(`[${move}] Rejected by the move authority: ${result.error}`);
+    }
+    // Ignore answers for a game this device has since left; while later moves are still pending, the local state
+    // already includes them, so only a rejection replaces it
+    if (!result.state || session?.gameCode !== current.gameCode) return;
+    if (result.ok && pendingCount > 0) return;
+
+    if (result.ok && result.lastModified) {
+      updateLastModifiedCache(current.gameCode, result.lastModified);
+    }
+    const G = result.state.G as unknown as GameState;
+    const ctx = result.state.ctx as unknown as GameContext;
+    useGameStore.setState((state) => {
+      const turnChanged = ctx.currentPlayer !== state.ctx.currentPlayer;
+      // lastRoundRoutesAdded is a transient UI field the authority does not keep
+      const preserved =
+        state.G.lastRoundRoutesAdded !== undefined ? { lastRoundRoutesAdded: state.G.lastRoundRoutesAdded } : {};
+      return {
+        G: { ...G, ...preserved },
+        ctx,
+        ...(turnChanged && { turnStartSnapshot: structuredClone({ G, ctx }), hasMovedThisTurn: false }),
+        // A rejected prediction leaves undo history that no longer leads here
+        ...(!result.ok && { undoStack: [], redoStack: [] }),
+      };
+    });
+  });
+}
+
+/** Queue a move that could not be sent, behind the moves already queued for the game. */
+function queueOffline(current: AuthoritySession, move: string, args: unknown[]): void {
+  const synced = getSyncedState(current.gameCode);
+  if (!synced?.G.moveLog) {
+    console.error(`[${move}] The move authority is unreachable and game "${current.gameCode}" cannot queue moves`);
+    return;
+  }
+  appendToOfflineQueue(
+    current.gameCode,
+    { move, args, playerID: current.playerID, time: new Date().toISOString() },
+    synced.G.moveLog.length
+  );
+  console.info(`[${move}] The move authority is unreachable; move queued for "${current.gameCode}"`);
+}
@@ -0,0 +1,55 @@
+import { create } from 'zustand';
+import type { ConflictChoice } from '../utils/gameManager';
+import type { MergeConflict } from '../utils/stateMerge';
+import type { RejectedMove } from '../utils/storage/storageAdapter';
+
+/** Conflict store state: the save conflict waiting for the player's choice, if any, and dropped offline moves. */
+export interface ConflictStoreState {
+  /** Moves that conflict with another device's, or null when nothing is waiting. */
+  conflicts: MergeConflict[] | null;
+  /** Show the conflicts and wait for the player to choose which side to keep. */
+  askToResolve: (conflicts: MergeConflict[]) => Promise<ConflictChoice>;
+  /** Answer the waiting conflict. */
+  resolve: (choice: ConflictChoice) => void;
+  /** Moves made offline that no longer applied when they were synced, or null when there are none to show. */
+  rejectedMoves: RejectedMove[] | null;
+  /** Tell the player which of their offline moves were dropped. */
+  reportRejectedMoves: (rejected: RejectedMove[]) => void;
+  /** Close the dropped moves notice. */
+  dismissRejectedMoves: () => void;
+}
+
+/** Settles the promise returned by askToResolve. */
+let settle: ((choice: ConflictChoice) => void) | null = null;
+
+/**
+ * Zustand store for save conflicts (see setSaveConflictHandler in gameManager.ts).
+ * Rendered by SaveConflictDialog.
+ */
+export const useConflictStore = create<ConflictStoreState>((set) => ({
+  conflicts: null,
+
+  askToResolve: (conflicts) => {
+    // A newer conflict replaces one still on screen, which keeps the other device's changes
+    settle?.('theirs');
+    set({ conflicts });
+    return new Promise<ConflictChoice>((resolve) => {
+      settle = resolve;
+    });
+  },
+
+  resolve: (choice) => {
+    settle?.(choice);
+    settle = null;
+    set({ conflicts: null });
+  },
+
+  rejectedMoves: null,
+
+  reportRejectedMoves: (rejected) => {
+    if (rejected.length === 0) return;
+    set((state) => ({ rejectedMoves: [...(state.rejectedMoves ?? []), ...rejected] }));
+  },
+
+  dismissRejectedMoves: () => set({ rejectedMoves: null }),
+}));
@@ -0,0 +1,120 @@
+import { describe, test, expect, beforeEach } from 'vitest';
+import { useGameStore } from './gameStore';
+import { buyExchangeOffice, claimMonopoly, goFirstNextRound, toggleContractFulfilled } from './gameActions';
+import { endTurn } from './events';
+
+function startPlay(numPlayers: number): void {
+  useGameStore.getState().resetState();
+  useGameStore.setState((state) => ({
+    ctx: {
+      ...state.ctx,
+      phase: 'play',
+      numPlayers,
+      playOrder: Array.from({ length: numPlayers }, (_, i) => String(i)),
+      playOrderPos: 0,
+      currentPlayer: '0',
+    },
+  }));
+}
+
+describe('Go first next round', () => {
+  beforeEach(() => startPlay(3));
+
+  test('moves the reserving player to the front when the round ends', () => {
+    endTurn();
+    goFirstNextRound();
+    endTurn();
+    expect(useGameStore.getState().ctx.playOrder).toEqual(['0', '1', '2']);
+
+    endTurn();
+    const { G, ctx } = useGameStore.getState();
+    expect(ctx.playOrder).toEqual(['1', '0', '2']);
+    expect(ctx.currentPlayer).toBe('1');
+    expect(G.goFirstNextRound).toBeNull();
+  });
+
+  test('only one player can reserve first position per round', () => {
+    goFirstNextRound();
+    endTurn();
+    goFirstNextRound();
+
+    expect(useGameStore.getState().G.goFirstNextRound).toBe('0');
+  });
+});
+
+describe('Fulfilling market contracts', () => {
+  beforeEach(() => {
+    startPlay(2);
+    useGameStore.setState((state) => ({
+      G: {
+        ...state.G,
+        contracts: [{
+          id: 'market-1',
+          destinationKey: 'Chicago',
+          commodity: 'coal',
+          type: 'market',
+          playerID: null,
+          fulfilled: false,
+          creationTime: 0,
+          turnsHeld: null,
+        }],
+      },
+    }));
+  });
+
+  const marketContract = () => useGameStore.getState().G.contracts[0];
+
+  test('a player without a Mogul cannot take an unclaimed market contract by fulfilling it', () => {
+    toggleContractFulfilled('market-1');
+    expect(marketContract()).toMatchObject({ fulfilled: false, playerID: null });
+  });
+
+  test('a player with a Mogul takes the market contract by fulfilling it', () => {
+    useGameStore.setState((state) => ({
+      G: {
+        ...state.G,
+        players: state.G.players.map(([id, props]) => [id, id === '0' ? { ...props, engines: ['Mogul'] } : props]),
+      },
+    }));
+    toggleContractFulfilled('market-1');
+    expect(marketContract()).toMatchObject({ fulfilled: true, playerID: '0' });
+  });
+});
+
+describe('Monopolies', () => {
+  beforeEach(() => {
+    startPlay(2);
+    // Player 0 reaches every cattle city
+    const activeCities = ['Kansas City', 'Omaha', 'Thunder Bay', 'Winnipeg'];
+    useGameStore.setState((state) => ({
+      G: {
+        ...state.G,
+        players: state.G.players.map(([id, props]) =>
+          [id, id === '0' ? { ...props, activeCities, cash: 30000 } : props]
+        ),
+      },
+    }));
+  });
+
+  const player = () => useGameStore.getState().G.players[0][1];
+
+  test('a monopoly needs a Commodities Exchange Office dedicated to the commodity', () => {
+    claimMonopoly('cattle');
+    expect(useGameStore.getState().G.monopolies?.cattle).toBeUndefined();
+
+    buyExchangeOffice('cattle');
+    expect(player()).toMatchObject({ exchangeOffice: 'cattle', cash: 10000 });
+
+    claimMonopoly('cattle');
+    expect(useGameStore.getState().G.monopolies?.cattle).toBe('0');
+  });
+
+  test('a player has one exchange office, and only for a commodity that can be monopolized', () => {
+    buyExchangeOffice('aluminum');
+    expect(player().exchangeOffice).toBeUndefined();
+
+    buyExchangeOffice('cattle');
+    buyExchangeOffice('coal');
+    expect(player()).toMatchObject({ exchangeOffice: 'cattle', cash: 10000 });
+  });
+});
@@ -5,10 +5,12 @@
 import { useGameStore } from './gameStore';
 import { executeTurnOnEnd } from './phaseConfig';
 import { getCurrentGameCode, saveGameState } from '../utils/gameManager';
+import { getRandomState } from '../utils/random';
 
 /**
  * End the current player's turn.
- * Advances to the next player, handles round detection, and executes turn hooks.
+ * Advances to the next player, handles round detection, and executes turn hooks. At round end, applies any
+ * "Go first next round" reservation to the play order.
  */
 export function endTurn(): void {
   const state = useGameStore.getState();
@@ -17,19 +19,27 @@ export function endTurn(): void {
   executeTurnOnEnd(ctx.phase, G, ctx);
 
   const nextPlayOrderPos = (ctx.playOrderPos + 1) % ctx.playOrder.length;
-  const nextPlayer = ctx.playOrder[nextPlayOrderPos];
+  // At round end, a player who chose "Go first next round" moves to the front; the others keep their relative order
+  const goesFirst = nextPlayOrderPos === 0 ? G.goFirstNextRound : null;
+  const playOrder = goesFirst
+    ? [goesFirst, ...ctx.playOrder.filter((id) => id !== goesFirst)]
+    : ctx.playOrder;
+  const nextPlayer = playOrder[nextPlayOrderPos];
 
   const nextTurn = nextPlayOrderPos === 0 ? ctx.turn + 1 : ctx.turn;
 
   // Update state immutably; set turn-start snapshot for the next player so they can undo their turn
-  // Note: If turn.onEnd hook mutated G, we need to update G as well
+  // Note: If turn.onEnd hook mutated G, we need to update G as well (including the random generator it drew from)
   useGameStore.setState((currentState) => {
     const newG = {
       ...currentState.G,
       independentRailroads: { ...currentState.G.independentRailroads },
+      ...(goesFirst && { goFirstNextRound: null }),
+      ...(currentState.G.seed != null && { rngState: getRandomState() }),
     };
     const newCtx = {
       ...ctx,
+      playOrder,
       currentPlayer: nextPlayer,
       playOrderPos: nextPlayOrderPos,
       turn: nextTurn,
@@ -18,11 +18,79 @@ import {
 import type { Contract } from '../Contract';
 import { endTurn as endTurnEvent } from './events';
 import { checkPhaseTransition } from './phaseManager';
-import { routes, cities } from '../data';
+import { routes, cities, engines, upgrades } from '../data';
+import {
+  BANKRUPTCY_PENALTY,
+  connectedIndependentRailroad,
+  declareBankruptcy,
+  isAuctionOver,
+  minimumBid,
+  openAuction,
+  passBid,
+  placeBid,
+  saleTarget,
+  trackValue,
+  type TrackAuction,
+} from '../bankruptcy';
+import { isConnectionComplete } from '../connectionBonuses';
+import { canReachIndependentRailroad, independentRailroadPrice } from '../independentRailroads';
+import { coversAllSuppliers, EXCHANGE_OFFICE_COST, monopolyTerms } from '../monopolies';
+import { railyardOwner } from '../railyards';
+import { regionalOfficeUnavailableReason } from '../regionalOffices';
+import {
+  DEBT_FLOOR,
+  LOAN_INCREMENT,
+  REPAY_AMOUNTS,
+  playerFinances,
+  recordTransaction,
+  reverseContractTransactions,
+  settleDelivery,
+} from '../finances';
+import {
+  MAX_ENGINES,
+  STARTING_ENGINE,
+  bestEngineLevel,
+  canClaimMarketContracts,
+  isUpgradeAvailable,
+  marketContractsLockedReason,
+  marketContractsOpen,
+  playerEngines,
+  playerUpgrades,
+  tradeInValue,
+} from '../engines';
+import {
+  isValidStartingRouteRanking,
+  resolveStartingRoutes,
+  startingTrack,
+  STARTING_ROUTE_RANKS,
+  type StartingRoute,
+} from '../startingRoutes';
+import {
+  activeCitiesWithTrack,
+  activeCitiesWithoutTrack,
+  isSameTrack,
+  playerTrack,
+  segmentsBuiltThisTurn,
+  trackCostForPlayer,
+  trackLabel,
+  trackSegmentsPerTurn,
+  tracksOnRoute,
+  type OwnedTrack,
+} from '../track';
+import { westCoastDeliveriesAfterToggle } from '../westCoast';
+import { appendPendingMove } from './moveLog';
 import { getCurrentGameCode, saveGameState } from '../utils/gameManager';
+import { getRandomState } from '../utils/random';
 
 /** Save game state to storage after moves. Fire-and-forget: does not block UI; errors are logged, not thrown. */
 function saveCurrentGameState(): void {
+  // Record where the move left the random generator (seeded games only; see withGameRandom in moves.ts)
+  if (useGameStore.getState().G.seed != null) {
+    useGameStore.setState((state) => ({ G: { ...state.G, rngState: getRandomState() } }));
+  }
+  // Log the move that is saving (see beginMove in moveLog.ts)
+  useGameStore.setState((state) => ({ G: appendPendingMove(state.G) }));
+
   const code = getCurrentGameCode();
   if (code) {
     const { G, ctx } = useGameStore.getState();
@@ -87,6 +155,83 @@ export function generateStartingContract(
   endTurnEvent();
 }
 
+export function rankStartingRoutes(ranking: StartingRoute[], playerID?: string): void {
+  const { G, ctx } = useGameStore.getState();
+
+  if (!isMoveAllowed('rankStartingRoutes', ctx)) {
+    console.warn('[rankStartingRoutes] Move not allowed in current phase');
+    return;
+  }
+
+  // BYOD seats rank in parallel and pass their own ID; hot-seat players rank on their turn
+  const rankingPlayerID = playerID || ctx.currentPlayer;
+  if (!ctx.playOrder.includes(rankingPlayerID) || !G.players.some(([id]) => id === rankingPlayerID)) {
+    console.error(`[rankStartingRoutes] Player "${rankingPlayerID}" does not have a seat in this game`);
+    return;
+  }
+
+  if (!isValidStartingRouteRanking(ranking)) {
+    console.error(`[rankStartingRoutes] ranking must be ${STARTING_ROUTE_RANKS} different starting routes`);
+    return;
+  }
+
+  const preferences = {
+    ...(G.startingRoutePreferences ?? {}),
+    [rankingPlayerID]: ranking.map(([a, b]) => [a, b] as StartingRoute),
+  };
+  const allRanked = G.players.every(([id]) => preferences[id] != null);
+
+  if (!allRanked) {
+    useGameStore.setState((state) => ({
+      G: { ...state.G, startingRoutePreferences: preferences },
+    }));
+    saveCurrentGameState();
+    // Pass the device to the next hot-seat player; endTurnEvent() saves state internally
+    if (rankingPlayerID === ctx.currentPlayer) endTurnEvent();
+    return;
+  }
+
+  const startingRoutes = resolveStartingRoutes(preferences, ctx.playOrder);
+  const players = G.players.map(([id, props]): [string, PlayerProps] => [
+    id,
+    { ...props, activeCities: [...startingRoutes[id]], track: startingTrack(startingRoutes[id]) },
+  ]);
+  const startingContracts: Contract[] = [];
+  for (const [id] of G.players) {
+    const contract = generateStartingContractContract(
+      { ...G, players, contracts: [...startingContracts, ...G.contracts] },
+      startingRoutes[id],
+      id
+    );
+    if (!contract) {
+      console.error(`[rankStartingRoutes] Starting contract generation failed for player ${id}`);
+      return;
+    }
+    startingContracts.unshift(contract);
+  }
+
+  // Play starts with the first player in play order, as it did when players chose routes in turn
+  useGameStore.setState((state) => ({
+    G: {
+      ...state.G,
+      startingRoutePreferences: preferences,
+      players,
+      contracts: [...startingContracts, ...state.G.contracts],
+    },
+    ctx: {
+      ...state.ctx,
+      currentPlayer: state.ctx.playOrder[0],
+      playOrderPos: 0,
+      turn: state.ctx.turn + 1,
+    },
+  }));
+
+  const updatedState = useGameStore.getState();
+  checkPhaseTransition(updatedState.G, updatedState.ctx);
+
+  saveCurrentGameState();
+}
+
 export function generatePrivateContract(): void {
   const { G, ctx } = useGameStore.getState();
 
@@ -114,14 +259,8 @@ export function generatePrivateContract(): void {
   saveCurrentGameState();
 }
 
-export function generateMarketContract(): void {
-  const { G, ctx } = useGameStore.getState();
-
-  if (!isMoveAllowed('generateMarketContract', ctx)) {
-    console.warn('[generateMarketContract] Move not allowed in current phase');
-    return;
-  }
-
+/** Draw a market contract that does not duplicate an active contract; logs and returns undefined on failure. */
+function drawMarketContract(G: GameState): Contract | undefined {
   const activeContractKeys = new Set(
     G.contracts
       .filter((c) => !c.fulfilled)
@@ -134,8 +273,8 @@ export function generateMarketContract(): void {
   for (let attempts = 0; attempts < maxAttempts; attempts++) {
     const candidate = generateMarketContractContract(G);
     if (!candidate) {
-      console.error('[generateMarketContract] Contract generation failed');
-      return;
+      console.error('[drawMarketContract] Contract generation failed');
+      return undefined;
     }
     const key = `${candidate.commodity}|${candidate.destinationKey}`;
     if (!activeContractKeys.has(key)) {
@@ -146,11 +285,28 @@ export function generateMarketContract(): void {
 
   if (!contract) {
     console.error(
-      '[generateMarketContract] Failed to generate a market contract that does not duplicate an active contract after 50 attempts'
+      '[drawMarketContract] Failed to generate a market contract that does not duplicate an active contract after 50 attempts'
     );
+  }
+  return contract;
+}
+
+export function generateMarketContract(): void {
+  const { G, ctx } = useGameStore.getState();
+
+  if (!isMoveAllowed('generateMarketContract', ctx)) {
+    console.warn('[generateMarketContract] Move not allowed in current phase');
     return;
   }
 
+  if (!marketContractsOpen(G)) {
+    console.warn('[generateMarketContract] Market contracts are not created until a player can claim one');
+    return;
+  }
+
+  const contract = drawMarketContract(G);
+  if (!contract) return;
+
   useGameStore.setState((state) => ({
     G: {
       ...state.G,
@@ -196,6 +352,12 @@ export function claimMarketContract(contractID: string): void {
     return;
   }
 
+  const currentPlayerEntry = G.players.find(([id]) => id === ctx.currentPlayer);
+  if (!currentPlayerEntry || !canClaimMarketContracts(currentPlayerEntry[1])) {
+    console.warn(`[claimMarketContract] Player ${ctx.currentPlayer} cannot claim market contracts: ${marketContractsLockedReason()}`);
+    return;
+  }
+
   useGameStore.setState((state) => {
     const updatedContracts = state.G.contracts.map((c) =>
       c.id === contractID ? { ...c, playerID: ctx.currentPlayer, turnsHeld: 1 } as Contract : c
@@ -326,6 +488,16 @@ export function toggleContractFulfilled(contractID: string): void {
     return;
   }
 
+  // Fulfilling an unclaimed market contract takes it, which needs a Mogul or better as in claimMarketContract
+  const currentPlayerProps = G.players.find(([id]) => id === ctx.currentPlayer)?.[1];
+  if (contract.type === 'market' && contract.playerID == null &&
+      (!currentPlayerProps || !canClaimMarketContracts(currentPlayerProps))) {
+    console.warn(
+      `[toggleContractFulfilled] Player ${ctx.currentPlayer} cannot take market contracts: ${marketContractsLockedReason()}`
+    );
+    return;
+  }
+
   useGameStore.setState((state) => {
     const updatedContract: Contract = {
       ...contract,
@@ -354,6 +526,11 @@ export function toggleContractFulfilled(contractID: string): void {
     const [, playerProps] = currentPlayerEntry;
     let updatedActiveCities = [...playerProps.activeCities];
 
+    // Collect payment and debt service on delivery; undo both if the contract is unfulfilled
+    const settledPlayerProps = updatedContract.fulfilled
+      ? settleDelivery(state.G, ctx, ctx.currentPlayer, playerProps, updatedContract)
+      : reverseContractTransactions(playerProps, ctx, contractID);
+
     if (updatedContract.fulfilled) {
       if (!updatedActiveCities.includes(updatedContract.destinationKey)) {
         updatedActiveCities = [...updatedActiveCities, updatedContract.destinationKey];
@@ -376,9 +553,17 @@ export function toggleContractFulfilled(contractID: string): void {
       }
     }
 
+    // A player who cannot pay debt service goes bankrupt; the bankruptcy phase takes over after this move
+    const { cash } = playerFinances(settledPlayerProps);
+    const bankrupt = updatedContract.fulfilled && cash < 0;
+
     const updatedPlayers = state.G.players.map(([id, props]) =>
       id === ctx.currentPlayer
-        ? [id, { ...props, activeCities: updatedActiveCities }]
+        ? [id, {
+            ...settledPlayerProps,
+            activeCities: updatedActiveCities,
+            ...(bankrupt && { bankruptcies: (settledPlayerProps.bankruptcies ?? 0) + 1 }),
+          }]
         : [id, props]
     );
 
@@ -387,6 +572,9 @@ export function toggleContractFulfilled(contractID: string): void {
         ...state.G,
         contracts: updatedContracts,
         players: updatedPlayers,
+        // Delivery order decides who earns the first West Coast bonus; unfulfilling drops the contract from it
+        westCoastDeliveries: westCoastDeliveriesAfterToggle(state.G, updatedContract),
+        ...(bankrupt && { bankruptcy: declareBankruptcy(ctx.currentPlayer, -cash) }),
       },
     } as Partial<GameStoreState>;
   });
@@ -458,6 +646,22 @@ export function acquireIndependentRailroad(railroadName: string): void {
     return;
   }
 
+  const buyer = G.players.find(([id]) => id === ctx.currentPlayer)?.[1];
+  if (buyer && !canReachIndependentRailroad(buyer, railroad)) {
+    console.warn(
+      `[acquireIndependentRailroad] ${railroad.name} does not touch player ${ctx.currentPlayer}'s network`
+    );
+    return;
+  }
+
+  const price = independentRailroadPrice(G, railroad);
+  if (buyer && playerFinances(buyer).cash < price) {
+    console.warn(
+      `[acquireIndependentRailroad] Player ${ctx.currentPlayer} does not have $${price.toLocaleString()} in cash`
+    );
+    return;
+  }
+
   // Collect all cities in this railroad from its routes
   const citiesInRailroad = new Set<string>();
   railroad.routes.forEach((routeEntry) => {
@@ -485,7 +689,15 @@ export function acquireIndependentRailroad(railroadName: string): void {
 
     const updatedPlayers: [string, PlayerProps][] = state.G.players.map(([id, props]) =>
       id === ctx.currentPlayer
-        ? [id, { ...props, activeCities: updatedActiveCities }]
+        ? [id, {
+            ...recordTransaction(props, ctx, {
+              kind: 'purchase',
+              cash: -price,
+              debt: 0,
+              description: `Acquired ${railroad.name}`,
+            }),
+            activeCities: updatedActiveCities,
+          }]
         : [id, props]
     );
 
@@ -608,13 +820,9 @@ export function claimRegionalOffice(regionCode: string): boolean {
     return false; // no-op: already has a regional office
   }
 
-  const regionTaken = G.players.some(
-    ([id, p]) => id !== ctx.currentPlayer && p.regionalOffice === regionCode
-  );
-  if (regionTaken) {
-    console.warn(
-      `[claimRegionalOffice] Region "${regionCode}" is already claimed by another player`
-    );
+  const unavailableReason = regionalOfficeUnavailableReason(G, ctx.currentPlayer, regionCode);
+  if (unavailableReason) {
+    console.warn(`[claimRegionalOffice] Cannot build a Regional Office in "${regionCode}": ${unavailableReason}`);
     return false;
   }
 
@@ -637,6 +845,812 @@ export function claimRegionalOffice(regionCode: string): boolean {
   return true;
 }
 
+export function claimConnectionBonus(bonusID: string): void {
+  const { G, ctx } = useGameStore.getState();
+
+  if (!isMoveAllowed('claimConnectionBonus', ctx)) {
+    console.warn('[claimConnectionBonus] Move not allowed in current phase');
+    return;
+  }
+
+  const bonus = (G.connectionBonuses ?? []).find((b) => b.id === bonusID);
+  if (!bonus) {
+    console.error(`[claimConnectionBonus] Connection bonus "${bonusID}" not found`);
+    return;
+  }
+
+  if (bonus.claimedBy !== null) {
+    console.warn(`[claimConnectionBonus] "${bonus.label}" was already claimed by player ${bonus.claimedBy}`);
+    return;
+  }
+
+  const currentPlayerEntry = G.players.find(([id]) => id === ctx.currentPlayer);
+  if (!currentPlayerEntry) {
+    console.error(`[claimConnectionBonus] Current player "${ctx.currentPlayer}" not found`);
+    return;
+  }
+
+  if (!isConnectionComplete(bonus, currentPlayerEntry[1].activeCities)) {
+    console.error(`[claimConnectionBonus] Player ${ctx.currentPlayer} has not connected ${bonus.label}`);
+    return;
+  }
+
+  useGameStore.setState((state) => ({
+    G: {
+      ...state.G,
+      connectionBonuses: (state.G.connectionBonuses ?? []).map((b) =>
+        b.id === bonusID ? { ...b, claimedBy: ctx.currentPlayer } : b
+      ),
+    },
+  }));
+
+  const updatedState = useGameStore.getState();
+  checkPhaseTransition(updatedState.G, updatedState.ctx);
+
+  markMovedThisTurn();
+  saveCurrentGameState();
+}
+
+export function buyExchangeOffice(commodity: string): void {
+  const { G, ctx } = useGameStore.getState();
+
+  if (!isMoveAllowed('buyExchangeOffice', ctx)) {
+    console.warn('[buyExchangeOffice] Move not allowed in current phase');
+    return;
+  }
+
+  if (!monopolyTerms(commodity)) {
+    console.error(`[buyExchangeOffice] "${commodity}" cannot be monopolized`);
+    return;
+  }
+
+  const currentPlayerEntry = G.players.find(([id]) => id === ctx.currentPlayer);
+  if (!currentPlayerEntry) {
+    console.error(`[buyExchangeOffice] Current player "${ctx.currentPlayer}" not found`);
+    return;
+  }
+
+  const playerProps = currentPlayerEntry[1];
+  if (playerProps.exchangeOffice != null) {
+    console.warn(`[buyExchangeOffice] Player ${ctx.currentPlayer} already has one for ${playerProps.exchangeOffice}`);
+    return;
+  }
+  if (playerFinances(playerProps).cash < EXCHANGE_OFFICE_COST) {
+    console.warn(
+      `[buyExchangeOffice] Player ${ctx.currentPlayer} does not have $${EXCHANGE_OFFICE_COST.toLocaleString()} in cash`
+    );
+    return;
+  }
+
+  useGameStore.setState((state) => ({
+    G: {
+      ...state.G,
+      players: state.G.players.map(([id, props]) =>
+        id === ctx.currentPlayer
+          ? [id, {
+              ...recordTransaction(props, ctx, {
+                kind: 'purchase',
+                cash: -EXCHANGE_OFFICE_COST,
+                debt: 0,
+                description: `Bought Commodities Exchange Office (${commodity})`,
+              }),
+              exchangeOffice: commodity,
+            }]
+          : [id, props]
+      ),
+    },
+  }));
+
+  const updatedState = useGameStore.getState();
+  checkPhaseTransition(updatedState.G, updatedState.ctx);
+
+  markMovedThisTurn();
+  saveCurrentGameState();
+}
+
+export function claimMonopoly(commodity: string): void {
+  const { G, ctx } = useGameStore.getState();
+
+  if (!isMoveAllowed('claimMonopoly', ctx)) {
+    console.warn('[claimMonopoly] Move not allowed in current phase');
+    return;
+  }
+
+  if (!monopolyTerms(commodity)) {
+    console.error(`[claimMonopoly] "${commodity}" cannot be monopolized`);
+    return;
+  }
+
+  const ownerID = G.monopolies?.[commodity];
+  if (ownerID != null) {
+    console.warn(`[claimMonopoly] Player ${ownerID} already has a monopoly in ${commodity}`);
+    return;
+  }
+
+  const currentPlayerEntry = G.players.find(([id]) => id === ctx.currentPlayer);
+  if (!currentPlayerEntry) {
+    console.error(`[claimMonopoly] Current player "${ctx.currentPlayer}" not found`);
+    return;
+  }
+
+  if (currentPlayerEntry[1].exchangeOffice !== commodity) {
+    console.warn(`[claimMonopoly] Player ${ctx.currentPlayer} has no Commodities Exchange Office for ${commodity}`);
+    return;
+  }
+
+  if (!coversAllSuppliers(commodity, currentPlayerEntry[1].activeCities)) {
+    console.error(`[claimMonopoly] Player ${ctx.currentPlayer} is not connected to every city supplying ${commodity}`);
+    return;
+  }
+
+  useGameStore.setState((state) => ({
+    G: {
+      ...state.G,
+      monopolies: { ...state.G.monopolies, [commodity]: ctx.currentPlayer },
+    },
+  }));
+
+  const updatedState = useGameStore.getState();
+  checkPhaseTransition(updatedState.G, updatedState.ctx);
+
+  markMovedThisTurn();
+  saveCurrentGameState();
+}
+
+export function goFirstNextRound(): void {
+  const { G, ctx } = useGameStore.getState();
+
+  if (!isMoveAllowed('goFirstNextRound', ctx)) {
+    console.warn('[goFirstNextRound] Move not allowed in current phase');
+    return;
+  }
+
+  if (G.goFirstNextRound != null) {
+    console.warn(`[goFirstNextRound] Player ${G.goFirstNextRound} has already chosen to go first next round`);
+    return;
+  }
+
+  useGameStore.setState((state) => ({
+    G: { ...state.G, goFirstNextRound: ctx.currentPlayer },
+  }));
+
+  const updatedState = useGameStore.getState();
+  checkPhaseTransition(updatedState.G, updatedState.ctx);
+
+  markMovedThisTurn();
+  saveCurrentGameState();
+}
+
+export function borrowMoney(amount: number): void {
+  const { G, ctx } = useGameStore.getState();
+
+  if (!isMoveAllowed('borrowMoney', ctx)) {
+    console.warn('[borrowMoney] Move not allowed in current phase');
+    return;
+  }
+
+  if (!Number.isInteger(amount) || amount <= 0 || amount % LOAN_INCREMENT !== 0) {
+    console.error(`[borrowMoney] amount must be a positive multiple of ${LOAN_INCREMENT}`);
+    return;
+  }
+
+  if (!G.players.some(([id]) => id === ctx.currentPlayer)) {
+    console.error(`[borrowMoney] Current player "${ctx.currentPlayer}" not found`);
+    return;
+  }
+
+  useGameStore.setState((state) => ({
+    G: {
+      ...state.G,
+      players: state.G.players.map(([id, props]) =>
+        id === ctx.currentPlayer
+          ? [id, recordTransaction(props, ctx, {
+              kind: 'borrow',
+              cash: amount,
+              debt: amount,
+              description: `Borrowed $${amount.toLocaleString()}`,
+            })]
+          : [id, props]
+      ),
+    },
+  }));
+
+  const updatedState = useGameStore.getState();
+  checkPhaseTransition(updatedState.G, updatedState.ctx);
+
+  markMovedThisTurn();
+  saveCurrentGameState();
+}
+
+export function repayDebt(amount: number): void {
+  const { G, ctx } = useGameStore.getState();
+
+  if (!isMoveAllowed('repayDebt', ctx)) {
+    console.warn('[repayDebt] Move not allowed in current phase');
+    return;
+  }
+
+  if (!REPAY_AMOUNTS.includes(amount)) {
+    console.error(`[repayDebt] amount must be one of: ${REPAY_AMOUNTS.join(', ')}`);
+    return;
+  }
+
+  const currentPlayerEntry = G.players.find(([id]) => id === ctx.currentPlayer);
+  if (!currentPlayerEntry) {
+    console.error(`[repayDebt] Current player "${ctx.currentPlayer}" not found`);
+    return;
+  }
+
+  const { cash, debt } = playerFinances(currentPlayerEntry[1]);
+  if (debt - amount < DEBT_FLOOR) {
+    console.warn(`[repayDebt] Debt cannot be reduced below $${DEBT_FLOOR.toLocaleString()}`);
+    return;
+  }
+  if (cash < amount) {
+    console.warn(`[repayDebt] Player ${ctx.currentPlayer} does not have $${amount.toLocaleString()} in cash`);
+    return;
+  }
+
+  useGameStore.setState((state) => ({
+    G: {
+      ...state.G,
+      players: state.G.players.map(([id, props]) =>
+        id === ctx.currentPlayer
+          ? [id, recordTransaction(props, ctx, {
+              kind: 'repay',
+              cash: -amount,
+              debt: -amount,
+              description: `Repaid $${amount.toLocaleString()}`,
+            })]
+          : [id, props]
+      ),
+    },
+  }));
+
+  const updatedState = useGameStore.getState();
+  checkPhaseTransition(updatedState.G, updatedState.ctx);
+
+  markMovedThisTurn();
+  saveCurrentGameState();
+}
+
+export function buyEngine(engineKey: string, replaceKey?: string): void {
+  const { G, ctx } = useGameStore.getState();
+
+  if (!isMoveAllowed('buyEngine', ctx)) {
+    console.warn('[buyEngine] Move not allowed in current phase');
+    return;
+  }
+
+  const engine = engines.get(engineKey);
+  if (!engine) {
+    console.error(`[buyEngine] "${engineKey}" is not an engine`);
+    return;
+  }
+
+  const currentPlayerEntry = G.players.find(([id]) => id === ctx.currentPlayer);
+  if (!currentPlayerEntry) {
+    console.error(`[buyEngine] Current player "${ctx.currentPlayer}" not found`);
+    return;
+  }
+
+  const playerProps = currentPlayerEntry[1];
+  const owned = playerEngines(playerProps);
+  if (engine.level !== bestEngineLevel(playerProps) + 1) {
+    console.warn(`[buyEngine] Can only buy an engine one level higher than your best (${engineKey} is level ${engine.level})`);
+    return;
+  }
+
+  // The John Bull must be traded in (for nothing) when buying the American
+  const replaced = owned.includes(STARTING_ENGINE) ? STARTING_ENGINE : replaceKey;
+  if (replaced !== undefined && !owned.includes(replaced)) {
+    console.error(`[buyEngine] Player ${ctx.currentPlayer} does not own "${replaced}"`);
+    return;
+  }
+  if (replaced === undefined && owned.length >= MAX_ENGINES) {
+    console.warn(`[buyEngine] Already own ${MAX_ENGINES} engines; choose one to trade in`);
+    return;
+  }
+
+  const tradeIn = replaced ? tradeInValue(replaced) : 0;
+  const price = engine.cost - tradeIn;
+  if (playerFinances(playerProps).cash < price) {
+    console.warn(`[buyEngine] Player ${ctx.currentPlayer} does not have $${price.toLocaleString()} in cash`);
+    return;
+  }
+
+  const marketWasOpen = marketContractsOpen(G);
+  const remaining = [...owned];
+  if (replaced) remaining.splice(remaining.indexOf(replaced), 1);
+  const description = replaced
+    ? `Bought ${engineKey}, traded in ${replaced} for $${tradeIn.toLocaleString()}`
+    : `Bought ${engineKey}`;
+
+  const players: GameState['players'] = G.players.map(([id, props]) =>
+    id === ctx.currentPlayer
+      ? [id, {
+          ...recordTransaction(props, ctx, { kind: 'purchase', cash: -price, debt: 0, description }),
+          engines: [...remaining, engineKey],
+        }]
+      : [id, props]
+  );
+  // The first market contract was deferred until a player could claim it; it arrives with this purchase
+  const purchased = { ...G, players };
+  const marketContract = !marketWasOpen && marketContractsOpen(purchased) ? drawMarketContract(purchased) : undefined;
+
+  useGameStore.setState((state) => ({
+    G: {
+      ...state.G,
+      players,
+      contracts: marketContract ? [marketContract, ...state.G.contracts] : state.G.contracts,
+    },
+  }));
+
+  const updatedState = useGameStore.getState();
+  checkPhaseTransition(updatedState.G, updatedState.ctx);
+
+  markMovedThisTurn();
+  saveCurrentGameState();
+}
+
+export function buyUpgrade(upgradeKey: string): void {
+  const { G, ctx } = useGameStore.getState();
+
+  if (!isMoveAllowed('buyUpgrade', ctx)) {
+    console.warn('[buyUpgrade] Move not allowed in current phase');
+    return;
+  }
+
+  const upgrade = upgrades.get(upgradeKey);
+  if (!upgrade) {
+    console.error(`[buyUpgrade] "${upgradeKey}" is not an upgrade`);
+    return;
+  }
+
+  const currentPlayerEntry = G.players.find(([id]) => id === ctx.currentPlayer);
+  if (!currentPlayerEntry) {
+    console.error(`[buyUpgrade] Current player "${ctx.currentPlayer}" not found`);
+    return;
+  }
+
+  const playerProps = currentPlayerEntry[1];
+  if (playerUpgrades(playerProps).includes(upgradeKey)) {
+    console.warn(`[buyUpgrade] Player ${ctx.currentPlayer} already owns ${upgradeKey}`);
+    return;
+  }
+  if (!isUpgradeAvailable(G, upgradeKey)) {
+    console.warn(`[buyUpgrade] ${upgradeKey} is not available until a player buys a ${upgrade.requiresEngine}`);
+    return;
+  }
+  if (playerFinances(playerProps).cash < upgrade.cost) {
+    console.warn(`[buyUpgrade] Player ${ctx.currentPlayer} does not have $${upgrade.cost.toLocaleString()} in cash`);
+    return;
+  }
+
+  useGameStore.setState((state) => ({
+    G: {
+      ...state.G,
+      players: state.G.players.map(([id, props]) =>
+        id === ctx.currentPlayer
+          ? [id, {
+              ...recordTransaction(props, ctx, {
+                kind: 'purchase',
+                cash: -upgrade.cost,
+                debt: 0,
+                description: `Bought ${upgradeKey}`,
+              }),
+              upgrades: [...playerUpgrades(props), upgradeKey],
+            }]
+          : [id, props]
+      ),
+    },
+  }));
+
+  const updatedState = useGameStore.getState();
+  checkPhaseTransition(updatedState.G, updatedState.ctx);
+
+  markMovedThisTurn();
+  saveCurrentGameState();
+}
+
+export function placeRailyard(cityKey: string): void {
+  const { G, ctx } = useGameStore.getState();
+
+  if (!isMoveAllowed('placeRailyard', ctx)) {
+    console.warn('[placeRailyard] Move not allowed in current phase');
+    return;
+  }
+
+  if (!cities.get(cityKey)) {
+    console.error(`[placeRailyard] City "${cityKey}" not found`);
+    return;
+  }
+
+  const currentPlayerEntry = G.players.find(([id]) => id === ctx.currentPlayer);
+  if (!currentPlayerEntry) {
+    console.error(`[placeRailyard] Current player "${ctx.currentPlayer}" not found`);
+    return;
+  }
+
+  const playerProps = currentPlayerEntry[1];
+  if (!playerUpgrades(playerProps).includes('Railyard')) {
+    console.warn(`[placeRailyard] Player ${ctx.currentPlayer} has not bought a Railyard`);
+    return;
+  }
+  if (playerProps.railyard) {
+    console.warn(`[placeRailyard] Player ${ctx.currentPlayer} already has a railyard in ${playerProps.railyard}`);
+    return;
+  }
+  if (!playerProps.activeCities.includes(cityKey)) {
+    console.warn(`[placeRailyard] ${cityKey} is not connected to player ${ctx.currentPlayer}'s network`);
+    return;
+  }
+  if (railyardOwner(G, cityKey) !== undefined) {
+    console.warn(`[placeRailyard] ${cityKey} already has a railyard`);
+    return;
+  }
+
+  useGameStore.setState((state) => ({
+    G: {
+      ...state.G,
+      players: state.G.players.map(([id, props]) =>
+        id === ctx.currentPlayer ? [id, { ...props, railyard: cityKey }] : [id, props]
+      ),
+    },
+  }));
+
+  const updatedState = useGameStore.getState();
+  checkPhaseTransition(updatedState.G, updatedState.ctx);
+
+  markMovedThisTurn();
+  saveCurrentGameState();
+}
+
+export function buildTrack(routeKey: string, parallel = false): void {
+  const { G, ctx } = useGameStore.getState();
+
+  if (!isMoveAllowed('buildTrack', ctx)) {
+    console.warn('[buildTrack] Move not allowed in current phase');
+    return;
+  }
+
+  const route = routes.get(routeKey);
+  if (!route) {
+    console.error(`[buildTrack] Route "${routeKey}" not found`);
+    return;
+  }
+
+  const currentPlayerEntry = G.players.find(([id]) => id === ctx.currentPlayer);
+  if (!currentPlayerEntry) {
+    console.error(`[buildTrack] Current player "${ctx.currentPlayer}" not found`);
+    return;
+  }
+
+  const playerProps = currentPlayerEntry[1];
+  if (playerTrack(playerProps).some((t) => t.routeKey === routeKey)) {
+    console.warn(`[buildTrack] Player ${ctx.currentPlayer} already has track on ${routeKey}`);
+    return;
+  }
+  if (!route.cities.some((city) => playerProps.activeCities.includes(city))) {
+    console.warn(`[buildTrack] ${routeKey} does not connect to player ${ctx.currentPlayer}'s network`);
+    return;
+  }
+
+  // The first track on a route is regular track; the second is parallel track; there is no third
+  const tracks = tracksOnRoute(G, routeKey);
+  if (tracks >= 2) {
+    console.warn(`[buildTrack] ${routeKey} already has parallel track`);
+    return;
+  }
+  if (parallel !== tracks > 0) {
+    console.warn(`[buildTrack] New track on ${routeKey} ${tracks > 0 ? 'must' : 'cannot'} be parallel`);
+    return;
+  }
+
+  const limit = trackSegmentsPerTurn(playerProps);
+  if (segmentsBuiltThisTurn(playerProps, ctx) >= limit) {
+    console.warn(`[buildTrack] Player ${ctx.currentPlayer} has already built ${limit} segments this turn`);
+    return;
+  }
+
+  const cost = trackCostForPlayer(playerProps, routeKey, parallel);
+  if (playerFinances(playerProps).cash < cost) {
+    console.warn(`[buildTrack] Player ${ctx.currentPlayer} does not have $${cost.toLocaleString()} in cash`);
+    return;
+  }
+
+  const segment: OwnedTrack = { routeKey, parallel };
+  const track = [...playerTrack(playerProps), segment];
+
+  useGameStore.setState((state) => ({
+    G: {
+      ...state.G,
+      players: state.G.players.map(([id, props]) =>
+        id === ctx.currentPlayer
+          ? [id, {
+              ...recordTransaction(props, ctx, {
+                kind: 'build',
+                cash: -cost,
+                debt: 0,
+                description: `Built ${trackLabel(segment)}`,
+              }),
+              track,
+              activeCities: activeCitiesWithTrack(props.activeCities, track),
+            }]
+          : [id, props]
+      ),
+    },
+  }));
+
+  const updatedState = useGameStore.getState();
+  checkPhaseTransition(updatedState.G, updatedState.ctx);
+
+  markMovedThisTurn();
+  saveCurrentGameState();
+}
+
+export function sellTrackForBankruptcy(segments: OwnedTrack[], playerID?: string): void {
+  const { G, ctx } = useGameStore.getState();
+
+  if (!isMoveAllowed('sellTrackForBankruptcy', ctx)) {
+    console.warn('[sellTrackForBankruptcy] Move not allowed in current phase');
+    return;
+  }
+
+  const bankruptcy = G.bankruptcy;
+  if (!bankruptcy || bankruptcy.stage !== 'selling') {
+    console.warn('[sellTrackForBankruptcy] No bankrupt player is selling track');
+    return;
+  }
+  if (playerID && playerID !== bankruptcy.playerID) {
+    console.warn(`[sellTrackForBankruptcy] Only player ${bankruptcy.playerID} sells track`);
+    return;
+  }
+
+  const playerEntry = G.players.find(([id]) => id === bankruptcy.playerID);
+  if (!playerEntry) {
+    console.error(`[sellTrackForBankruptcy] Player "${bankruptcy.playerID}" not found`);
+    return;
+  }
+
+  const owned = playerTrack(playerEntry[1]);
+  if (!Array.isArray(segments) || !segments.every((segment) => owned.some((t) => isSameTrack(t, segment)))) {
+    console.error('[sellTrackForBankruptcy] Can only sell track the player owns');
+    return;
+  }
+  if (segments.some((segment, i) => segments.findIndex((t) => isSameTrack(t, segment)) !== i)) {
+    console.error('[sellTrackForBankruptcy] Each segment can only be sold once');
+    return;
+  }
+
+  // The player must raise the target, unless selling everything they own still falls short
+  const proceeds = trackValue(segments);
+  const target = saleTarget(bankruptcy);
+  if (proceeds < target && segments.length < owned.length) {
+    console.warn(`[sellTrackForBankruptcy] Must sell at least $${target.toLocaleString()} of track`);
+    return;
+  }
+
+  const remaining = owned.filter((t) => !segments.some((segment) => isSameTrack(t, segment)));
+  // Delivery destinations, the hub and the railyard stay active without track
+  const held = [
+    ...G.contracts
+      .filter((c) => c.playerID === bankruptcy.playerID && c.fulfilled)
+      .map((c) => c.destinationKey),
+    ...[playerEntry[1].hubCity, playerEntry[1].railyard].filter((city): city is string => !!city),
+  ];
+  let seller: PlayerProps = {
+    ...playerEntry[1],
+    track: remaining,
+    activeCities: activeCitiesWithoutTrack(playerEntry[1].activeCities, segments, remaining, held),
+  };
+  if (proceeds > 0) {
+    seller = recordTransaction(seller, ctx, {
+      kind: 'sale',
+      cash: proceeds,
+      debt: 0,
+      description: `Sold ${segments.map(trackLabel).join(', ')} to the bank`,
+    });
+  }
+  seller = recordTransaction(seller, ctx, {
+    kind: 'bankruptcy',
+    cash: -BANKRUPTCY_PENALTY,
+    debt: 0,
+    description: 'Bankruptcy penalty',
+  });
+  // Whatever the sale could not cover is added to the player's debt
+  const { cash } = playerFinances(seller);
+  if (cash < 0) {
+    seller = recordTransaction(seller, ctx, {
+      kind: 'bankruptcy',
+      cash: -cash,
+      debt: -cash,
+      description: 'Unpaid shortfall added to debt',
+    });
+  }
+
+  const forSale = segments.map(({ routeKey, parallel }) => ({ routeKey, parallel }));
+  const nextBankruptcy =
+    forSale.length > 0
+      ? { ...bankruptcy, stage: 'auction' as const, forSale, auction: openAuction(bankruptcy, ctx.playOrder) }
+      : null;
+
+  useGameStore.setState((state) => ({
+    G: {
+      ...state.G,
+      bankruptcy: nextBankruptcy,
+      players: state.G.players.map(([id, props]) =>
+        id === bankruptcy.playerID ? [id, seller] : [id, props]
+      ),
+    },
+  }));
+
+  const updatedState = useGameStore.getState();
+  checkPhaseTransition(updatedState.G, updatedState.ctx);
+
+  saveCurrentGameState();
+}
+
+export function chooseAuctionSegment(segmentIndex: number, playerID?: string): void {
+  const { G, ctx } = useGameStore.getState();
+
+  if (!isMoveAllowed('chooseAuctionSegment', ctx)) {
+    console.warn('[chooseAuctionSegment] Move not allowed in current phase');
+    return;
+  }
+
+  const bankruptcy = G.bankruptcy;
+  const auction = bankruptcy?.auction;
+  if (!bankruptcy || !auction || auction.segment) {
+    console.warn('[chooseAuctionSegment] No auction is waiting for a segment');
+    return;
+  }
+  if (playerID && playerID !== auction.opener) {
+    console.warn(`[chooseAuctionSegment] Player ${auction.opener} chooses the segment`);
+    return;
+  }
+
+  const segment = bankruptcy.forSale[segmentIndex];
+  if (!segment) {
+    console.error(`[chooseAuctionSegment] No segment for sale at index ${segmentIndex}`);
+    return;
+  }
+
+  useGameStore.setState((state) => ({
+    G: {
+      ...state.G,
+      bankruptcy: {
+        ...bankruptcy,
+        forSale: bankruptcy.forSale.filter((_, i) => i !== segmentIndex),
+        auction: { ...auction, segment },
+      },
+    },
+  }));
+
+  saveCurrentGameState();
+}
+
+export function bidOnTrack(amount: number, playerID?: string): void {
+  const { G, ctx } = useGameStore.getState();
+
+  if (!isMoveAllowed('bidOnTrack', ctx)) {
+    console.warn('[bidOnTrack] Move not allowed in current phase');
+    return;
+  }
+
+  const auction = G.bankruptcy?.auction;
+  if (!auction?.segment) {
+    console.warn('[bidOnTrack] No segment is up for auction');
+    return;
+  }
+  if (playerID && playerID !== auction.nextBidder) {
+    console.warn(`[bidOnTrack] It is player ${auction.nextBidder}'s turn to bid`);
+    return;
+  }
+
+  const minimum = minimumBid(auction);
+  if (!Number.isInteger(amount) || amount < minimum) {
+    console.warn(`[bidOnTrack] Bid must be at least $${minimum.toLocaleString()}`);
+    return;
+  }
+
+  const bidderProps = G.players.find(([id]) => id === auction.nextBidder)?.[1];
+  if (!bidderProps || playerFinances(bidderProps).cash < amount) {
+    console.warn(`[bidOnTrack] Player ${auction.nextBidder} does not have $${amount.toLocaleString()} in cash`);
+    return;
+  }
+
+  updateTrackAuction(placeBid(auction, auction.nextBidder, amount));
+}
+
+export function passOnTrack(playerID?: string): void {
+  const { G, ctx } = useGameStore.getState();
+
+  if (!isMoveAllowed('passOnTrack', ctx)) {
+    console.warn('[passOnTrack] Move not allowed in current phase');
+    return;
+  }
+
+  const auction = G.bankruptcy?.auction;
+  if (!auction?.segment) {
+    console.warn('[passOnTrack] No segment is up for auction');
+    return;
+  }
+  if (playerID && playerID !== auction.nextBidder) {
+    console.warn(`[passOnTrack] It is player ${auction.nextBidder}'s turn to bid`);
+    return;
+  }
+
+  updateTrackAuction(passBid(auction, auction.nextBidder));
+}
+
+/**
+ * Store a track auction after a bid or pass. When the auction is over, the segment goes to the high bidder, or to a
+ * connected independent railroad if no one bid, and the next auction opens; the bankruptcy ends after the last one.
+ */
+function updateTrackAuction(auction: TrackAuction): void {
+  const { G, ctx } = useGameStore.getState();
+  const bankruptcy = G.bankruptcy;
+  if (!bankruptcy || !auction.segment) return;
+
+  if (!isAuctionOver(auction)) {
+    useGameStore.setState((state) => ({
+      G: { ...state.G, bankruptcy: { ...bankruptcy, auction } },
+    }));
+    saveCurrentGameState();
+    return;
+  }
+
+  const segment = auction.segment;
+  const { highBidder, highBid } = auction;
+  const railroadKey = highBidder ? undefined : connectedIndependentRailroad(G, segment.routeKey);
+  const auctionsHeld = bankruptcy.auctionsHeld + 1;
+  const nextBankruptcy =
+    bankruptcy.forSale.length > 0
+      ? { ...bankruptcy, auctionsHeld, auction: openAuction({ ...bankruptcy, auctionsHeld }, ctx.playOrder) }
+      : null;
+
+  useGameStore.setState((state) => {
+    const railroad = railroadKey ? state.G.independentRailroads[railroadKey] : undefined;
+    return {
+      G: {
+        ...state.G,
+        bankruptcy: nextBankruptcy,
+        players: state.G.players.map(([id, props]): [string, PlayerProps] =>
+          id === highBidder
+            ? [id, {
+                ...recordTransaction(props, ctx, {
+                  kind: 'purchase',
+                  cash: -highBid,
+                  debt: 0,
+                  description: `Won ${trackLabel(segment)} at auction`,
+                }),
+                track: [...playerTrack(props), segment],
+                activeCities: activeCitiesWithTrack(props.activeCities, [...playerTrack(props), segment]),
+              }]
+            : [id, props]
+        ),
+        // Unsold track joins a connected independent railroad; with none connected it is removed from the board
+        independentRailroads:
+          railroadKey && railroad && !railroad.routes.some((r) => r.key === segment.routeKey)
+            ? {
+                ...state.G.independentRailroads,
+                [railroadKey]: {
+                  ...railroad,
+                  routes: [...railroad.routes, { key: segment.routeKey, addedInRound: ctx.round }],
+                },
+              }
+            : state.G.independentRailroads,
+      },
+    };
+  });
+
+  const updatedState = useGameStore.getState();
+  checkPhaseTransition(updatedState.G, updatedState.ctx);
+
+  saveCurrentGameState();
+}
+
 export function addCityToPlayer(cityKey: string): void {
   const { G, ctx } = useGameStore.getState();
 
@@ -1,5 +1,19 @@
 import { create } from 'zustand';
+import type { Bankruptcy } from '../bankruptcy';
 import type { Contract } from '../Contract';
+import type { ConnectionBonus } from '../connectionBonuses';
+import { STARTING_ENGINE } from '../engines';
+import { STARTING_CASH, type FinanceTransaction } from '../finances';
+import type { StartingRoute } from '../startingRoutes';
+import type { OwnedTrack } from '../track';
+import { getAuthoritySession, submitMoveIntent } from './authorityClient';
+import {
+  currentTurnStartPosition,
+  withRestoreLogged,
+  type MoveLogEntry,
+  type MoveLogStart,
+  type RestoreMove,
+} from './moveLog';
 import { getCurrentGameCode, saveGameState } from '../utils/gameManager';
 import { getPlayerAvatarColorForIndex } from '../utils/playerAvatar';
 
@@ -11,6 +25,22 @@ export interface PlayerProps {
   hubCity: string | null;
   regionalOffice: RegionCode | null;
   avatarColor?: string;
+  /** Finances; absent in games saved before they were tracked (read them with playerFinances in finances.ts). */
+  cash?: number;
+  debt?: number;
+  /** Ledger of every change to cash and debt, oldest first. */
+  transactions?: FinanceTransaction[];
+  /** Engine and upgrade keys (see data/engines.ts, data/upgrades.ts); read them with playerEngines/playerUpgrades. */
+  engines?: string[];
+  upgrades?: string[];
+  /** City holding the player's railyard (a virtual producer of everything within two segments), if placed. */
+  railyard?: string | null;
+  /** Commodity the player's Commodities Exchange Office is dedicated to, if bought; a monopoly in it needs one. */
+  exchangeOffice?: string | null;
+  /** Track segments the player owns; read them with playerTrack (track.ts). */
+  track?: OwnedTrack[];
+  /** Times the player has gone bankrupt; each costs BANKRUPTCY_TIES at the end of the game. */
+  bankruptcies?: number;
 }
 
 /** A route owned by an independent railroad, with the round it was added. */
@@ -27,6 +57,26 @@ export interface GameState {
     { name: string; routes: IndependentRailroadRoute[] }
   >;
   byodGameStarted?: boolean;
+  /** Connection bonus cards dealt when setup ends; a bonus's claimedBy is set when a player claims it. */
+  connectionBonuses?: ConnectionBonus[];
+  /** Commodity key to the ID of the player holding its monopoly (first player to claim it). */
+  monopolies?: Record<string, string>;
+  /** IDs of contracts fulfilled to West Coast cities, in delivery order; the first earns the first-delivery bonus. */
+  westCoastDeliveries?: string[];
+  /** Setup draft: player ID to their ranked starting routes, most preferred first. Resolved once every player submits. */
+  startingRoutePreferences?: Record<string, StartingRoute[]>;
+  /** Player who chose "Go first next round" this round; applied to ctx.playOrder and cleared when the round ends. */
+  goFirstNextRound?: string | null;
+  /** Bankruptcy being resolved; set when a player cannot pay debt service, cleared once its track is auctioned. */
+  bankruptcy?: Bankruptcy | null;
+  /** Seed of the game's random generator; with the moves made, reproduces the game exactly. */
+  seed?: number;
+  /** Random generator state after the latest move (restored before each move; see utils/random). */
+  rngState?: number;
+  /** Every move made, in order, including undos (see moveLog.ts); absent in games saved before it was kept. */
+  moveLog?: MoveLogEntry[];
+  /** State the move log starts from; replaying moveLog from it rebuilds G and ctx at any point. */
+  moveLogStart?: MoveLogStart;
   /** Set at end-of-round when growIndependentRailroads adds routes; cleared when user dismisses NavBar hint. */
   lastRoundRoutesAdded?: number;
 }
@@ -45,15 +95,32 @@ export interface GameContext {
 /** Snapshot of game state at the start of the current player's turn (for undo). */
 export type TurnStartSnapshot = { G: GameState; ctx: GameContext };
 
+/** Most snapshots kept for undoMove (and for redoMove); the oldest are dropped first. */
+export const MAX_UNDO_HISTORY = 50;
+
+/** Game part of the store as it stood before a move (for undoMove / redoMove). */
+export type HistorySnapshot = TurnStartSnapshot & {
+  turnStartSnapshot: TurnStartSnapshot | null;
+  hasMovedThisTurn: boolean;
+};
+
 /** Full store state: G, ctx, and methods. */
 export interface GameStoreState {
   G: GameState;
   ctx: GameContext;
   turnStartSnapshot: TurnStartSnapshot | null;
   hasMovedThisTurn: boolean;
+  /** States before each recent move, newest last; cleared when a game is loaded or another device changes it. */
+  undoStack: HistorySnapshot[];
+  /** States undone by undoMove, newest last; cleared by the next move. */
+  redoStack: HistorySnapshot[];
   resetState: (numPlayers?: number) => void;
   setTurnStartSnapshot: (snapshot: TurnStartSnapshot | null) => void;
   undoCurrentTurn: () => void;
+  /** Push the state before a move onto undoStack and clear redoStack (called by the Moves API). */
+  recordHistory: (snapshot: HistorySnapshot) => void;
+  undoMove: () => void;
+  redoMove: () => void;
   getPlayerContracts: (playerID: string) => Contract[];
   getMarketContracts: () => Contract[];
   getCurrentPlayer: () => [string, PlayerProps] | undefined;
@@ -61,6 +128,30 @@ export interface GameStoreState {
   getPlayerActiveCities: (playerID: string) => string[];
 }
 
+/**
+ * Returns a new player's props at the start of a game.
+ *
+ * @param name - Display name
+ * @param index - Seat index (used for the default avatar color)
+ * @returns Player props
+ */
+export function createPlayerProps(name: string, index: number): PlayerProps {
+  return {
+    name,
+    activeCities: [],
+    hubCity: null,
+    regionalOffice: null,
+    avatarColor: getPlayerAvatarColorForIndex(index),
+    cash: STARTING_CASH,
+    debt: 0,
+    transactions: [],
+    engines: [STARTING_ENGINE],
+    upgrades: [],
+    track: [],
+    bankruptcies: 0,
+  };
+}
+
 /**
  * Returns the initial game state structure. Game-specific initialization (e.g. independent railroads)
  * is handled by App.js when creating or starting games.
@@ -70,19 +161,13 @@ export interface GameStoreState {
  */
 function getInitialState(
   numPlayers: number = 2
-): { G: GameState; ctx: GameContext; turnStartSnapshot: null; hasMovedThisTurn: false } {
+): Pick<GameStoreState, 'G' | 'ctx' | 'turnStartSnapshot' | 'hasMovedThisTurn' | 'undoStack' | 'redoStack'> {
   return {
     G: {
       contracts: [],
       players: Array.from({ length: numPlayers }, (_, i) => [
         String(i),
-        {
-          name: `Player ${i}`,
-          activeCities: [],
-          hubCity: null,
-          regionalOffice: null,
-          avatarColor: getPlayerAvatarColorForIndex(i),
-        },
+        createPlayerProps(`Player ${i}`, i),
       ]),
       independentRailroads: {},
     },
@@ -97,6 +182,8 @@ function getInitialState(
     },
     turnStartSnapshot: null,
     hasMovedThisTurn: false,
+    undoStack: [],
+    redoStack: [],
   };
 }
 
@@ -105,6 +192,47 @@ function cloneState(snapshot: TurnStartSnapshot): TurnStartSnapshot {
   return structuredClone(snapshot);
 }
 
+/** Snapshot of the store's game part, for undoStack / redoStack. */
+export function historySnapshot(state: GameStoreState): HistorySnapshot {
+  return {
+    G: state.G,
+    ctx: state.ctx,
+    turnStartSnapshot: state.turnStartSnapshot,
+    hasMovedThisTurn: state.hasMovedThisTurn,
+  };
+}
+
+/** Append to a history stack, dropping the oldest snapshots beyond MAX_UNDO_HISTORY. */
+function pushHistory(stack: HistorySnapshot[], snapshot: HistorySnapshot): HistorySnapshot[] {
+  return [...stack, snapshot].slice(-MAX_UNDO_HISTORY);
+}
+
+/**
+ * Persist a restored state so BYOD stays in sync (same pattern as gameActions.saveCurrentGameState). Under a move
+ * authority the restore is submitted as an intent instead, and the authority saves the state it rebuilds.
+ *
+ * @param move - The restore (its log entry, last in G.moveLog, holds the position restored)
+ * @param G - Restored game state
+ * @param ctx - Restored game context
+ */
+export function persistRestore(move: RestoreMove, G: GameState, ctx: GameContext): void {
+  const position = G.moveLog?.[G.moveLog.length - 1]?.args[0];
+  if (getAuthoritySession() && typeof position === 'number') {
+    submitMoveIntent(move, [position]);
+    return;
+  }
+
+  const code = getCurrentGameCode();
+  if (code) {
+    saveGameState(code, G, ctx).catch((error: unknown) => {
+      console.error(
+        `[${move}] Failed to save game state:`,
+        error instanceof Error ? error.message : String(error)
+      );
+    });
+  }
+}
+
 const storeImpl = (
   set: (partial: Partial<GameStoreState> | ((state: GameStoreState) => Partial<GameStoreState>)) => void,
   get: () => GameStoreState
@@ -129,21 +257,49 @@ const storeImpl = (
       return;
     }
     const restored = cloneState(turnStartSnapshot);
+    // The log is append-only: keep every move made this turn and record the undo after them
+    const position = currentTurnStartPosition(state.G.moveLog ?? [], state.ctx);
+    restored.G = withRestoreLogged(state.G, state.ctx, restored.G, 'undoCurrentTurn', position);
     set({
       G: restored.G,
       ctx: restored.ctx,
       hasMovedThisTurn: false,
+      undoStack: pushHistory(state.undoStack, historySnapshot(state)),
+      redoStack: [],
     });
-    // Persist so BYOD stays in sync (same pattern as gameActions.saveCurrentGameState)
-    const code = getCurrentGameCode();
-    if (code) {
-      saveGameState(code, restored.G, restored.ctx).catch((error: unknown) => {
-        console.error(
-          '[undoCurrentTurn] Failed to save game state:',
-          error instanceof Error ? error.message : String(error)
-        );
-      });
-    }
+    persistRestore('undoCurrentTurn', restored.G, restored.ctx);
+  },
+
+  recordHistory: (snapshot: HistorySnapshot) => {
+    set((state: GameStoreState) => ({ undoStack: pushHistory(state.undoStack, snapshot), redoStack: [] }));
+  },
+
+  undoMove: () => {
+    const state = get();
+    const previous = state.undoStack[state.undoStack.length - 1];
+    if (!previous) return;
+    const G = withRestoreLogged(state.G, state.ctx, previous.G, 'undoMove', previous.G.moveLog?.length ?? 0);
+    set({
+      ...previous,
+      G,
+      undoStack: state.undoStack.slice(0, -1),
+      redoStack: pushHistory(state.redoStack, historySnapshot(state)),
+    });
+    persistRestore('undoMove', G, previous.ctx);
+  },
+
+  redoMove: () => {
+    const state = get();
+    const next = state.redoStack[state.redoStack.length - 1];
+    if (!next) return;
+    const G = withRestoreLogged(state.G, state.ctx, next.G, 'redoMove', next.G.moveLog?.length ?? 0);
+    set({
+      ...next,
+      G,
+      undoStack: pushHistory(state.undoStack, historySnapshot(state)),
+      redoStack: state.redoStack.slice(0, -1),
+    });
+    persistRestore('redoMove', G, next.ctx);
   },
 
   getPlayerContracts: (playerID: string) => {
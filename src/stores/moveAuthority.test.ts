@@ -0,0 +1,132 @@
+import { describe, test, expect, beforeEach } from 'vitest';
+import { useGameStore } from './gameStore';
+import { withMoveLogStart } from './moveLog';
+import { createMoves } from './moves';
+import { applyMoveIntent, replayQueuedMoves, type AuthoritySeat } from './moveAuthority';
+import { getRandomState, seedRandom } from '../utils/random';
+import { serializeState, type SerializedState } from '../utils/stateSerialization';
+import type { MoveIntent, QueuedMove } from '../utils/storage/storageAdapter';
+
+function startPlay(): void {
+  useGameStore.getState().resetState();
+  seedRandom(42);
+  useGameStore.setState((state) => {
+    const ctx = {
+      ...state.ctx,
+      phase: 'play',
+      playOrder: ['0', '1'],
+      playOrderPos: 0,
+      currentPlayer: '0',
+    };
+    const G = {
+      ...state.G,
+      players: state.G.players.map(([id, props]) => [id, { ...props, activeCities: ['Chicago', 'Detroit'] }]),
+      seed: 42,
+      rngState: getRandomState(),
+    } as typeof state.G;
+    return { G: withMoveLogStart(G, ctx), ctx, turnStartSnapshot: structuredClone({ G, ctx }) };
+  });
+}
+
+function storedState(): SerializedState {
+  const { G, ctx } = useGameStore.getState();
+  return serializeState(G as unknown as Record<string, unknown>, ctx as unknown as Record<string, unknown>);
+}
+
+function intent(move: string, args: unknown[]): MoveIntent {
+  return { move, args };
+}
+
+const guest = (playerID: string): AuthoritySeat => ({ playerID, isHost: false });
+const host = (playerID: string): AuthoritySeat => ({ playerID, isHost: true });
+
+describe('applyMoveIntent', () => {
+  beforeEach(startPlay);
+
+  test('applies a move by the current player and logs it', () => {
+    const result = applyMoveIntent(storedState(), intent('borrowMoney', [5000]), guest('0'));
+
+    expect(result.ok).toBe(true);
+    const G = result.state?.G as unknown as ReturnType<typeof useGameStore.getState>['G'];
+    expect(G.players[0][1].debt).toBe(5000);
+    expect(G.moveLog?.map((entry) => entry.move)).toEqual(['borrowMoney']);
+    expect(useGameStore.getState().G.players[0][1].debt).toBe(0);
+  });
+
+  test('rejects moves out of turn, out of phase or that the game refuses', () => {
+    const stored = storedState();
+
+    const outOfTurn = applyMoveIntent(stored, intent('borrowMoney', [5000]), guest('1'));
+    expect(outOfTurn).toMatchObject({ ok: false, state: stored });
+    expect(applyMoveIntent(stored, intent('passOnTrack', []), guest('0')).ok).toBe(false);
+    expect(applyMoveIntent(stored, intent('rankStartingRoutes', [[], '0']), guest('0'))).toMatchObject({
+      ok: false,
+      error: 'Move "rankStartingRoutes" is not allowed in phase "play"',
+    });
+    expect(applyMoveIntent(stored, intent('borrowMoney', [1234]), guest('0')).ok).toBe(false);
+    expect(applyMoveIntent(stored, intent('cheat', []), guest('0')).ok).toBe(false);
+  });
+
+  test('lets a player undo within their turn but only the host roll back earlier turns', () => {
+    const moves = createMoves(useGameStore);
+    moves.borrowMoney(5000);
+    moves.endTurn();
+    moves.borrowMoney(5000);
+    const stored = storedState();
+
+    const undo = applyMoveIntent(stored, intent('undoMove', [2]), guest('1'));
+    expect(undo.ok).toBe(true);
+    const undoneG = undo.state?.G as unknown as ReturnType<typeof useGameStore.getState>['G'];
+    expect(undoneG.players[1][1].debt).toBe(0);
+    expect(undoneG.moveLog?.map((entry) => entry.move)).toEqual(['borrowMoney', 'endTurn', 'borrowMoney', 'undoMove']);
+
+    expect(applyMoveIntent(stored, intent('undoMove', [1]), guest('1')).ok).toBe(false);
+    expect(applyMoveIntent(stored, intent('rollback', [0]), guest('1')).ok).toBe(false);
+
+    const rollback = applyMoveIntent(stored, intent('rollback', [0]), host('1'));
+    expect(rollback.ok).toBe(true);
+    expect(rollback.state?.ctx.currentPlayer).toBe('0');
+  });
+});
+
+describe('replayQueuedMoves', () => {
+  beforeEach(startPlay);
+
+  function queued(move: string, args: unknown[], playerID: string): QueuedMove {
+    return { move, args, playerID };
+  }
+
+  test('applies queued moves after moves another device saved meanwhile', () => {
+    const moves = createMoves(useGameStore);
+    moves.borrowMoney(5000);
+    const latest = storedState();
+
+    // Queued against the empty log: borrow, then undo back to the queued borrow's position
+    const queue = { baseLength: 0, moves: [queued('borrowMoney', [5000], '0'), queued('undoMove', [0], '0')] };
+    const result = replayQueuedMoves(latest, queue, false);
+
+    expect(result.applied).toBe(2);
+    expect(result.rejected).toEqual([]);
+    const G = result.state.G as unknown as ReturnType<typeof useGameStore.getState>['G'];
+    expect(G.players[0][1].debt).toBe(5000);
+    expect(G.moveLog?.map((entry) => entry.move)).toEqual(['borrowMoney', 'borrowMoney', 'undoMove']);
+    expect(G.moveLog?.[2].args).toEqual([1]);
+  });
+
+  test('drops moves that no longer apply and restores that depended on them', () => {
+    const moves = createMoves(useGameStore);
+    moves.endTurn();
+    const latest = storedState();
+
+    const queue = {
+      baseLength: 0,
+      moves: [queued('borrowMoney', [5000], '0'), queued('undoMove', [0], '0'), queued('borrowMoney', [5000], '1')],
+    };
+    const result = replayQueuedMoves(latest, queue, false);
+
+    expect(result.applied).toBe(1);
+    expect(result.rejected.map((rejected) => rejected.move.move)).toEqual(['borrowMoney', 'undoMove']);
+    const G = result.state.G as unknown as ReturnType<typeof useGameStore.getState>['G'];
+    expect(G.players[1][1].debt).toBe(5000);
+  });
+});
@@ -0,0 +1,176 @@
+/**
+ * Move authority: applies a BYOD player's move intent to the stored game with the game's own move logic, so a
+ * device can only change the game through moves its player is allowed to make. The authority works out the seat
+ * from the device (see LocalMoveAuthorityAdapter), never from the intent.
+ */
+
+import { useGameStore } from './gameStore';
+import type { GameState, GameContext } from './gameStore';
+import { RESTORE_MOVES, withMoveTime, withRestoreLogged, type RestoreMove } from './moveLog';
+import { createMoves } from './moves';
+import { PLAYER_ID_ARGUMENT, isMoveAllowed, isMoveAllowedForPlayer } from './moveValidation';
+import { replayMoveLog, withDetachedStore } from './replay';
+import { deserializeState, serializeState, type SerializedState } from '../utils/stateSerialization';
+import { queuedRestoreTarget, type OfflineQueue } from '../utils/storage/offlineQueue';
+import type { MoveIntent, MoveIntentResult, QueuedMoveReplay, RejectedMove } from '../utils/storage/storageAdapter';
+
+/** Who submitted an intent, as the authority knows them from their device. */
+export interface AuthoritySeat {
+  playerID: string;
+  /** Whether the device is the host's (rollbacks to earlier turns are accepted only from the host). */
+  isHost: boolean;
+}
+
+/**
+ * Apply a move intent to a stored game.
+ *
+ * Moves must be allowed for the submitting player (their turn, or their own seat for moves that take a playerID)
+ * and must change the game. Restores return to an earlier log position: a player may only return to a position in
+ * their current turn, while the host may roll the game back to any position.
+ *
+ * @param state - Stored game state
+ * @param intent - Move and arguments
+ * @param seat - Submitting player and whether their device is the host's
+ * @returns The canonical state after the move, or why it was rejected (with the stored state)
+ */
+export function applyMoveIntent(state: SerializedState, intent: MoveIntent, seat: AuthoritySeat): MoveIntentResult {
+  let G: GameState;
+  let ctx: GameContext;
+  try {
+    const stored = deserializeState(state);
+    G = stored.G as unknown as GameState;
+    ctx = stored.ctx as unknown as GameContext;
+  } catch (error) {
+    return { ok: false, error: error instanceof Error ? error.message : String(error) };
+  }
+
+  const result = RESTORE_MOVES.includes(intent.move)
+    ? applyRestore(G, ctx, intent, seat)
+    : applyMove(G, ctx, intent, seat.playerID);
+  if (typeof result === 'string') {
+    return { ok: false, error: result, state };
+  }
+  return {
+    ok: true,
+    state: serializeState(
+      result.G as unknown as Record<string, unknown>,
+      result.ctx as unknown as Record<string, unknown>
+    ),
+  };
+}
+
+/**
+ * Replay moves queued while offline onto the latest stored state, in order, each checked like a move intent. Moves
+ * that no longer apply (e.g. another device moved first) are skipped and reported.
+ *
+ * Restores to a position before the queue point at the same entries on both sides. Restores to a queued move are
+ * shifted to where that move now sits, which is only known while every earlier queued move has applied.
+ *
+ * @param latest - Latest stored state
+ * @param queue - Queued moves and the log length they were made after
+ * @param isHost - Whether this device is the host's (hot-seat devices hold every seat)
+ * @returns The state after the moves that applied, and those that were rejected
+ */
+export function replayQueuedMoves(latest: SerializedState, queue: OfflineQueue, isHost: boolean): QueuedMoveReplay {
+  const offset = ((latest.G.moveLog as unknown[] | undefined)?.length ?? 0) - queue.baseLength;
+  let state = latest;
+  let applied = 0;
+  const rejected: RejectedMove[] = [];
+
+  for (const queued of queue.moves) {
+    let args = queued.args;
+    const target = queuedRestoreTarget(queued, queue.baseLength);
+    if (target !== null) {
+      if (rejected.length > 0) {
+        rejected.push({ move: queued, error: 'It returns to a move that was not synced' });
+        continue;
+      }
+      args = [queue.baseLength + target + offset, ...args.slice(1)];
+    }
+
+    const intent = { move: queued.move, args, time: queued.time };
+    const result = applyMoveIntent(state, intent, { playerID: queued.playerID, isHost });
+    if (result.ok) {
+      state = result.state;
+      applied++;
+    } else {
+      rejected.push({ move: queued, error: result.error });
+    }
+  }
+
+  return { state, applied, rejected };
+}
+
+/** Run a move against the stored state; returns the new state or why it was rejected. */
+function applyMove(
+  G: GameState,
+  ctx: GameContext,
+  intent: MoveIntent,
+  playerID: string
+): { G: GameState; ctx: GameContext } | string {
+  const args = [...intent.args];
+  if (intent.move in PLAYER_ID_ARGUMENT) {
+    // Players act only for their own seat, which replaces the turn check (e.g. BYOD seats rank in parallel)
+    if (!isMoveAllowed(intent.move, ctx)) return `Move "${intent.move}" is not allowed in phase "${ctx.phase}"`;
+    args[PLAYER_ID_ARGUMENT[intent.move]] = playerID;
+  } else if (!isMoveAllowedForPlayer(intent.move, playerID, ctx)) {
+    return `Player ${playerID} may not make "${intent.move}" now`;
+  }
+
+  return withDetachedStore(() => {
+    useGameStore.setState({
+      G: structuredClone(G),
+      ctx: structuredClone(ctx),
+      turnStartSnapshot: null,
+      hasMovedThisTurn: false,
+      undoStack: [],
+      redoStack: [],
+    });
+    const moves = createMoves(useGameStore) as unknown as Record<string, (...args: unknown[]) => unknown>;
+    const move = moves[intent.move];
+    if (!move) return `Unknown move "${intent.move}"`;
+
+    const before = useGameStore.getState().G;
+    withMoveTime(intent.time, () => move(...args));
+    const after = useGameStore.getState();
+    // Moves rejected by the game's own validation leave G untouched
+    if (after.G === before) return `Move "${intent.move}" was rejected`;
+    return structuredClone({ G: after.G, ctx: after.ctx });
+  });
+}
+
+/** Restore the state at an earlier log position; returns the new state or why it was rejected. */
+function applyRestore(
+  G: GameState,
+  ctx: GameContext,
+  intent: MoveIntent,
+  seat: AuthoritySeat
+): { G: GameState; ctx: GameContext } | string {
+  const log = G.moveLog;
+  const position = intent.args[0];
+  if (!log) return 'This game has no move log to restore from';
+  if (typeof position !== 'number' || !Number.isInteger(position) || position < 0 || position >= log.length) {
+    return `No earlier log position ${String(position)} to restore`;
+  }
+
+  const replayed = replayMoveLog(G, position);
+  if (!replayed) return 'This game has no move log to restore from';
+
+  if (!seat.isHost) {
+    if (intent.move === 'rollback') return 'Only the host can roll the game back';
+    const sameTurn =
+      seat.playerID === ctx.currentPlayer &&
+      replayed.ctx.currentPlayer === ctx.currentPlayer &&
+      replayed.ctx.phase === ctx.phase &&
+      replayed.ctx.round === ctx.round &&
+      replayed.ctx.turn === ctx.turn &&
+      // Rollbacks can repeat a turn, so a matching turn before one is an earlier pass through it
+      !log.slice(position).some((entry) => entry.move === 'rollback');
+    if (!sameTurn) return `Player ${seat.playerID} may only undo moves in their own current turn`;
+  }
+
+  return {
+    G: withRestoreLogged(G, ctx, replayed.G, intent.move as RestoreMove, position),
+    ctx: replayed.ctx,
+  };
+}
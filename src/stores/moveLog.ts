@@ -0,0 +1,203 @@
+import type { GameState, GameContext } from './gameStore';
+import { PLAYER_ID_ARGUMENT } from './moveValidation';
+
+/** One move (or endTurn, or a restore such as undoMove) recorded in G.moveLog. */
+export interface MoveLogEntry {
+  /** Position in the log. */
+  index: number;
+  /** Move name, as in the Moves API, or a RestoreMove. */
+  move: string;
+  /** Arguments the move was called with. */
+  args: unknown[];
+  /** Player who made the move: the move's playerID argument if it takes one, otherwise ctx.currentPlayer. */
+  playerID: string;
+  phase: string;
+  round: number;
+  turn: number;
+  /** Random generator state before and after the move; replay checks it reaches the same state. */
+  rngBefore?: number;
+  rngAfter?: number;
+  /** ISO timestamp. */
+  time: string;
+}
+
+/** Log entries that restore an earlier state rather than make a move. */
+export type RestoreMove = 'undoCurrentTurn' | 'undoMove' | 'redoMove' | 'rollback';
+
+export const RESTORE_MOVES: readonly string[] = ['undoCurrentTurn', 'undoMove', 'redoMove', 'rollback'];
+
+/** State the move log starts from, saved when the game is created or started. */
+export interface MoveLogStart {
+  G: GameState;
+  ctx: GameContext;
+}
+
+/** Move being run, recorded by appendPendingMove when the move saves. */
+let pendingMove: Omit<MoveLogEntry, 'index' | 'rngAfter'> | null = null;
+
+/** Logged time of the move being replayed (see withMoveTime), or null when moves happen now. */
+let replayedMoveTime: string | null = null;
+
+/**
+ * Remember the move about to run (called by the Moves API). It is added to the log only if it completes and saves;
+ * moves that are rejected never save, and the next move replaces it.
+ *
+ * @param move - Move name
+ * @param args - Move arguments
+ * @param G - Game state before the move
+ * @param ctx - Game context before the move
+ */
+export function beginMove(move: string, args: unknown[], G: GameState, ctx: GameContext): void {
+  const explicitPlayerID = move in PLAYER_ID_ARGUMENT ? args[PLAYER_ID_ARGUMENT[move]] : undefined;
+  pendingMove = {
+    move,
+    args,
+    playerID: typeof explicitPlayerID === 'string' && explicitPlayerID ? explicitPlayerID : ctx.currentPlayer,
+    phase: ctx.phase,
+    round: ctx.round,
+    turn: ctx.turn,
+    rngBefore: G.rngState,
+    time: replayedMoveTime ?? new Date().toISOString(),
+  };
+}
+
+/**
+ * Run a move as if it were made at `time`, so a replayed move gets the time it was logged with (and anything it
+ * creates, such as a contract's creationTime, comes out the same as when it was first made).
+ *
+ * @param time - ISO timestamp the move was made at, or undefined to use the current time
+ * @param fn - Runs the move
+ * @returns What `fn` returns
+ */
+export function withMoveTime<T>(time: string | undefined, fn: () => T): T {
+  const previous = replayedMoveTime;
+  replayedMoveTime = time ?? null;
+  try {
+    return fn();
+  } finally {
+    replayedMoveTime = previous;
+  }
+}
+
+/**
+ * Time of the move being run, in milliseconds: the time it is logged with, which a replay reproduces. Outside a
+ * move, the current time.
+ */
+export function currentMoveTime(): number {
+  return pendingMove ? Date.parse(pendingMove.time) : Date.now();
+}
+
+/** Forget the pending move once it has run (logged or not), so nothing outside a move can log it. */
+export function clearPendingMove(): void {
+  pendingMove = null;
+}
+
+/**
+ * Append the move begun with beginMove to the log (called when the move saves). Games created before the log
+ * existed have no moveLog and are left unchanged.
+ *
+ * @param G - Game state after the move
+ * @returns G with the entry appended
+ */
+export function appendPendingMove(G: GameState): GameState {
+  const move = pendingMove;
+  pendingMove = null;
+  if (!move || !G.moveLog) return G;
+  return { ...G, moveLog: [...G.moveLog, createEntry(G.moveLog, move, G.rngState)] };
+}
+
+/**
+ * Log entry for a restore (undoCurrentTurn, undoMove, redoMove or rollback). Every state the game has been in is the
+ * state after some number of log entries, so a restore records that position. The restored state keeps the full log
+ * (and where it starts) so it stays append-only.
+ *
+ * @param G - Game state before the restore (its moveLog is the full log)
+ * @param ctx - Game context before the restore
+ * @param restoredG - Game state being restored
+ * @param move - Name of the restore
+ * @param position - Log position whose state is restored (recorded as the entry's only argument)
+ * @returns restoredG with the current log plus the restore entry
+ */
+export function withRestoreLogged(
+  G: GameState,
+  ctx: GameContext,
+  restoredG: GameState,
+  move: RestoreMove,
+  position: number
+): GameState {
+  if (!G.moveLog) return restoredG;
+  const entry = createEntry(
+    G.moveLog,
+    {
+      move,
+      args: [position],
+      playerID: ctx.currentPlayer,
+      phase: ctx.phase,
+      round: ctx.round,
+      turn: ctx.turn,
+      rngBefore: G.rngState,
+      time: new Date().toISOString(),
+    },
+    restoredG.rngState
+  );
+  return {
+    ...restoredG,
+    moveLog: [...G.moveLog, entry],
+    ...(G.moveLogStart && { moveLogStart: G.moveLogStart }),
+  };
+}
+
+/**
+ * Log positions where a turn starts: the first entry, and each entry whose player, phase, round or turn differs
+ * from the entry before it. Rolling back to one of these restores the game as that turn began.
+ *
+ * @param log - Move log
+ * @returns Positions (numbers of entries before the turn's first move), ascending
+ */
+export function turnStartPositions(log: MoveLogEntry[]): number[] {
+  const turnKey = (entry: MoveLogEntry) => `${entry.phase}|${entry.round}|${entry.turn}|${entry.playerID}`;
+  return log.flatMap((entry, i) => (i === 0 || turnKey(entry) !== turnKey(log[i - 1]) ? [i] : []));
+}
+
+/**
+ * Log position where the current player's turn started: the state after that many entries is the state their turn
+ * began with. If they have not moved this turn, the end of the log.
+ *
+ * @param log - Move log
+ * @param ctx - Current game context
+ * @returns Position of the turn's first entry
+ */
+export function currentTurnStartPosition(log: MoveLogEntry[], ctx: GameContext): number {
+  const start = turnStartPositions(log).pop();
+  const first = start === undefined ? undefined : log[start];
+  const isCurrentTurn =
+    first?.playerID === ctx.currentPlayer &&
+    first.phase === ctx.phase &&
+    first.round === ctx.round &&
+    first.turn === ctx.turn;
+  return isCurrentTurn && start !== undefined ? start : log.length;
+}
+
+/**
+ * Start an empty move log from the given state.
+ *
+ * @param G - Game state at the start of the game
+ * @param ctx - Game context at the start of the game
+ * @returns G with an empty moveLog and moveLogStart
+ */
+export function withMoveLogStart(G: GameState, ctx: GameContext): GameState {
+  const { moveLog: _moveLog, moveLogStart: _moveLogStart, ...startG } = G;
+  return { ...G, moveLog: [], moveLogStart: structuredClone({ G: startG, ctx }) };
+}
+
+function createEntry(
+  log: MoveLogEntry[],
+  move: Omit<MoveLogEntry, 'index' | 'rngAfter'>,
+  rngAfter: number | undefined
+): MoveLogEntry {
+  return {
+    ...move,
+    index: log.length,
+    ...(rngAfter !== undefined && { rngAfter }),
+  };
+}
@@ -4,12 +4,12 @@
  */
 
 /** Phase names. */
-export type PhaseName = 'waiting_for_players' | 'setup' | 'play' | 'scoring';
+export type PhaseName = 'waiting_for_players' | 'setup' | 'play' | 'bankruptcy' | 'scoring';
 
 /** Map of moves allowed in each phase. */
 const MOVES_BY_PHASE: Record<PhaseName, readonly string[]> = {
   waiting_for_players: [],
-  setup: ['generateStartingContract'],
+  setup: ['generateStartingContract', 'rankStartingRoutes'],
   play: [
     'generatePrivateContract',
     'generateMarketContract',
@@ -19,13 +19,37 @@ const MOVES_BY_PHASE: Record<PhaseName, readonly string[]> = {
     'deleteContract',
     'acquireIndependentRailroad',
     'addCityToPlayer',
+    'buildTrack',
     'claimHubCity',
     'claimRegionalOffice',
+    'claimConnectionBonus',
+    'buyExchangeOffice',
+    'claimMonopoly',
+    'goFirstNextRound',
+    'borrowMoney',
+    'repayDebt',
+    'buyEngine',
+    'buyUpgrade',
+    'placeRailyard',
     'endTurn',
   ],
+  bankruptcy: ['sellTrackForBankruptcy', 'chooseAuctionSegment', 'bidOnTrack', 'passOnTrack'],
   scoring: [],
 };
 
+/**
+ * Moves that take the acting player's ID as an (optional) argument, with its position in the argument list. Other
+ * moves act for ctx.currentPlayer.
+ */
+export const PLAYER_ID_ARGUMENT: Readonly<Record<string, number>> = {
+  generateStartingContract: 1,
+  rankStartingRoutes: 1,
+  sellTrackForBankruptcy: 1,
+  chooseAuctionSegment: 1,
+  bidOnTrack: 1,
+  passOnTrack: 0,
+};
+
 /**
  * Check if a move is allowed in the current phase
  */
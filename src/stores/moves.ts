@@ -1,7 +1,14 @@
 import type { StoreApi, UseBoundStore } from 'zustand';
-import type { GameStoreState } from './gameStore';
+import { historySnapshot, type GameStoreState } from './gameStore';
+import type { StartingRoute } from '../startingRoutes';
+import type { OwnedTrack } from '../track';
+import { seedRandom } from '../utils/random';
+import { beginMove, clearPendingMove } from './moveLog';
+import { getAuthoritySession, submitMoveIntent } from './authorityClient';
+import { isSavingSuspended, setSavingSuspended } from '../utils/gameManager';
 import {
   generateStartingContract,
+  rankStartingRoutes,
   generatePrivateContract,
   generateMarketContract,
   claimMarketContract,
@@ -12,6 +19,20 @@ import {
   addCityToPlayer,
   claimHubCity,
   claimRegionalOffice,
+  claimConnectionBonus,
+  buyExchangeOffice,
+  claimMonopoly,
+  goFirstNextRound,
+  borrowMoney,
+  repayDebt,
+  buyEngine,
+  buyUpgrade,
+  placeRailyard,
+  buildTrack,
+  sellTrackForBankruptcy,
+  chooseAuctionSegment,
+  bidOnTrack,
+  passOnTrack,
   endTurn,
 } from './gameActions';
 
@@ -21,6 +42,7 @@ import {
  */
 export interface Moves {
   generateStartingContract: (activeCities: string[], playerID?: string) => void;
+  rankStartingRoutes: (ranking: StartingRoute[], playerID?: string) => void;
   generatePrivateContract: () => void;
   generateMarketContract: () => void;
   claimMarketContract: (contractID: string) => void;
@@ -31,22 +53,139 @@ export interface Moves {
   addCityToPlayer: (cityKey: string) => void;
   claimHubCity: (cityKey: string) => boolean;
   claimRegionalOffice: (regionCode: string) => boolean;
+  claimConnectionBonus: (bonusID: string) => void;
+  buyExchangeOffice: (commodity: string) => void;
+  claimMonopoly: (commodity: string) => void;
+  goFirstNextRound: () => void;
+  borrowMoney: (amount: number) => void;
+  repayDebt: (amount: number) => void;
+  buyEngine: (engineKey: string, replaceKey?: string) => void;
+  buyUpgrade: (upgradeKey: string) => void;
+  placeRailyard: (cityKey: string) => void;
+  buildTrack: (routeKey: string, parallel?: boolean) => void;
+  sellTrackForBankruptcy: (segments: OwnedTrack[], playerID?: string) => void;
+  chooseAuctionSegment: (segmentIndex: number, playerID?: string) => void;
+  bidOnTrack: (amount: number, playerID?: string) => void;
+  passOnTrack: (playerID?: string) => void;
   endTurn: () => void;
 }
 
+/** Runs a move (`run`) in place of calling it directly, e.g. to do something before or after it. */
+type MoveWrapper = <R>(name: keyof Moves, args: unknown[], run: () => R) => R;
+
+/**
+ * Wraps every move in `moves` with the same behaviour.
+ *
+ * @param moves - Moves to wrap
+ * @param around - Called with each move's name and arguments, and runs the move
+ * @returns Wrapped moves
+ */
+function wrapMoves(moves: Moves, around: MoveWrapper): Moves {
+  const wrapped = { ...moves };
+  for (const name of Object.keys(moves) as (keyof Moves)[]) {
+    const move = moves[name] as (...args: unknown[]) => unknown;
+    Object.assign(wrapped, { [name]: (...args: unknown[]) => around(name, args, () => move(...args)) });
+  }
+  return wrapped;
+}
+
+/**
+ * Wraps each move so it draws from the game's random generator: the generator is restored from G.rngState before
+ * the move runs, and the move's save records where it left off. A game therefore replays exactly from G.seed and its
+ * moves, whatever else (e.g. the private contract offer modal) drew from the generator in between.
+ *
+ * @param store - Zustand store instance
+ * @param moves - Unwrapped moves
+ * @returns Moves that restore the generator first
+ */
+function withGameRandom(store: UseBoundStore<StoreApi<GameStoreState>>, moves: Moves): Moves {
+  return wrapMoves(moves, (_name, _args, run) => {
+    const { rngState } = store.getState().G;
+    if (rngState != null) seedRandom(rngState);
+    return run();
+  });
+}
+
+/**
+ * Wraps each move so it is recorded in G.moveLog: the move is remembered before it runs and appended when it saves,
+ * so moves rejected by validation are never logged (see moveLog.ts).
+ *
+ * @param store - Zustand store instance
+ * @param moves - Unlogged moves
+ * @returns Moves that log themselves
+ */
+function withMoveLog(store: UseBoundStore<StoreApi<GameStoreState>>, moves: Moves): Moves {
+  return wrapMoves(moves, (name, args, run) => {
+    const { G, ctx } = store.getState();
+    beginMove(name, args, G, ctx);
+    try {
+      return run();
+    } finally {
+      clearPendingMove();
+    }
+  });
+}
+
+/**
+ * Wraps each move so it can be undone: the store's game state is snapshotted before the move runs and pushed onto
+ * undoStack if the move changed G. Moves rejected by validation leave G alone and are not recorded.
+ *
+ * @param store - Zustand store instance
+ * @param moves - Moves without undo history
+ * @returns Moves that record undo history
+ */
+function withUndoHistory(store: UseBoundStore<StoreApi<GameStoreState>>, moves: Moves): Moves {
+  return wrapMoves(moves, (_name, _args, run) => {
+    const before = store.getState();
+    // Cloned because turn and phase hooks may mutate G in place
+    const snapshot = structuredClone(historySnapshot(before));
+    const result = run();
+    if (store.getState().G !== before.G) store.getState().recordHistory(snapshot);
+    return result;
+  });
+}
+
+/**
+ * Wraps each move so that, while a move authority session is active (BYOD), it is not saved by this device: the
+ * move runs locally as a prediction and, if it changed G, is submitted to the authority, whose state then replaces
+ * the prediction (see authorityClient.ts). Replays and the authority itself run with saving suspended and are left
+ * alone.
+ *
+ * @param store - Zustand store instance
+ * @param moves - Moves that save themselves
+ * @returns Moves that go to the authority when there is one
+ */
+function withMoveAuthority(store: UseBoundStore<StoreApi<GameStoreState>>, moves: Moves): Moves {
+  return wrapMoves(moves, (name, args, run) => {
+    if (!getAuthoritySession() || isSavingSuspended()) return run();
+
+    const before = store.getState().G;
+    setSavingSuspended(true);
+    try {
+      return run();
+    } finally {
+      setSavingSuspended(false);
+      if (store.getState().G !== before) submitMoveIntent(name, args);
+    }
+  });
+}
+
 /**
  * Creates the moves API bound to the given store.
  *
- * @param store - Zustand store instance (for future flexibility, currently unused)
+ * @param store - Zustand store instance (supplies the random generator state)
  * @returns Object containing all available moves
  */
 export function createMoves(
-  _store: UseBoundStore<StoreApi<GameStoreState>>
+  store: UseBoundStore<StoreApi<GameStoreState>>
 ): Moves {
-  return {
+  return withMoveAuthority(store, withUndoHistory(store, withMoveLog(store, withGameRandom(store, {
     generateStartingContract: (activeCities: string[], playerID?: string) =>
       generateStartingContract(activeCities, playerID),
 
+    rankStartingRoutes: (ranking: StartingRoute[], playerID?: string) =>
+      rankStartingRoutes(ranking, playerID),
+
     generatePrivateContract: () => generatePrivateContract(),
 
     generateMarketContract: () => generateMarketContract(),
@@ -69,6 +208,36 @@ export function createMoves(
 
     claimRegionalOffice: (regionCode: string) => claimRegionalOffice(regionCode),
 
+    claimConnectionBonus: (bonusID: string) => claimConnectionBonus(bonusID),
+
+    buyExchangeOffice: (commodity: string) => buyExchangeOffice(commodity),
+
+    claimMonopoly: (commodity: string) => claimMonopoly(commodity),
+
+    goFirstNextRound: () => goFirstNextRound(),
+
+    borrowMoney: (amount: number) => borrowMoney(amount),
+
+    repayDebt: (amount: number) => repayDebt(amount),
+
+    buyEngine: (engineKey: string, replaceKey?: string) => buyEngine(engineKey, replaceKey),
+
+    buyUpgrade: (upgradeKey: string) => buyUpgrade(upgradeKey),
+
+    placeRailyard: (cityKey: string) => placeRailyard(cityKey),
+
+    buildTrack: (routeKey: string, parallel?: boolean) => buildTrack(routeKey, parallel),
+
+    sellTrackForBankruptcy: (segments: OwnedTrack[], playerID?: string) =>
+      sellTrackForBankruptcy(segments, playerID),
+
+    chooseAuctionSegment: (segmentIndex: number, playerID?: string) =>
+      chooseAuctionSegment(segmentIndex, playerID),
+
+    bidOnTrack: (amount: number, playerID?: string) => bidOnTrack(amount, playerID),
+
+    passOnTrack: (playerID?: string) => passOnTrack(playerID),
+
     endTurn: () => endTurn(),
-  };
+  }))));
 }
@@ -1,10 +1,12 @@
 import { growIndependentRailroads } from '../independentRailroads';
+import { isGameOver, END_OF_GAME_TIE_THRESHOLD } from '../scoring';
+import { dealConnectionBonuses } from '../connectionBonuses';
 import type { PhaseName } from './moveValidation';
 import type { GameState, GameContext } from './gameStore';
 
 /**
  * Phase configuration: phase structure, transitions, and hooks for turn/phase management.
- * Each phase has: next (phase to transition to), endIf (when phase ends), onEnd (phase-end hook), turn.onEnd (turn-end hook).
+ * Each phase has: next (phase to transition to, or a function choosing it from G/ctx), endIf (when phase ends), onEnd (phase-end hook), turn.onEnd (turn-end hook).
  */
 
 /** Params passed to phase endIf/onEnd and turn onEnd hooks. */
@@ -20,7 +22,7 @@ interface PhaseTurnConfig {
 
 /** Single phase config: next phase, endIf, onEnd, turn. */
 interface PhaseConfigEntry {
-  next: string;
+  next: string | ((params: PhaseParams) => string);
   endIf?: (params: PhaseParams) => boolean;
   onEnd?: ((params: PhaseParams) => void) | null;
   turn: PhaseTurnConfig;
@@ -51,17 +53,26 @@ export const phaseConfig: Record<PhaseName, PhaseConfigEntry> = {
       );
       return playersWithContracts.size >= ctx.numPlayers;
     },
-    onEnd: ({ ctx }) => {
+    onEnd: ({ G }) => {
       console.log('Setup phase complete. Starting main game.');
+      G.connectionBonuses = dealConnectionBonuses();
     },
     turn: { onEnd: null },
   },
 
   // Phase 2: Play. Main game with all normal actions
   play: {
-    next: 'scoring',
-    endIf: () => false,
-    onEnd: null,
+    next: ({ G }) => (G.bankruptcy ? 'bankruptcy' : 'scoring'),
+    // End as soon as any player has earned END_OF_GAME_TIE_THRESHOLD railroad ties during play, or to resolve a
+    // bankruptcy (a player could not pay debt service on a delivery).
+    endIf: ({ G }) => isGameOver(G) || G.bankruptcy != null,
+    onEnd: ({ G }) => {
+      if (G.bankruptcy) {
+        console.log(`[play] Player ${G.bankruptcy.playerID} is bankrupt. Selling and auctioning track.`);
+      } else {
+        console.log(`[play] A player reached ${END_OF_GAME_TIE_THRESHOLD} railroad ties. Final scoring.`);
+      }
+    },
     turn: {
       // Increment turnsHeld for unfulfilled market contracts held by current player
       onEnd: ({ G, ctx }) => {
@@ -86,7 +97,18 @@ export const phaseConfig: Record<PhaseName, PhaseConfigEntry> = {
     },
   },
 
-  // Phase 3: Scoring. Stub for future implementation.
+  // Bankruptcy: a sub-phase of play. The bankrupt player sells track, then each segment is auctioned to the other
+  // players (see bankruptcy.ts). Play resumes with the same current player once every segment is resolved.
+  bankruptcy: {
+    next: ({ G }) => (isGameOver(G) ? 'scoring' : 'play'),
+    endIf: ({ G }) => G.bankruptcy == null,
+    onEnd: () => {
+      console.log('[bankruptcy] Bankruptcy resolved. Resuming play.');
+    },
+    turn: { onEnd: null },
+  },
+
+  // Phase 3: Scoring. Terminal phase; final standings are derived from G by scoring.ts.
   scoring: {
     next: 'scoring', // Loops back to itself (end game)
     endIf: () => false,
@@ -98,7 +120,7 @@ export const phaseConfig: Record<PhaseName, PhaseConfigEntry> = {
 /**
  * Get phase configuration for a phase name.
  *
- * @param phaseName - Phase name ('waiting_for_players', 'setup', 'play', 'scoring')
+ * @param phaseName - Phase name ('waiting_for_players', 'setup', 'play', 'bankruptcy', 'scoring')
  * @returns Phase config or undefined
  */
 export function getPhaseConfig(phaseName: PhaseName | string): PhaseConfigEntry | undefined {
@@ -24,7 +24,10 @@ export function checkPhaseTransition(G: GameState, ctx: GameContext): boolean {
     return false;
   }
 
-  const nextPhase = currentPhaseConfig.next;
+  const nextPhase =
+    typeof currentPhaseConfig.next === 'function'
+      ? currentPhaseConfig.next({ G, ctx })
+      : currentPhaseConfig.next;
 
   if (!nextPhase) {
     console.warn(
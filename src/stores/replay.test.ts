@@ -0,0 +1,192 @@
+import { describe, test, expect, beforeEach, vi } from 'vitest';
+import { MAX_UNDO_HISTORY, useGameStore } from './gameStore';
+import { withMoveLogStart } from './moveLog';
+import { createMoves } from './moves';
+import { replayMoveLog, rollbackToPosition } from './replay';
+import { getRandomState, seedRandom } from '../utils/random';
+
+function startPlay(): void {
+  useGameStore.getState().resetState();
+  seedRandom(42);
+  useGameStore.setState((state) => {
+    const ctx = {
+      ...state.ctx,
+      phase: 'play',
+      playOrder: ['0', '1'],
+      playOrderPos: 0,
+      currentPlayer: '0',
+    };
+    const G = {
+      ...state.G,
+      players: state.G.players.map(([id, props]) => [id, { ...props, activeCities: ['Chicago', 'Detroit'] }]),
+      seed: 42,
+      rngState: getRandomState(),
+    } as typeof state.G;
+    return { G: withMoveLogStart(G, ctx), ctx, turnStartSnapshot: structuredClone({ G, ctx }) };
+  });
+}
+
+describe('move log', () => {
+  beforeEach(startPlay);
+
+  test('records completed moves but not rejected ones', () => {
+    const moves = createMoves(useGameStore);
+    moves.borrowMoney(5000);
+    moves.borrowMoney(1234);
+    moves.generatePrivateContract();
+    moves.endTurn();
+
+    const log = useGameStore.getState().G.moveLog ?? [];
+    expect(log.map((entry) => entry.move)).toEqual(['borrowMoney', 'generatePrivateContract', 'endTurn']);
+    expect(log.map((entry) => entry.playerID)).toEqual(['0', '0', '0']);
+  });
+
+  test('keeps undone moves and logs the undo', () => {
+    const moves = createMoves(useGameStore);
+    moves.borrowMoney(5000);
+    useGameStore.getState().undoCurrentTurn();
+
+    const { G } = useGameStore.getState();
+    expect(G.moveLog?.map((entry) => entry.move)).toEqual(['borrowMoney', 'undoCurrentTurn']);
+    expect(G.players[0][1].debt).toBe(0);
+  });
+});
+
+describe('replayMoveLog', () => {
+  beforeEach(startPlay);
+
+  test('rebuilds the state at any point in the log and leaves the store untouched', () => {
+    const moves = createMoves(useGameStore);
+    moves.generatePrivateContract();
+    const afterFirst = structuredClone(useGameStore.getState().G);
+    moves.borrowMoney(5000);
+    useGameStore.getState().undoCurrentTurn();
+    moves.generatePrivateContract();
+    moves.endTurn();
+    const live = useGameStore.getState();
+
+    const replayed = replayMoveLog(live.G, live.G.moveLog?.length ?? 0);
+    expect(replayed?.divergedAt).toBeNull();
+    expect(replayed?.G.contracts.map((c) => c.id)).toEqual(live.G.contracts.map((c) => c.id));
+    expect(replayed?.G.players).toEqual(live.G.players);
+    expect(replayed?.ctx).toEqual(live.ctx);
+
+    expect(replayMoveLog(live.G, 1)?.G.contracts.map((c) => c.id)).toEqual(afterFirst.contracts.map((c) => c.id));
+    expect(replayMoveLog(live.G, 0)?.G.contracts).toEqual([]);
+    expect(useGameStore.getState().G).toBe(live.G);
+  });
+
+  test('gives replayed contracts the creationTime they were made with', () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    try {
+      vi.setSystemTime(new Date('2024-01-01T12:00:00Z'));
+      createMoves(useGameStore).generatePrivateContract();
+      const live = useGameStore.getState();
+
+      vi.setSystemTime(new Date('2024-01-02T12:00:00Z'));
+      const replayed = replayMoveLog(live.G, live.G.moveLog?.length ?? 0);
+      expect(live.G.contracts[0].creationTime).toBe(Date.parse('2024-01-01T12:00:00Z'));
+      expect(replayed?.G.contracts).toEqual(live.G.contracts);
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+
+  test('the first market contract arrives with the engine purchase that opens the market', () => {
+    useGameStore.setState((state) => {
+      const players = state.G.players.map(([id, props]) => [id, { ...props, engines: ['American'], cash: 10000 }]);
+      return { G: withMoveLogStart({ ...state.G, players } as typeof state.G, state.ctx) };
+    });
+    const moves = createMoves(useGameStore);
+    moves.buyEngine('Mogul');
+    const live = useGameStore.getState();
+
+    expect(live.G.moveLog?.map((entry) => entry.move)).toEqual(['buyEngine']);
+    expect(live.G.contracts.filter((c) => c.type === 'market')).toHaveLength(1);
+    expect(live.G.moveLog?.[0].rngAfter).toEqual(live.G.rngState);
+
+    const replayed = replayMoveLog(live.G, 1);
+    expect(replayed?.divergedAt).toBeNull();
+    expect(replayed?.G.contracts.map((c) => c.id)).toEqual(live.G.contracts.map((c) => c.id));
+  });
+});
+
+describe('undoMove / redoMove', () => {
+  beforeEach(startPlay);
+
+  test('steps back and forward one move at a time, across turns', () => {
+    const moves = createMoves(useGameStore);
+    moves.borrowMoney(5000);
+    moves.endTurn();
+    moves.borrowMoney(10000);
+
+    const store = () => useGameStore.getState();
+    store().undoMove();
+    expect(store().G.players[1][1].debt).toBe(0);
+    store().undoMove();
+    expect(store().ctx.currentPlayer).toBe('0');
+    expect(store().G.players[0][1].debt).toBe(5000);
+
+    store().redoMove();
+    expect(store().ctx.currentPlayer).toBe('1');
+    moves.borrowMoney(5000);
+    expect(store().redoStack).toEqual([]);
+    expect(store().G.players[1][1].debt).toBe(5000);
+  });
+
+  test('keeps at most MAX_UNDO_HISTORY snapshots', () => {
+    const moves = createMoves(useGameStore);
+    for (let i = 0; i <= MAX_UNDO_HISTORY; i++) moves.borrowMoney(5000);
+
+    expect(useGameStore.getState().undoStack).toHaveLength(MAX_UNDO_HISTORY);
+  });
+
+  test('replays undos and redos from the log', () => {
+    const moves = createMoves(useGameStore);
+    moves.generatePrivateContract();
+    moves.borrowMoney(5000);
+    useGameStore.getState().undoMove();
+    useGameStore.getState().undoMove();
+    useGameStore.getState().redoMove();
+    moves.endTurn();
+    const live = useGameStore.getState();
+
+    const replayed = replayMoveLog(live.G, live.G.moveLog?.length ?? 0);
+    expect(replayed?.G.contracts.map((c) => c.id)).toEqual(live.G.contracts.map((c) => c.id));
+    expect(replayed?.G.players).toEqual(live.G.players);
+    expect(replayed?.ctx).toEqual(live.ctx);
+  });
+});
+
+describe('rollbackToPosition', () => {
+  beforeEach(startPlay);
+
+  test('restores an earlier turn, appends to the log and replays to the same state', () => {
+    const moves = createMoves(useGameStore);
+    moves.borrowMoney(5000);
+    moves.endTurn();
+    moves.borrowMoney(5000);
+    moves.endTurn();
+
+    expect(rollbackToPosition(2)).toBe(true);
+    const { G, ctx, undoStack } = useGameStore.getState();
+    expect(ctx.currentPlayer).toBe('1');
+    expect(G.players[1][1].debt).toBe(0);
+    expect(G.players[0][1].debt).toBe(5000);
+    expect(G.moveLog?.map((entry) => entry.move)).toEqual([
+      'borrowMoney',
+      'endTurn',
+      'borrowMoney',
+      'endTurn',
+      'rollback',
+    ]);
+    expect(undoStack).toEqual([]);
+
+    moves.generatePrivateContract();
+    const live = useGameStore.getState();
+    const replayed = replayMoveLog(live.G, live.G.moveLog?.length ?? 0);
+    expect(replayed?.G.contracts.map((c) => c.id)).toEqual(live.G.contracts.map((c) => c.id));
+    expect(replayed?.G.players).toEqual(live.G.players);
+    expect(replayed?.ctx).toEqual(live.ctx);
+  });
+});
@@ -0,0 +1,163 @@
+/**
+ * Rebuilds game state from the move log by replaying its moves from G.moveLogStart, and rolls games back with it.
+ */
+
+import { historySnapshot, persistRestore, useGameStore } from './gameStore';
+import type { GameState, GameContext, HistorySnapshot } from './gameStore';
+import { RESTORE_MOVES, withMoveTime, withRestoreLogged, type MoveLogEntry } from './moveLog';
+import { createMoves } from './moves';
+import { checkPhaseTransition } from './phaseManager';
+import { isSavingSuspended, setSavingSuspended } from '../utils/gameManager';
+import { getRandomState, seedRandom } from '../utils/random';
+
+/** G and ctx rebuilt by replayMoveLog. */
+export interface ReplayedState {
+  G: GameState;
+  ctx: GameContext;
+  /** Index of the first entry whose random generator state differed on replay (the replay may diverge from there). */
+  divergedAt: number | null;
+}
+
+/**
+ * Rebuild G and ctx after the first `count` entries of the game's move log. The moves are run against the store
+ * with saving suspended, then the store is put back as it was, so the live game is untouched.
+ *
+ * @param G - Game state holding moveLog and moveLogStart
+ * @param count - Number of log entries to replay (0 gives the starting state)
+ * @returns Rebuilt state, or null if the game has no move log
+ */
+export function replayMoveLog(G: GameState, count: number): ReplayedState | null {
+  const { moveLog, moveLogStart } = G;
+  if (!moveLog || !moveLogStart) return null;
+
+  const start = structuredClone(moveLogStart);
+  const entries = moveLog.slice(0, count);
+  // Restores return to the state at an earlier position, so keep the states they return to
+  const restoreTargets = new Set(entries.map(restoredPosition).filter((position) => position !== null));
+  const statesAt = new Map<number, HistorySnapshot>();
+  let divergedAt: number | null = null;
+
+  return withDetachedStore(() => {
+    useGameStore.setState({
+      G: start.G,
+      ctx: start.ctx,
+      turnStartSnapshot: structuredClone(start),
+      hasMovedThisTurn: false,
+      undoStack: [],
+      redoStack: [],
+    });
+    // BYOD logs start while the game is leaving waiting_for_players
+    checkPhaseTransition(start.G, start.ctx);
+
+    const moves = createMoves(useGameStore) as unknown as Record<string, (...args: unknown[]) => unknown>;
+    entries.forEach((entry, position) => {
+      if (restoreTargets.has(position)) {
+        statesAt.set(position, structuredClone(historySnapshot(useGameStore.getState())));
+      }
+      replayEntry(moves, structuredClone(entry), statesAt);
+      const { rngState } = useGameStore.getState().G;
+      if (divergedAt == null && entry.rngAfter !== undefined && rngState !== entry.rngAfter) {
+        divergedAt = entry.index;
+      }
+    });
+
+    const { G: replayedG, ctx: replayedCtx } = useGameStore.getState();
+    return { ...structuredClone({ G: replayedG, ctx: replayedCtx }), divergedAt };
+  });
+}
+
+/**
+ * Run `fn` against the game store with saving suspended, then put the store and random generator back as they were,
+ * so the live game is untouched by whatever `fn` does to the store.
+ *
+ * @param fn - Work to do against the store
+ * @returns What `fn` returns
+ */
+export function withDetachedStore<T>(fn: () => T): T {
+  const live = useGameStore.getState();
+  const liveRandomState = getRandomState();
+  const wasSuspended = isSavingSuspended();
+  setSavingSuspended(true);
+  try {
+    return fn();
+  } finally {
+    useGameStore.setState(live);
+    seedRandom(liveRandomState);
+    setSavingSuspended(wasSuspended);
+  }
+}
+
+/**
+ * Roll the game back to an earlier point in its move log: the state there is rebuilt by replay and becomes the
+ * current state, with a 'rollback' entry appended to the log (it is never truncated). The result is saved (or sent
+ * to the move authority), so every BYOD device picks it up; the UI offers it only to the host there.
+ *
+ * @param position - Log position to return to (number of entries replayed)
+ * @returns true if the game was rolled back
+ */
+export function rollbackToPosition(position: number): boolean {
+  const { G, ctx } = useGameStore.getState();
+  if (!G.moveLog || position < 0 || position >= G.moveLog.length) {
+    console.error(`[rollbackToPosition] No earlier log position ${position} to roll back to`);
+    return false;
+  }
+
+  const replayed = replayMoveLog(G, position);
+  if (!replayed) return false;
+
+  const rolledBackG = withRestoreLogged(G, ctx, replayed.G, 'rollback', position);
+  useGameStore.setState({
+    G: rolledBackG,
+    ctx: replayed.ctx,
+    turnStartSnapshot: structuredClone({ G: rolledBackG, ctx: replayed.ctx }),
+    hasMovedThisTurn: false,
+    undoStack: [],
+    redoStack: [],
+  });
+
+  persistRestore('rollback', rolledBackG, replayed.ctx);
+  return true;
+}
+
+/** Log position a restore entry returns to, or null for moves. */
+function restoredPosition(entry: MoveLogEntry): number | null {
+  const position = entry.args[0];
+  return RESTORE_MOVES.includes(entry.move) && typeof position === 'number' ? position : null;
+}
+
+function replayEntry(
+  moves: Record<string, (...args: unknown[]) => unknown>,
+  entry: MoveLogEntry,
+  statesAt: Map<number, HistorySnapshot>
+): void {
+  if (RESTORE_MOVES.includes(entry.move)) {
+    const position = restoredPosition(entry);
+    const state = position === null ? undefined : statesAt.get(position);
+    if (!state) {
+      console.error(`[replayMoveLog] No earlier position to restore at log entry ${entry.index}`);
+      return;
+    }
+    const { G, ctx, turnStartSnapshot, hasMovedThisTurn } = structuredClone(state);
+    if (entry.move === 'rollback') {
+      // Same store state rollbackToPosition leaves
+      useGameStore.setState({
+        G,
+        ctx,
+        turnStartSnapshot: structuredClone({ G, ctx }),
+        hasMovedThisTurn: false,
+        undoStack: [],
+        redoStack: [],
+      });
+    } else {
+      useGameStore.setState({ G, ctx, turnStartSnapshot, hasMovedThisTurn });
+    }
+    return;
+  }
+
+  const move = moves[entry.move];
+  if (!move) {
+    console.error(`[replayMoveLog] Unknown move "${entry.move}" at log entry ${entry.index}`);
+    return;
+  }
+  withMoveTime(entry.time, () => move(...entry.args));
+}
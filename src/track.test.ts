@@ -0,0 +1,107 @@
+import { describe, test, expect } from 'vitest';
+import {
+  activeCitiesWithTrack,
+  activeCitiesWithoutTrack,
+  buildableTrack,
+  hubDiscount,
+  segmentsBuiltThisTurn,
+  trackCost,
+  trackCostForPlayer,
+  trackSegmentsPerTurn,
+} from './track';
+import type { GameContext, GameState, PlayerProps } from './stores/gameStore';
+
+function makePlayer(props: Partial<PlayerProps> = {}): PlayerProps {
+  return { name: 'P', activeCities: ['Boston', 'Portland ME'], hubCity: null, regionalOffice: null, ...props };
+}
+
+function makeGameState(...players: PlayerProps[]): GameState {
+  return {
+    contracts: [],
+    players: players.map((player, i) => [String(i), player]),
+    independentRailroads: {},
+  };
+}
+
+describe('trackCost', () => {
+  test('follows the Build Track table', () => {
+    expect(trackCost('Boston-Portland ME')).toBe(2000);
+    expect(trackCost('Boston-Portland ME', true)).toBe(3000);
+    expect(trackCost('Denver-Salt Lake City')).toBe(10000);
+    expect(trackCost('Denver-Salt Lake City', true)).toBe(12000);
+  });
+});
+
+describe('per-turn limit', () => {
+  const ctx: GameContext = {
+    phase: 'play',
+    currentPlayer: '0',
+    numPlayers: 2,
+    playOrder: ['0', '1'],
+    playOrderPos: 0,
+    turn: 3,
+    round: 2,
+  };
+  const build = (turn: number) => ({ id: 0, kind: 'build' as const, round: 2, turn, cash: -2000, debt: 0, description: '' });
+
+  test('is two segments, or three with the Employment Office', () => {
+    expect(trackSegmentsPerTurn(makePlayer())).toBe(2);
+    expect(trackSegmentsPerTurn(makePlayer({ upgrades: ['Employment Office'] }))).toBe(3);
+  });
+
+  test('counts only segments built this turn', () => {
+    expect(segmentsBuiltThisTurn(makePlayer({ transactions: [build(2), build(3)] }), ctx)).toBe(1);
+  });
+});
+
+describe('buildableTrack', () => {
+  test('offers routes touching the network, parallel where track exists', () => {
+    const other = makePlayer({ track: [{ routeKey: 'Boston-Syracuse', parallel: false }] });
+    const player = makePlayer({ track: [{ routeKey: 'Boston-Portland ME', parallel: false }] });
+    const options = buildableTrack(makeGameState(player, other), player);
+
+    expect(options.find((o) => o.routeKey === 'Boston-Syracuse')).toEqual({
+      routeKey: 'Boston-Syracuse',
+      parallel: true,
+      cost: trackCost('Boston-Syracuse', true),
+      baseCost: trackCost('Boston-Syracuse', true),
+    });
+    expect(options.some((o) => o.routeKey === 'Boston-Portland ME')).toBe(false);
+    expect(options.some((o) => o.routeKey === 'Denver-Omaha')).toBe(false);
+  });
+});
+
+describe('activeCitiesWithTrack', () => {
+  test('appends newly connected cities and keeps the existing order', () => {
+    expect(
+      activeCitiesWithTrack(['Portland ME', 'Boston'], [{ routeKey: 'Boston-Syracuse', parallel: false }])
+    ).toEqual(['Portland ME', 'Boston', 'Syracuse']);
+  });
+});
+
+describe('activeCitiesWithoutTrack', () => {
+  test('drops cities only the sold track reached', () => {
+    const sold = [{ routeKey: 'Boston-Syracuse', parallel: false }];
+    const remaining = [{ routeKey: 'Boston-Portland ME', parallel: false }];
+
+    expect(activeCitiesWithoutTrack(['Portland ME', 'Boston', 'Syracuse'], sold, remaining, [])).toEqual([
+      'Portland ME',
+      'Boston',
+    ]);
+    expect(activeCitiesWithoutTrack(['Portland ME', 'Boston', 'Syracuse'], sold, remaining, ['Syracuse'])).toEqual([
+      'Portland ME',
+      'Boston',
+      'Syracuse',
+    ]);
+  });
+});
+
+describe('hubDiscount', () => {
+  test('takes $1,000 off segments within two links of the hub', () => {
+    const player = makePlayer({ hubCity: 'Boston' });
+
+    expect(trackCostForPlayer(player, 'Boston-Syracuse')).toBe(trackCost('Boston-Syracuse') - 1000);
+    expect(hubDiscount(player, 'Denver-Omaha')).toBe(0);
+    expect(hubDiscount(makePlayer(), 'Boston-Syracuse')).toBe(0);
+  });
+});
@@ -0,0 +1,197 @@
+import { routes } from './data';
+import { playerFinances } from './finances';
+import { playerUpgrades } from './engines';
+import { citiesConnectedTo } from './utils/graph';
+import type { GameContext, GameState, PlayerProps } from './stores/gameStore';
+
+/** Segments of track a player may build per turn. */
+export const TRACK_SEGMENTS_PER_TURN = 2;
+
+/** Segments per turn with the Employment Office upgrade. */
+export const EMPLOYMENT_OFFICE_SEGMENTS_PER_TURN = 3;
+
+/** Discount per segment built within two links of the player's hub. */
+export const HUB_DISCOUNT = 1000;
+
+/** Most tracks a route can hold: the original track and one parallel track. */
+const MAX_TRACKS_PER_ROUTE = 2;
+
+/** A track segment a player owns: a route, and whether theirs is the parallel (second) track on it. */
+export interface OwnedTrack {
+  routeKey: string;
+  parallel: boolean;
+}
+
+/**
+ * Cost to build a track segment, from the rules' Build Track table: $1,000 more than the route length in thousands,
+ * $1,000 more for parallel track, and doubled for mountainous track.
+ *
+ * @param routeKey - Route key
+ * @param parallel - Whether this is the second track on the route
+ * @returns Cost in dollars, or 0 for an unknown route
+ */
+export function trackCost(routeKey: string, parallel = false): number {
+  const route = routes.get(routeKey);
+  if (!route) return 0;
+  const cost = (route.length + 1 + (parallel ? 1 : 0)) * 1000;
+  return route.mountainous ? cost * 2 : cost;
+}
+
+/**
+ * Hub discount on a segment: HUB_DISCOUNT when both ends of the route are within two links of the player's hub.
+ *
+ * @param player - Player props
+ * @param routeKey - Route key
+ * @returns Discount in dollars, or 0
+ */
+export function hubDiscount(player: PlayerProps, routeKey: string): number {
+  const route = routes.get(routeKey);
+  if (!player.hubCity || !route) return 0;
+  const nearHub = citiesConnectedTo([player.hubCity], { distance: 2, includeFromCities: true });
+  return route.cities.every((city) => nearHub.has(city)) ? HUB_DISCOUNT : 0;
+}
+
+/**
+ * Cost for this player to build a segment: trackCost less any hub discount.
+ *
+ * @param player - Player props
+ * @param routeKey - Route key
+ * @param parallel - Whether this is the second track on the route
+ * @returns Cost in dollars
+ */
+export function trackCostForPlayer(player: PlayerProps, routeKey: string, parallel = false): number {
+  return trackCost(routeKey, parallel) - hubDiscount(player, routeKey);
+}
+
+/**
+ * Track the player owns, with a default for games saved before track was tracked.
+ *
+ * @param player - Player props
+ * @returns Owned track segments
+ */
+export function playerTrack(player: PlayerProps): OwnedTrack[] {
+  return player.track ?? [];
+}
+
+/**
+ * Whether two owned segments are the same piece of track.
+ *
+ * @param a - Segment
+ * @param b - Segment
+ * @returns true if route and parallel flag match
+ */
+export function isSameTrack(a: OwnedTrack, b: OwnedTrack): boolean {
+  return a.routeKey === b.routeKey && a.parallel === b.parallel;
+}
+
+/**
+ * Display label for a segment, e.g. "Boston-New York (parallel)".
+ *
+ * @param segment - Segment
+ * @returns Label
+ */
+export function trackLabel(segment: OwnedTrack): string {
+  return segment.parallel ? `${segment.routeKey} (parallel)` : segment.routeKey;
+}
+
+/**
+ * Segments the player may build per turn.
+ *
+ * @param player - Player props
+ * @returns TRACK_SEGMENTS_PER_TURN, or EMPLOYMENT_OFFICE_SEGMENTS_PER_TURN with the Employment Office
+ */
+export function trackSegmentsPerTurn(player: PlayerProps): number {
+  return playerUpgrades(player).includes('Employment Office')
+    ? EMPLOYMENT_OFFICE_SEGMENTS_PER_TURN
+    : TRACK_SEGMENTS_PER_TURN;
+}
+
+/**
+ * Segments the player has built this turn, counted from their ledger (every buildTrack records a 'build' entry).
+ *
+ * @param player - Player props
+ * @param ctx - Game context
+ * @returns Number of segments
+ */
+export function segmentsBuiltThisTurn(player: PlayerProps, ctx: GameContext): number {
+  return playerFinances(player).transactions.filter(
+    (t) => t.kind === 'build' && t.round === ctx.round && t.turn === ctx.turn
+  ).length;
+}
+
+/**
+ * Number of tracks already on a route: segments owned by players, plus one if an independent railroad runs on it.
+ *
+ * @param G - Game state
+ * @param routeKey - Route key
+ * @returns 0, 1 or 2
+ */
+export function tracksOnRoute(G: GameState, routeKey: string): number {
+  const owned = G.players.filter(([, props]) => playerTrack(props).some((t) => t.routeKey === routeKey)).length;
+  const independent = Object.values(G.independentRailroads).some((railroad) =>
+    railroad.routes.some((route) => route.key === routeKey)
+  );
+  return owned + (independent ? 1 : 0);
+}
+
+/**
+ * Track the player could build next: routes with an end in their network, that they don't already run on and that
+ * have room for another track. The second track on a route is parallel.
+ *
+ * @param G - Game state
+ * @param player - Player props
+ * @returns Segments with the player's cost (after any hub discount) and the base cost, in routes map order
+ */
+export function buildableTrack(
+  G: GameState,
+  player: PlayerProps
+): (OwnedTrack & { cost: number; baseCost: number })[] {
+  const owned = new Set(playerTrack(player).map((t) => t.routeKey));
+  return [...routes.entries()]
+    .filter(([key, route]) => !owned.has(key) && route.cities.some((city) => player.activeCities.includes(city)))
+    .map(([routeKey]) => ({ routeKey, tracks: tracksOnRoute(G, routeKey) }))
+    .filter(({ tracks }) => tracks < MAX_TRACKS_PER_ROUTE)
+    .map(({ routeKey, tracks }) => {
+      const parallel = tracks > 0;
+      return {
+        routeKey,
+        parallel,
+        cost: trackCostForPlayer(player, routeKey, parallel),
+        baseCost: trackCost(routeKey, parallel),
+      };
+    });
+}
+
+/**
+ * The player's active cities with every city on their owned track added, keeping the existing order (so the current
+ * city stays last unless the network reaches a new city).
+ *
+ * @param activeCities - Current active cities
+ * @param track - Owned track
+ * @returns Active cities including the whole network
+ */
+export function activeCitiesWithTrack(activeCities: string[], track: OwnedTrack[]): string[] {
+  const networkCities = track.flatMap((t) => routes.get(t.routeKey)?.cities ?? []);
+  return [...new Set([...activeCities, ...networkCities])];
+}
+
+/**
+ * The player's active cities after selling track: cities the sold segments reached are dropped unless the remaining
+ * track still reaches them or the player holds them some other way (e.g. a delivery destination or their hub).
+ *
+ * @param activeCities - Current active cities
+ * @param sold - Segments sold
+ * @param remaining - Track the player still owns
+ * @param held - Cities the player keeps whatever their track
+ * @returns Active cities without those only the sold track reached
+ */
+export function activeCitiesWithoutTrack(
+  activeCities: string[],
+  sold: OwnedTrack[],
+  remaining: OwnedTrack[],
+  held: string[]
+): string[] {
+  const kept = new Set([...held, ...remaining.flatMap((t) => routes.get(t.routeKey)?.cities ?? [])]);
+  const lost = new Set(sold.flatMap((t) => routes.get(t.routeKey)?.cities ?? []).filter((city) => !kept.has(city)));
+  return activeCities.filter((city) => !lost.has(city));
+}
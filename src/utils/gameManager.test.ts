@@ -29,9 +29,12 @@ import {
   getDevicePlayerID,
   getDeviceSeat,
   getPlayerSeats,
+  setSaveConflictHandler,
+  updateLastModifiedCache,
+  type ConflictChoice,
 } from './gameManager';
 import type { GameMetadata } from './gameManager';
-import { useGameStore, type GameContext } from '../stores/gameStore';
+import { useGameStore, type GameContext, type GameState } from '../stores/gameStore';
 import {
   generateStartingContract,
   generatePrivateContract,
@@ -42,6 +45,12 @@ import {
 } from '../stores/gameActions';
 import { endTurn as endTurnEvent } from '../stores/events';
 import { checkPhaseTransition } from '../stores/phaseManager';
+import { withMoveLogStart } from '../stores/moveLog';
+import { applyMoveIntent, replayQueuedMoves } from '../stores/moveAuthority';
+import { LocalStorageAdapter } from './storage/localStorageAdapter';
+import { setStorageAdapter } from './storage/index';
+import type { SaveGameResult } from './storage/storageAdapter';
+import { serializeState, type SerializedState } from './stateSerialization';
 
 const localStorageMock = (() => {
   let store: Record<string, string> = {};
@@ -1465,3 +1474,74 @@ describe('Persistence Tests', () => {
     });
   });
 });
+
+describe('Save conflicts', () => {
+  const CODE = 'BCDFG';
+
+  /** Local storage whose first save loses a race to `theirs`, as a cloud save would; returns the saved states. */
+  function raceFirstSave(theirs: SerializedState): SerializedState[] {
+    const saved: SerializedState[] = [];
+    const adapter = new LocalStorageAdapter();
+    vi.spyOn(adapter, 'saveGame').mockImplementation(async (_code, state) => {
+      saved.push(state);
+      const result: SaveGameResult =
+        saved.length === 1
+          ? { success: false, conflict: true, state: theirs, lastModified: 't1' }
+          : { success: true, lastModified: 't2' };
+      return result as unknown as boolean;
+    });
+    setStorageAdapter('local', adapter);
+    return saved;
+  }
+
+  function after(state: SerializedState, move: string, args: unknown[]): SerializedState {
+    const result = applyMoveIntent(state, { move, args }, { playerID: '0', isHost: true });
+    if (!result.ok) throw new Error(result.error);
+    return result.state;
+  }
+
+  function save(state: SerializedState): Promise<boolean> {
+    return saveGameState(CODE, state.G as unknown as GameState, state.ctx as unknown as GameContext, 'local');
+  }
+
+  test('saves made while the player resolves a conflict wait for it and are merged in', async () => {
+    useGameStore.setState((state) => {
+      const ctx = { ...state.ctx, phase: 'play', playOrder: ['0', '1'], playOrderPos: 0, currentPlayer: '0' };
+      return { G: withMoveLogStart(state.G, ctx), ctx };
+    });
+    const { G, ctx } = useGameStore.getState();
+    const base = serializeState(G as unknown as Record<string, unknown>, ctx as unknown as Record<string, unknown>);
+    const theirs = after(base, 'endTurn', []);
+    const ours = after(base, 'borrowMoney', [5000]);
+    const newer = after(ours, 'borrowMoney', [5000]);
+
+    const saved = raceFirstSave(theirs);
+    updateLastModifiedCache(CODE, 't0', base);
+    let answer: (choice: ConflictChoice) => void = () => undefined;
+    setSaveConflictHandler({
+      resolve: () => new Promise((resolve) => (answer = resolve)),
+      replay: (onto, queue) => replayQueuedMoves(onto, queue, true),
+      applyMerged: vi.fn(),
+    });
+
+    try {
+      const first = save(ours);
+      await vi.waitFor(() => expect(saved).toHaveLength(1));
+      const second = save(newer);
+      await Promise.resolve();
+      expect(saved).toHaveLength(1);
+
+      answer('mine');
+      expect(await first).toBe(true);
+      expect(await second).toBe(true);
+      expect(saved).toHaveLength(2);
+      const merged = saved[1];
+      const moves = (merged.G as unknown as GameState).moveLog?.map((entry) => entry.move);
+      expect(moves).toEqual(['borrowMoney', 'borrowMoney', 'endTurn']);
+      expect(merged.ctx.currentPlayer).toBe('1');
+    } finally {
+      setSaveConflictHandler(null);
+      setStorageAdapter('local', new LocalStorageAdapter());
+    }
+  });
+});
@@ -5,10 +5,21 @@
  */
 
 import { getStorageAdapter } from './storage/index';
-import type { StorageAdapter, GameListItem } from './storage/storageAdapter';
+import type {
+  StorageAdapter,
+  GameListItem,
+  MoveIntent,
+  MoveIntentResult,
+  QueuedMove,
+  QueueSyncResult,
+  RejectedMove,
+} from './storage/storageAdapter';
+import { getOfflineQueue, queuedRestoreTarget, setOfflineQueue, type OfflineQueue } from './storage/offlineQueue';
 import { serializeState } from './stateSerialization';
+import { describeConflicts, mergeStates, type MergeConflict, type ReplayMoves } from './stateMerge';
 import type { SerializedState } from './stateSerialization';
 import { shuffleArray } from './random';
+import { toCloudUnavailableError } from './storage/cloudErrors';
 import type { GameState, GameContext } from '../stores/gameStore';
 
 export type StorageType = 'local' | 'cloud';
@@ -17,6 +28,24 @@ export type StorageType = 'local' | 'cloud';
 const CURRENT_GAME_LOCAL_KEY = 'current_game_local';
 const CURRENT_GAME_CLOUD_KEY = 'current_game_cloud';
 
+/** While true, saveGameState does nothing (set while replaying the move log; see replay.ts). */
+let savingSuspended = false;
+
+/**
+ * Suspend or resume saving game state. Replaying the move log runs moves against the store, and their saves must
+ * not overwrite the stored game.
+ *
+ * @param suspended - true to suspend saves, false to resume them
+ */
+export function setSavingSuspended(suspended: boolean): void {
+  savingSuspended = suspended;
+}
+
+/** Whether saving is suspended (see setSavingSuspended). */
+export function isSavingSuspended(): boolean {
+  return savingSuspended;
+}
+
 /** Metadata stored per game (BYOD fields optional). */
 export interface GameMetadata {
   lastModified: string;
@@ -330,6 +359,78 @@ export async function createNewGame(
 // Cache used for optimistic concurrency: expected lastModified when saving (avoids overwriting newer state).
 const lastModifiedCache = new Map<string, string>();
 
+// State each game was in when this device last saved or received it: the base for merging a save that raced
+// another device's (see mergeStates in stateMerge.ts).
+const syncedStateCache = new Map<string, SerializedState>();
+
+/**
+ * A save conflict waiting for the player's choice. Later saves of the game wait for it instead of racing it from the
+ * same stale base (each would conflict again and replace the prompt); the newest of their states is merged in once
+ * the player chooses, and they share the resolving save's result.
+ */
+interface OpenConflict {
+  /** Newest state this device has asked to save since the conflict. */
+  newest: SerializedState;
+  /** Whether the resolving save succeeded. */
+  settled: Promise<boolean>;
+  settle: (saved: boolean) => void;
+}
+
+const openConflicts = new Map<string, OpenConflict>();
+
+function createOpenConflict(state: SerializedState): OpenConflict {
+  let settle: (saved: boolean) => void = () => undefined;
+  const settled = new Promise<boolean>((resolve) => {
+    settle = resolve;
+  });
+  return { newest: state, settled, settle };
+}
+
+/** Leave a save to the conflict being resolved, keeping its state if it is newer (local move logs only grow). */
+function deferToConflict(conflict: OpenConflict, state: SerializedState): Promise<boolean> {
+  const length = (s: SerializedState) => (s.G.moveLog as unknown[] | undefined)?.length ?? 0;
+  if (length(state) >= length(conflict.newest)) conflict.newest = state;
+  return conflict.settled;
+}
+
+/** Saves that keep losing races to other devices give up after this many attempts. */
+const MAX_SAVE_ATTEMPTS = 3;
+
+/** Which side to keep where both devices' changes cannot stand together. */
+export type ConflictChoice = 'mine' | 'theirs';
+
+/** How the app takes part in resolving save conflicts (see setSaveConflictHandler). */
+export interface SaveConflictHandler {
+  /** Ask the player which side to keep for changes that conflict. */
+  resolve: (code: string, conflicts: MergeConflict[]) => Promise<ConflictChoice>;
+  /** Replay one side's moves onto the other's state, to merge by (see mergeStates). */
+  replay: ReplayMoves;
+  /** Show the merged state that was saved in place of this device's state. */
+  applyMerged: (code: string, state: SerializedState, lastModified: string | null) => void;
+}
+
+let saveConflictHandler: SaveConflictHandler | null = null;
+
+/**
+ * Register how save conflicts are resolved. Without a handler moves cannot be replayed to merge, so a save that
+ * raced another device's keeps that device's state.
+ *
+ * @param handler - Conflict prompt, move replay and merged-state callback, or null to remove it
+ */
+export function setSaveConflictHandler(handler: SaveConflictHandler | null): void {
+  saveConflictHandler = handler;
+}
+
+/**
+ * State the game was in when this device last saved or received it (the base for merging remote changes).
+ *
+ * @param code - Game code
+ * @returns Last synced state, or null if this device has none
+ */
+export function getSyncedState(code: string): SerializedState | null {
+  return isValidGameCode(code) ? syncedStateCache.get(normalizeGameCode(code)) ?? null : null;
+}
+
 export async function saveGameState(
   code: string,
   G: GameState,
@@ -338,6 +439,8 @@ export async function saveGameState(
 ): Promise<boolean> {
   const operation = 'saveGameState';
 
+  if (savingSuspended) return false;
+
   if (!isValidGameCode(code)) {
     console.error(`[${operation}] Invalid game code format:`, code);
     return false;
@@ -365,6 +468,10 @@ export async function saveGameState(
       ctx as unknown as Record<string, unknown>
     );
 
+    // While the player is choosing how to resolve a save conflict, this save waits for that one (see OpenConflict)
+    const openConflict = openConflicts.get(normalizedCode);
+    if (openConflict) return deferToConflict(openConflict, state);
+
     // Resolve adapter: use storageType when provided; otherwise which current-game key has this code (BYOD saves must go to cloud)
     let adapterStorageType: StorageType;
     if (storageType === 'local' || storageType === 'cloud') {
@@ -381,6 +488,11 @@ export async function saveGameState(
       }
     }
 
+    // Once moves are queued offline, later ones queue behind them until syncOfflineMoves replays them in order
+    if (adapterStorageType === 'cloud' && getOfflineQueue(normalizedCode)) {
+      return queueOfflineMoves(normalizedCode, state);
+    }
+
     const adapter = getAdapter(adapterStorageType);
     let existingMetadata: Record<string, unknown> = {};
     try {
@@ -396,37 +508,90 @@ export async function saveGameState(
       lastModified: new Date().toISOString(),
     } as Record<string, unknown>;
 
-    // Optimistic concurrency: pass expected lastModified when cache is fresh (< 30s)
-    let expectedLastModified: string | null = null;
-    if (adapter.getLastModified && typeof adapter.getLastModified === 'function') {
-      const cachedTimestamp = lastModifiedCache.get(normalizedCode);
-      if (cachedTimestamp) {
-        const cacheAge = Date.now() - new Date(cachedTimestamp).getTime();
-        if (cacheAge < 30000) {
-          expectedLastModified = cachedTimestamp;
+    // Optimistic concurrency: when this device knows the state it last saw, pass its lastModified so a save that
+    // raced another device's is merged with it instead of overwriting it
+    let base = syncedStateCache.get(normalizedCode) ?? null;
+    let expectedLastModified = base ? lastModifiedCache.get(normalizedCode) ?? null : null;
+    let toSave = state;
+
+    const localBase = base;
+    let ours = state;
+    let conflict: OpenConflict | null = null;
+    let saved = false;
+    try {
+      for (let attempt = 1; ; attempt++) {
+        const result = await adapter.saveGame(normalizedCode, toSave, metadata, expectedLastModified);
+
+        if (typeof result === 'boolean') {
+          if (result) syncedStateCache.set(normalizedCode, toSave);
+          return result;
         }
-      }
-    }
+        if (!result || typeof result !== 'object') return false;
 
-    const result = await adapter.saveGame(normalizedCode, state, metadata, expectedLastModified);
+        if (result.success) {
+          let lastModified = result.lastModified ?? null;
+          if (!lastModified && adapter.getLastModified) {
+            lastModified = await adapter.getLastModified(normalizedCode);
+          }
+          if (lastModified) lastModifiedCache.set(normalizedCode, lastModified);
+          syncedStateCache.set(normalizedCode, toSave);
+          if (toSave !== state) saveConflictHandler?.applyMerged(normalizedCode, toSave, lastModified);
+          saved = true;
+          return true;
+        }
 
-    let success = false;
+        if (result.unavailable && adapterStorageType === 'cloud') {
+          saved = queueOfflineMoves(normalizedCode, ours);
+          return saved;
+        }
 
-    if (typeof result === 'boolean') {
-      success = result;
-    } else if (result && typeof result === 'object') {
-      success = result.success === true;
-      if (success && result.lastModified) {
-        lastModifiedCache.set(normalizedCode, result.lastModified);
-      } else if (success && adapter.getLastModified) {
-        const newLastModified = await adapter.getLastModified(normalizedCode);
-        if (newLastModified) {
-          lastModifiedCache.set(normalizedCode, newLastModified);
+        if (!result.conflict || !result.state || !base || !localBase) return false;
+        if (attempt >= MAX_SAVE_ATTEMPTS) {
+          console.warn(`[${operation}] Giving up on game "${normalizedCode}" after ${attempt} conflicting saves`);
+          return false;
         }
+
+        const replay = saveConflictHandler?.replay ?? null;
+        const merge = mergeStates(base, toSave, result.state, replay);
+        let merged = merge.state;
+        if (merge.conflicts.length > 0) {
+          const open = openConflicts.get(normalizedCode);
+          if (open && open !== conflict) {
+            saved = await deferToConflict(open, ours);
+            return saved;
+          }
+
+          console.warn(
+            `[${operation}] Conflicting changes in game "${normalizedCode}":`,
+            describeConflicts(merge.conflicts)
+          );
+          conflict ??= createOpenConflict(state);
+          openConflicts.set(normalizedCode, conflict);
+          const choice = saveConflictHandler
+            ? await saveConflictHandler.resolve(normalizedCode, merge.conflicts)
+            : 'theirs';
+          openConflicts.delete(normalizedCode);
+
+          const prefer = choice === 'mine' ? 'ours' : 'theirs';
+          if (conflict.newest !== ours) {
+            // Saves made while the player was choosing waited for this one; their moves build on the state from before
+            // the conflict
+            ours = conflict.newest;
+            merged = mergeStates(localBase, ours, result.state, replay, prefer).state;
+          } else if (prefer === 'ours') {
+            merged = mergeStates(base, toSave, result.state, replay, 'ours').state;
+          }
+        }
+        base = result.state;
+        toSave = merged;
+        expectedLastModified = result.lastModified ?? null;
+      }
+    } finally {
+      if (conflict) {
+        if (openConflicts.get(normalizedCode) === conflict) openConflicts.delete(normalizedCode);
+        conflict.settle(saved);
       }
     }
-
-    return success;
   } catch (e) {
     const err = e as Error;
     console.error(
@@ -439,17 +604,195 @@ export async function saveGameState(
   }
 }
 
+/**
+ * Queue the moves in `state` made since the last synced state, to replay once the cloud is reachable (queued moves
+ * count as saved). Games without a move log cannot queue.
+ */
+function queueOfflineMoves(normalizedCode: string, state: SerializedState): boolean {
+  const baseLog = syncedStateCache.get(normalizedCode)?.G.moveLog;
+  const log = state.G.moveLog as QueuedMove[] | undefined;
+  if (!baseLog || !log) {
+    console.error(`[saveGameState] Cloud storage is unreachable and game "${normalizedCode}" cannot queue moves`);
+    return false;
+  }
+  const moves = log.slice(baseLog.length).map(({ move, args, playerID, time }) => ({ move, args, playerID, time }));
+  console.info(`[saveGameState] Cloud storage is unreachable; ${moves.length} move(s) queued for "${normalizedCode}"`);
+  setOfflineQueue(normalizedCode, { baseLength: baseLog.length, moves });
+  return true;
+}
+
+/**
+ * Replay the moves queued while offline onto the latest stored state, save the result and clear the queue. Moves
+ * that no longer apply (e.g. another player moved first) are dropped and reported in the result.
+ *
+ * @param code - Game code
+ * @param replay - Applies the queued moves to the latest state (replayQueuedMoves in moveAuthority.ts)
+ * @returns The sync result, or null if nothing is queued
+ */
+export async function syncOfflineMoves(
+  code: string,
+  replay: ReplayMoves
+): Promise<QueueSyncResult | null> {
+  const operation = 'syncOfflineMoves';
+
+  if (!isValidGameCode(code)) {
+    console.error(`[${operation}] Invalid game code format:`, code);
+    return null;
+  }
+
+  const normalizedCode = normalizeGameCode(code);
+  const queue = getOfflineQueue(normalizedCode);
+  if (!queue) return null;
+
+  const adapter = getAdapter('cloud');
+  if (adapter.hasMoveAuthority()) return submitQueuedMoves(normalizedCode, queue);
+
+  const result = await adapter.syncQueuedMoves(normalizedCode, (latest) => replay(latest, queue));
+  if (!result.ok) {
+    if (!result.unavailable) console.error(`[${operation}] Failed to sync game "${normalizedCode}":`, result.error);
+    return result;
+  }
+
+  if (result.lastModified) lastModifiedCache.set(normalizedCode, result.lastModified);
+  syncedStateCache.set(normalizedCode, result.state);
+  // Moves queued while the sync was running stay queued, now based on the synced state
+  const syncedLength = (result.state.G.moveLog as unknown[] | undefined)?.length ?? 0;
+  const shift = syncedLength - queue.baseLength - queue.moves.length;
+  const remaining = (getOfflineQueue(normalizedCode)?.moves.slice(queue.moves.length) ?? []).map((queued) => {
+    const target = queuedRestoreTarget(queued, queue.baseLength);
+    return target === null
+      ? queued
+      : { ...queued, args: [queue.baseLength + target + shift, ...queued.args.slice(1)] };
+  });
+  setOfflineQueue(normalizedCode, { baseLength: syncedLength, moves: remaining });
+  if (result.rejected.length > 0) {
+    console.warn(`[${operation}] ${result.rejected.length} queued move(s) no longer apply to game "${normalizedCode}"`);
+  }
+  return result;
+}
+
+/**
+ * Send the moves queued while offline to the game's move authority as move intents, in order, instead of replaying
+ * them here and saving the whole state. The authority checks each like any other move; those it rejects are dropped
+ * and reported. If the cloud becomes unreachable part way, the moves not yet sent stay queued.
+ */
+async function submitQueuedMoves(normalizedCode: string, queue: OfflineQueue): Promise<QueueSyncResult> {
+  const operation = 'syncOfflineMoves';
+
+  // Where each queued move the authority accepted sits in its log, for later restores that return to it
+  const positions = new Map<number, number>();
+  const rejected: RejectedMove[] = [];
+  let state = syncedStateCache.get(normalizedCode) ?? null;
+  let lastModified: string | null = null;
+  let sent = 0;
+
+  for (const [index, queued] of queue.moves.entries()) {
+    let args = queued.args;
+    const target = queuedRestoreTarget(queued, queue.baseLength);
+    if (target !== null) {
+      const position = positions.get(target);
+      if (position === undefined) {
+        rejected.push({ move: queued, error: 'It returns to a move that was not synced' });
+        sent++;
+        continue;
+      }
+      args = [position, ...args.slice(1)];
+    }
+
+    const result = await submitMoveIntent(normalizedCode, { move: queued.move, args });
+    if (!result.ok && result.unavailable) {
+      if (sent === 0) return { ok: false, unavailable: true, error: result.error };
+      break;
+    }
+    sent++;
+    if (result.state) state = result.state;
+    if (result.ok) {
+      lastModified = result.lastModified ?? lastModified;
+      positions.set(index, ((result.state.G.moveLog as unknown[] | undefined)?.length ?? 0) - 1);
+    } else {
+      rejected.push({ move: queued, error: result.error });
+    }
+  }
+  if (!state) {
+    return { ok: false, unavailable: false, error: `No state for game "${normalizedCode}" to sync onto` };
+  }
+
+  // Moves not sent, and any queued while sending, stay queued after the authority's latest state
+  const syncedLength = (state.G.moveLog as unknown[] | undefined)?.length ?? 0;
+  const remaining: QueuedMove[] = [];
+  for (const queued of getOfflineQueue(normalizedCode)?.moves.slice(sent) ?? []) {
+    const target = queuedRestoreTarget(queued, queue.baseLength);
+    if (target === null) {
+      remaining.push(queued);
+      continue;
+    }
+    // A restore to a move just sent returns to where the authority put it; to one still queued, to where it will sit
+    const position = target < sent ? positions.get(target) : syncedLength + target - sent;
+    if (position === undefined) {
+      rejected.push({ move: queued, error: 'It returns to a move that was not synced' });
+      continue;
+    }
+    remaining.push({ ...queued, args: [position, ...queued.args.slice(1)] });
+  }
+  setOfflineQueue(normalizedCode, { baseLength: syncedLength, moves: remaining });
+  if (rejected.length > 0) {
+    console.warn(`[${operation}] The move authority rejected ${rejected.length} queued move(s) in "${normalizedCode}"`);
+  }
+  return { ok: true, lastModified, state, applied: positions.size, rejected };
+}
+
 export function clearLastModifiedCache(code: string): void {
   if (isValidGameCode(code)) {
     const normalizedCode = normalizeGameCode(code);
     lastModifiedCache.delete(normalizedCode);
+    syncedStateCache.delete(normalizedCode);
   }
 }
 
-export function updateLastModifiedCache(code: string, lastModified: string): void {
+export function updateLastModifiedCache(code: string, lastModified: string, state?: SerializedState): void {
   if (isValidGameCode(code) && lastModified) {
     const normalizedCode = normalizeGameCode(code);
     lastModifiedCache.set(normalizedCode, lastModified);
+    if (state) syncedStateCache.set(normalizedCode, state);
+  }
+}
+
+/**
+ * Submit a BYOD move intent to the game's move authority (see MoveIntent). The authority saves the canonical
+ * state; it is returned here too so the submitting device can apply it without waiting for the subscription.
+ *
+ * @param code - Game code
+ * @param intent - Move and arguments
+ * @returns Canonical state after the move, or why it was rejected
+ */
+export async function submitMoveIntent(code: string, intent: MoveIntent): Promise<MoveIntentResult> {
+  const operation = 'submitMoveIntent';
+
+  if (!isValidGameCode(code)) {
+    console.error(`[${operation}] Invalid game code format:`, code);
+    return { ok: false, error: `Invalid game code format: ${code}` };
+  }
+
+  const normalizedCode = normalizeGameCode(code);
+
+  try {
+    const result = await getAdapter('cloud').submitMoveIntent(normalizedCode, intent);
+    if (result.ok && result.lastModified) {
+      lastModifiedCache.set(normalizedCode, result.lastModified);
+      syncedStateCache.set(normalizedCode, result.state);
+    }
+    return result;
+  } catch (e) {
+    const err = e as Error;
+    if (toCloudUnavailableError(e)) {
+      console.warn(`[${operation}] Cloud storage is unreachable; "${intent.move}" not sent for "${normalizedCode}"`);
+      return { ok: false, error: err.message, unavailable: true };
+    }
+    console.error(
+      `[${operation}] Unexpected error submitting "${intent.move}" for game "${normalizedCode}":`,
+      err.message
+    );
+    return { ok: false, error: err.message };
   }
 }
 
@@ -475,6 +818,7 @@ export async function loadGameState(
         const lastModified = await adapter.getLastModified(normalizedCode);
         if (lastModified) {
           lastModifiedCache.set(normalizedCode, lastModified);
+          syncedStateCache.set(normalizedCode, state);
         }
       }
 
@@ -493,6 +837,7 @@ export async function loadGameState(
           const lastModified = await cloudAdapter.getLastModified(normalizedCode);
           if (lastModified) {
             lastModifiedCache.set(normalizedCode, lastModified);
+            syncedStateCache.set(normalizedCode, state);
           }
         }
         return state as unknown as { G: GameState; ctx: GameContext };
@@ -68,4 +68,34 @@ export function cardinalDirection(fromKey, toKey) {
     return "south";
   else
     return "west";
-}
\ No newline at end of file
+}
+
+// Mean radius of the Earth in miles
+const EARTH_RADIUS_MILES = 3958.8;
+
+/**
+ * Given two cities, returns the great-circle distance between them in miles
+ *
+ * @export
+ * @param {string} fromKey
+ * @param {string} toKey
+ * @returns {number | undefined}
+ */
+export function distanceInMiles(fromKey, toKey) {
+
+  const fromCity = cities.get(fromKey);
+  const toCity = cities.get(toKey);
+
+  if (fromCity === undefined || toCity === undefined) {
+    console.error(`distanceInMiles("${fromKey}", "${toKey}"): could not find both keys`);
+    return undefined;
+  }
+
+  const fromLat = fromCity.latitude * DEG_TO_RAD;
+  const toLat = toCity.latitude * DEG_TO_RAD;
+  const dLat = toLat - fromLat;
+  const dLong = (toCity.longitude - fromCity.longitude) * DEG_TO_RAD;
+
+  const a = Math.sin(dLat / 2) ** 2 + Math.cos(fromLat) * Math.cos(toLat) * Math.sin(dLong / 2) ** 2;
+  return 2 * EARTH_RADIUS_MILES * Math.asin(Math.sqrt(a));
+}
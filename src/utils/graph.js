@@ -139,3 +139,60 @@ export function shortestDistance(fromKey, toCityTestFn, routeTestFn = () => true
   // No matching city found
   return undefined;
 }
+
+/**
+ * Returns the total track length (sum of route lengths) of the shortest path from any of the given cities
+ * to the closest city that matches a function
+ * 
+ * @export
+ * @param {string[]|Set<string>} fromCitiesKeys - Keys of cities to measure from
+ * @param {function} toCityTestFn - Function to test destination city, receives city key string (e.g. c => c === "New York")
+ * @param {function} [routeTestFn] - Function to filter routes, receives route object (e.g. r => !r.mountainous)
+ * @returns {number|undefined} - Total track length, or undefined if no matching city is reachable
+ */
+export function shortestTrackLength(fromCitiesKeys, toCityTestFn, routeTestFn = () => true) {
+  // Dijkstra's algorithm; the map is small enough that a linear scan for the closest unsettled city is fine
+  const lengths = new Map();
+  for (const fromKey of fromCitiesKeys ?? []) {
+    if (cities.has(fromKey)) {
+      lengths.set(fromKey, 0);
+    }
+  }
+  const settled = new Set();
+
+  while (settled.size < lengths.size) {
+    let currentCity = '';
+    let currentLength = Infinity;
+    for (const [cityKey, length] of lengths) {
+      if (!settled.has(cityKey) && length < currentLength) {
+        currentCity = cityKey;
+        currentLength = length;
+      }
+    }
+    settled.add(currentCity);
+
+    if (toCityTestFn(currentCity)) {
+      return currentLength;
+    }
+
+    const city = cities.get(currentCity);
+    if (!city) continue;
+
+    // Relax each route from this city
+    for (const routeKey of city.routes) {
+      const route = routes.get(routeKey);
+      if (!route || !routeTestFn(route)) continue;
+
+      const neighborCity = route.cities.find(cityOnRoute => cityOnRoute !== currentCity);
+      if (!neighborCity || settled.has(neighborCity)) continue;
+
+      const viaCurrent = currentLength + route.length;
+      if (viaCurrent < (lengths.get(neighborCity) ?? Infinity)) {
+        lengths.set(neighborCity, viaCurrent);
+      }
+    }
+  }
+
+  // No matching city found
+  return undefined;
+}
@@ -1,3 +1,52 @@
+// State of the seeded generator shared by every function in this module. Games store it in G (see seedRandom and
+// getRandomState) so the same seed and moves always produce the same contracts and railroads.
+let generatorState = newSeed();
+
+/**
+ * Returns a new seed from the platform's unseeded generator
+ *
+ * @export
+ * @returns {number} - Unsigned 32-bit integer
+ */
+export function newSeed() {
+  return Math.floor(Math.random() * 0x100000000) >>> 0;
+}
+
+/**
+ * Sets the state of the seeded generator. Pass a new seed to start a game, or a saved getRandomState() to resume one
+ *
+ * @export
+ * @param {number} state - Unsigned 32-bit integer
+ */
+export function seedRandom(state) {
+  generatorState = state >>> 0;
+}
+
+/**
+ * Returns the current state of the seeded generator, to be saved and later passed to seedRandom
+ *
+ * @export
+ * @returns {number} - Unsigned 32-bit integer
+ */
+export function getRandomState() {
+  return generatorState;
+}
+
+/**
+ * Returns a uniformly distributed number in [0, 1) from the seeded generator (Mulberry32).
+ * Use this instead of Math.random for anything that affects the game.
+ *
+ * @export
+ * @returns {number}
+ */
+export function random() {
+  generatorState = (generatorState + 0x6d2b79f5) >>> 0;
+  let t = generatorState;
+  t = Math.imul(t ^ (t >>> 15), t | 1);
+  t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+  return ((t ^ (t >>> 14)) >>> 0) / 0x100000000;
+}
+
 /**
  * Randomly pick a key from a map, weighted by the relative integer value of the keys
  *
@@ -17,7 +66,7 @@ export function weightedRandom(weightedMap) {
     return undefined;
   }
 
-  const finalDieRoll = Math.floor(Math.random() * sumValues);
+  const finalDieRoll = Math.floor(random() * sumValues);
   let skipped = 0;
   
   for (const [choice, value] of weightedMap) {
@@ -57,8 +106,8 @@ export function gaussianRandom() {
  */
 function _gaussianRandomInternal(iterations) {
   // Box-Muller transform to generate Gaussian distribution
-  const u = 1 - Math.random(); // Subtract to flip [0, 1) to (0, 1] (avoid log(0))
-  let num = Math.sqrt(-2.0 * Math.log(u)) * Math.cos(2.0 * Math.PI * Math.random());
+  const u = 1 - random(); // Subtract to flip [0, 1) to (0, 1] (avoid log(0))
+  let num = Math.sqrt(-2.0 * Math.log(u)) * Math.cos(2.0 * Math.PI * random());
   
   // Scale and translate: divide by std dev divisor and shift to center at 0.5
   num = num / GAUSSIAN_STD_DEV_DIVISOR + 0.5;
@@ -72,7 +121,7 @@ function _gaussianRandomInternal(iterations) {
       // Note: This is extremely rare but ensures function always returns a valid value
       // Tradeoff: silently changes distribution type, but prevents potential infinite recursion
       console.warn('gaussianRandom: exceeded max iterations, falling back to uniform distribution');
-      return Math.random();
+      return random();
     }
   }
 
@@ -89,7 +138,7 @@ function _gaussianRandomInternal(iterations) {
  */
 export function randomArrayItem(arr) {
   if (arr && arr.length > 0) {
-    return arr[Math.floor(Math.random() * arr.length)];
+    return arr[Math.floor(random() * arr.length)];
   } else {
     return undefined;
   }
@@ -106,7 +155,7 @@ export function randomArrayItem(arr) {
 export function randomSetItem(set) {
   if (set && set.size > 0) {
     const array = [...set];
-    return array[Math.floor(Math.random() * array.length)];
+    return array[Math.floor(random() * array.length)];
   } else {
     return undefined;
   }
@@ -126,7 +175,7 @@ export function shuffleArray(array) {
   
   // Fisher-Yates shuffle
   for (let i = array.length - 1; i > 0; i--) {
-    const j = Math.floor(Math.random() * (i + 1));
+    const j = Math.floor(random() * (i + 1));
     [array[i], array[j]] = [array[j], array[i]];
   }
   
@@ -0,0 +1,23 @@
+import { describe, test, expect } from 'vitest';
+import { getRandomState, random, seedRandom, shuffleArray } from './random';
+
+describe('seeded generator', () => {
+  test('repeats the same sequence for the same seed', () => {
+    seedRandom(42);
+    const first = [random(), random(), random()];
+    seedRandom(42);
+
+    expect([random(), random(), random()]).toEqual(first);
+    expect(first.every((n) => n >= 0 && n < 1)).toBe(true);
+  });
+
+  test('resumes from a saved state', () => {
+    seedRandom(7);
+    random();
+    const state = getRandomState();
+    const next = shuffleArray([1, 2, 3, 4, 5, 6]);
+    seedRandom(state);
+
+    expect(shuffleArray([1, 2, 3, 4, 5, 6])).toEqual(next);
+  });
+});
@@ -0,0 +1,100 @@
+import { describe, test, expect, beforeEach } from 'vitest';
+import { mergeStates, type ReplayMoves } from './stateMerge';
+import { serializeState, type SerializedState } from './stateSerialization';
+import { getRandomState, seedRandom } from './random';
+import { useGameStore, type GameState } from '../stores/gameStore';
+import { withMoveLogStart } from '../stores/moveLog';
+import { applyMoveIntent, replayQueuedMoves } from '../stores/moveAuthority';
+import { replayMoveLog } from '../stores/replay';
+
+type StoredG = ReturnType<typeof useGameStore.getState>['G'];
+
+const replay: ReplayMoves = (onto, queue) => replayQueuedMoves(onto, queue, true);
+
+function startPlay(): SerializedState {
+  useGameStore.getState().resetState();
+  seedRandom(42);
+  useGameStore.setState((state) => {
+    const ctx = { ...state.ctx, phase: 'play', playOrder: ['0', '1'], playOrderPos: 0, currentPlayer: '0' };
+    const G = {
+      ...state.G,
+      players: state.G.players.map(([id, props]) => [id, { ...props, activeCities: ['Chicago', 'Detroit'] }]),
+      seed: 42,
+      rngState: getRandomState(),
+    } as typeof state.G;
+    return { G: withMoveLogStart(G, ctx), ctx, turnStartSnapshot: structuredClone({ G, ctx }) };
+  });
+  const { G, ctx } = useGameStore.getState();
+  return serializeState(G as unknown as Record<string, unknown>, ctx as unknown as Record<string, unknown>);
+}
+
+/** State after `playerID` makes a move on `state`. */
+function after(state: SerializedState, move: string, args: unknown[], playerID = '0'): SerializedState {
+  const result = applyMoveIntent(state, { move, args }, { playerID, isHost: true });
+  if (!result.ok) throw new Error(result.error);
+  return result.state;
+}
+
+function playerOf(state: SerializedState, playerID: string): StoredG['players'][number][1] | undefined {
+  return (state.G as unknown as StoredG).players.find(([id]) => id === playerID)?.[1];
+}
+
+function moveNames(state: SerializedState): string[] | undefined {
+  return (state.G as unknown as StoredG).moveLog?.map((entry) => entry.move);
+}
+
+describe('mergeStates', () => {
+  let base: SerializedState;
+
+  beforeEach(() => {
+    base = startPlay();
+  });
+
+  test('replays our new moves after theirs, keeping each player\'s finances and ledger together', () => {
+    const ours = after(base, 'borrowMoney', [5000]);
+    const theirs = after(base, 'borrowMoney', [10000]);
+
+    const { state, conflicts } = mergeStates(base, ours, theirs, replay);
+    expect(conflicts).toEqual([]);
+    expect(moveNames(state)).toEqual(['borrowMoney', 'borrowMoney']);
+    expect(playerOf(state, '0')?.debt).toBe(15000);
+    expect(playerOf(state, '0')?.transactions).toHaveLength(2);
+
+    // The merged state is what its own move log replays to
+    const G = state.G as unknown as GameState;
+    expect(replayMoveLog(G, G.moveLog?.length ?? 0)?.G.players).toEqual(G.players);
+  });
+
+  test('reports our moves that no longer apply and keeps the preferred side', () => {
+    const ours = after(base, 'borrowMoney', [5000]);
+    const theirs = after(base, 'endTurn', []);
+
+    const merged = mergeStates(base, ours, theirs, replay);
+    expect(merged.conflicts).toEqual([{ path: 'moveLog.0', description: expect.stringContaining('borrowMoney') }]);
+    expect(merged.state).toEqual(theirs);
+
+    const mine = mergeStates(base, ours, theirs, replay, 'ours').state;
+    expect(moveNames(mine)).toEqual(['borrowMoney', 'endTurn']);
+    expect(playerOf(mine, '0')?.debt).toBe(5000);
+    expect(mine.ctx.currentPlayer).toBe('1');
+  });
+
+  test('takes ours whole when theirs is our own earlier save', () => {
+    const theirs = after(base, 'borrowMoney', [5000]);
+    const ours = after(theirs, 'borrowMoney', [5000]);
+
+    expect(mergeStates(base, ours, theirs, replay)).toEqual({ state: ours, conflicts: [] });
+  });
+
+  test('without a replay, keeps the preferred side whole when both sides changed', () => {
+    const ours = after(base, 'borrowMoney', [5000]);
+    const theirs = after(base, 'borrowMoney', [10000]);
+
+    expect(mergeStates(base, ours, base, null)).toEqual({ state: ours, conflicts: [] });
+    expect(mergeStates(base, ours, theirs, null)).toEqual({
+      state: theirs,
+      conflicts: [{ path: 'game', description: 'the game' }],
+    });
+    expect(mergeStates(base, ours, theirs, null, 'ours').state).toEqual(ours);
+  });
+});
@@ -0,0 +1,113 @@
+/**
+ * Three-way merge of serialized game states, for saves that raced another device's save.
+ *
+ * Game fields change together (a player's cash with their debt and ledger, a contract with its claimant, ctx with the
+ * move log and random state), so states are not merged field by field. Instead one side's new moves are replayed,
+ * through the game's own move logic, onto the other side's state: the merge is always a state its own move log
+ * replays to. Moves that no longer apply (e.g. both devices claimed the same contract) are the conflicts. When
+ * theirs' new moves are the start of ours (this device's own earlier save), ours already includes them and is taken
+ * whole. States that cannot be replayed (no move log, or no replay available) merge only when one side is unchanged.
+ */
+
+import type { SerializedState } from './stateSerialization';
+import type { OfflineQueue } from './storage/offlineQueue';
+import type { QueuedMove, QueuedMoveReplay } from './storage/storageAdapter';
+
+/** A change both sides made that cannot be kept alongside the other side's. */
+export interface MergeConflict {
+  /** What conflicted, e.g. 'moveLog.12' for a move that no longer applies, or 'game'. */
+  path: string;
+  /** What it is, for the player deciding which side to keep (e.g. "Alice's claimContract"). */
+  description: string;
+}
+
+/** Result of mergeStates. */
+export interface MergeResult {
+  /** Merged state, with the preferred side's changes kept where they conflict. */
+  state: SerializedState;
+  /** Changes that conflicted (empty when the merge is clean). */
+  conflicts: MergeConflict[];
+}
+
+/** Applies queued moves to a state, each checked like a move intent (replayQueuedMoves in moveAuthority.ts). */
+export type ReplayMoves = (onto: SerializedState, queue: OfflineQueue) => QueuedMoveReplay;
+
+/**
+ * Merge two states that were both derived from `base`.
+ *
+ * @param base - State both sides started from (last state this device saved or received)
+ * @param ours - This device's state
+ * @param theirs - State saved by another device meanwhile
+ * @param replay - Replays moves onto a state, or null to merge only states where one side is unchanged
+ * @param prefer - Side whose changes are kept where they conflict (default: theirs)
+ * @returns Merged state and the conflicting changes
+ */
+export function mergeStates(
+  base: SerializedState,
+  ours: SerializedState,
+  theirs: SerializedState,
+  replay: ReplayMoves | null,
+  prefer: 'ours' | 'theirs' = 'theirs'
+): MergeResult {
+  if (isEqual(ours, base) || isEqual(ours, theirs)) return { state: structuredClone(theirs), conflicts: [] };
+  if (isEqual(theirs, base)) return { state: structuredClone(ours), conflicts: [] };
+
+  const start = base.G.moveLog?.length;
+  const ourLog = ours.G.moveLog as QueuedMove[] | undefined;
+  const theirLog = theirs.G.moveLog as QueuedMove[] | undefined;
+  if (start === undefined || !ourLog || !theirLog || ourLog.length < start || theirLog.length < start || !replay) {
+    const conflicts = [{ path: 'game', description: 'the game' }];
+    return { state: structuredClone(prefer === 'ours' ? ours : theirs), conflicts };
+  }
+
+  const ourNew = ourLog.slice(start);
+  const theirNew = theirLog.slice(start);
+  const shared = sharedPrefixLength(ourNew, theirNew);
+  if (theirNew.length > 0 && shared === theirNew.length) return { state: structuredClone(ours), conflicts: [] };
+
+  // The preferred side stays as it is; the other side's moves that still apply follow it
+  const [onto, moved] = prefer === 'ours' ? [ours, theirNew] : [theirs, ourNew];
+  const baseLength = start + shared;
+  const moves: QueuedMove[] = moved
+    .slice(shared)
+    .map(({ move, args, playerID, time }) => ({ move, args, playerID, time }));
+  const result = replay(onto, { baseLength, moves });
+  const conflicts = result.rejected.map(({ move }) => ({
+    path: `moveLog.${baseLength + moves.indexOf(move)}`,
+    description: describeMove(move, onto),
+  }));
+  return { state: result.state, conflicts };
+}
+
+/**
+ * Human-readable summary of merge conflicts.
+ *
+ * @param conflicts - Conflicts from mergeStates
+ * @returns e.g. "Alice's claimContract, Bob's buildTrack"
+ */
+export function describeConflicts(conflicts: MergeConflict[]): string {
+  return conflicts.map((conflict) => conflict.description).join(', ');
+}
+
+function describeMove(move: QueuedMove, state: SerializedState): string {
+  const players = state.G.players as [string, { name?: string }][];
+  const name = players.find(([playerID]) => playerID === move.playerID)?.[1].name ?? `Player ${move.playerID}`;
+  return `${name}'s ${move.move}`;
+}
+
+/** Number of leading entries two lists have in common. */
+function sharedPrefixLength(a: unknown[], b: unknown[]): number {
+  let shared = 0;
+  while (shared < a.length && shared < b.length && isEqual(a[shared], b[shared])) shared++;
+  return shared;
+}
+
+function isEqual(a: unknown, b: unknown): boolean {
+  if (a === b) return true;
+  if (a === null || b === null || typeof a !== 'object' || typeof b !== 'object') return false;
+  if (Array.isArray(a) !== Array.isArray(b)) return false;
+  const aKeys = Object.keys(a);
+  const bKeys = Object.keys(b);
+  if (aKeys.length !== bKeys.length) return false;
+  return aKeys.every((key) => isEqual((a as Record<string, unknown>)[key], (b as Record<string, unknown>)[key]));
+}
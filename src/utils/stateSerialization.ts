@@ -10,6 +10,16 @@ export interface SerializedState {
     players: unknown[];
     independentRailroads: Record<string, unknown>;
     lastRoundRoutesAdded?: number;
+    connectionBonuses?: unknown[];
+    monopolies?: Record<string, string>;
+    westCoastDeliveries?: string[];
+    startingRoutePreferences?: Record<string, unknown[]>;
+    goFirstNextRound?: string;
+    bankruptcy?: Record<string, unknown>;
+    seed?: number;
+    rngState?: number;
+    moveLog?: unknown[];
+    moveLogStart?: Record<string, unknown>;
   };
   ctx: Record<string, unknown>;
 }
@@ -36,6 +46,28 @@ export function serializeState(
     ...(typeof (G as { lastRoundRoutesAdded?: number }).lastRoundRoutesAdded === 'number' && {
       lastRoundRoutesAdded: (G as { lastRoundRoutesAdded: number }).lastRoundRoutesAdded,
     }),
+    ...(Array.isArray(G.connectionBonuses) && {
+      connectionBonuses: deepClone(G.connectionBonuses) as unknown[],
+    }),
+    ...(G.monopolies != null && typeof G.monopolies === 'object' && {
+      monopolies: deepClone(G.monopolies) as Record<string, string>,
+    }),
+    ...(Array.isArray(G.westCoastDeliveries) && {
+      westCoastDeliveries: deepClone(G.westCoastDeliveries) as string[],
+    }),
+    ...(G.startingRoutePreferences != null && typeof G.startingRoutePreferences === 'object' && {
+      startingRoutePreferences: deepClone(G.startingRoutePreferences) as Record<string, unknown[]>,
+    }),
+    ...(typeof G.goFirstNextRound === 'string' && { goFirstNextRound: G.goFirstNextRound }),
+    ...(G.bankruptcy != null && typeof G.bankruptcy === 'object' && {
+      bankruptcy: deepClone(G.bankruptcy) as Record<string, unknown>,
+    }),
+    ...(typeof G.seed === 'number' && { seed: G.seed }),
+    ...(typeof G.rngState === 'number' && { rngState: G.rngState }),
+    ...(Array.isArray(G.moveLog) && { moveLog: deepClone(G.moveLog) as unknown[] }),
+    ...(G.moveLogStart != null && typeof G.moveLogStart === 'object' && {
+      moveLogStart: deepClone(G.moveLogStart) as Record<string, unknown>,
+    }),
   };
 
   const serializedCtx: Record<string, unknown> = {};
@@ -97,6 +129,28 @@ export function deserializeState(data: unknown): SerializedState {
       players: deepClone(gObj.players || []) as unknown[],
       independentRailroads,
       ...(lastRoundRoutesAdded !== undefined && { lastRoundRoutesAdded }),
+      ...(Array.isArray(gObj.connectionBonuses) && {
+        connectionBonuses: deepClone(gObj.connectionBonuses) as unknown[],
+      }),
+      ...(gObj.monopolies != null && typeof gObj.monopolies === 'object' && {
+        monopolies: deepClone(gObj.monopolies) as Record<string, string>,
+      }),
+      ...(Array.isArray(gObj.westCoastDeliveries) && {
+        westCoastDeliveries: deepClone(gObj.westCoastDeliveries) as string[],
+      }),
+      ...(gObj.startingRoutePreferences != null && typeof gObj.startingRoutePreferences === 'object' && {
+        startingRoutePreferences: deepClone(gObj.startingRoutePreferences) as Record<string, unknown[]>,
+      }),
+      ...(typeof gObj.goFirstNextRound === 'string' && { goFirstNextRound: gObj.goFirstNextRound }),
+      ...(gObj.bankruptcy != null && typeof gObj.bankruptcy === 'object' && {
+        bankruptcy: deepClone(gObj.bankruptcy) as Record<string, unknown>,
+      }),
+      ...(typeof gObj.seed === 'number' && { seed: gObj.seed }),
+      ...(typeof gObj.rngState === 'number' && { rngState: gObj.rngState }),
+      ...(Array.isArray(gObj.moveLog) && { moveLog: deepClone(gObj.moveLog) as unknown[] }),
+      ...(gObj.moveLogStart != null && typeof gObj.moveLogStart === 'object' && {
+        moveLogStart: deepClone(gObj.moveLogStart) as Record<string, unknown>,
+      }),
     },
     ctx: deepClone(ctx) as Record<string, unknown>,
   };
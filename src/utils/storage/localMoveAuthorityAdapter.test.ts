@@ -0,0 +1,177 @@
+import { describe, test, expect, beforeEach, afterEach, vi } from 'vitest';
+import { LocalMoveAuthorityAdapter } from './localMoveAuthorityAdapter';
+import { LocalStorageAdapter } from './localStorageAdapter';
+import { setStorageAdapter } from './index';
+import { getOfflineQueue, getQueuedMoveCount, setOfflineQueue } from './offlineQueue';
+import { CloudUnavailableError } from './cloudErrors';
+import { syncOfflineMoves, updateLastModifiedCache } from '../gameManager';
+import { useGameStore } from '../../stores/gameStore';
+import { withMoveLogStart } from '../../stores/moveLog';
+import { createMoves } from '../../stores/moves';
+import { endAuthoritySession, startAuthoritySession } from '../../stores/authorityClient';
+import { getRandomState, seedRandom } from '../random';
+import { serializeState, type SerializedState } from '../stateSerialization';
+import type { MoveIntent, MoveIntentResult } from './storageAdapter';
+
+const CODE = 'BCDFG';
+
+type StoredG = ReturnType<typeof useGameStore.getState>['G'];
+
+function startPlay(): void {
+  useGameStore.getState().resetState();
+  seedRandom(42);
+  useGameStore.setState((state) => {
+    const ctx = { ...state.ctx, phase: 'play', playOrder: ['0', '1'], playOrderPos: 0, currentPlayer: '0' };
+    const G = {
+      ...state.G,
+      players: state.G.players.map(([id, props]) => [id, { ...props, activeCities: ['Chicago', 'Detroit'] }]),
+      seed: 42,
+      rngState: getRandomState(),
+    } as typeof state.G;
+    return { G: withMoveLogStart(G, ctx), ctx, turnStartSnapshot: structuredClone({ G, ctx }) };
+  });
+}
+
+function storedState(): SerializedState {
+  const { G, ctx } = useGameStore.getState();
+  return serializeState(G as unknown as Record<string, unknown>, ctx as unknown as Record<string, unknown>);
+}
+
+/** A started BYOD game on the "server": the host's device holds seat 0, the guest's seat 1. */
+async function createServer(): Promise<LocalStorageAdapter> {
+  const backend = new LocalStorageAdapter();
+  await backend.saveGame(CODE, storedState(), {
+    gameMode: 'byod',
+    hostDeviceId: 'host-device',
+    playerSeats: {
+      'host-device': { joinedAt: '', playerName: 'Ada', playerID: '0' },
+      'guest-device': { joinedAt: '', playerName: 'Bo', playerID: '1' },
+    },
+  });
+  return backend;
+}
+
+/** A device's connection that can lose the network. */
+class FlakyConnection extends LocalMoveAuthorityAdapter {
+  offline = false;
+
+  async submitMoveIntent(code: string, intent: MoveIntent): Promise<MoveIntentResult> {
+    if (this.offline) throw new CloudUnavailableError();
+    return super.submitMoveIntent(code, intent);
+  }
+}
+
+async function debtOf(backend: LocalStorageAdapter, playerID: string): Promise<number | undefined> {
+  const G = (await backend.loadGame(CODE))?.G as unknown as StoredG;
+  return G.players.find(([id]) => id === playerID)?.[1].debt;
+}
+
+describe('LocalMoveAuthorityAdapter', () => {
+  let backend: LocalStorageAdapter;
+
+  beforeEach(async () => {
+    localStorage.clear();
+    startPlay();
+    backend = await createServer();
+  });
+
+  afterEach(() => endAuthoritySession());
+
+  test('applies a move for the seat the device holds, whatever the device believes', async () => {
+    const hostConnection = new LocalMoveAuthorityAdapter(backend, 'host-device');
+    const guestConnection = new LocalMoveAuthorityAdapter(backend, 'guest-device');
+    const stranger = new LocalMoveAuthorityAdapter(backend, 'stranger-device');
+
+    expect((await guestConnection.submitMoveIntent(CODE, { move: 'borrowMoney', args: [5000] })).ok).toBe(false);
+    expect((await stranger.submitMoveIntent(CODE, { move: 'borrowMoney', args: [5000] })).ok).toBe(false);
+    expect(await debtOf(backend, '0')).toBe(0);
+
+    const result = await hostConnection.submitMoveIntent(CODE, { move: 'borrowMoney', args: [5000] });
+    expect(result.ok).toBe(true);
+    expect(await debtOf(backend, '0')).toBe(5000);
+  });
+
+  test('accepts rollbacks only from the host device', async () => {
+    const hostConnection = new LocalMoveAuthorityAdapter(backend, 'host-device');
+    const guestConnection = new LocalMoveAuthorityAdapter(backend, 'guest-device');
+    await hostConnection.submitMoveIntent(CODE, { move: 'borrowMoney', args: [5000] });
+    await hostConnection.submitMoveIntent(CODE, { move: 'endTurn', args: [] });
+
+    expect((await guestConnection.submitMoveIntent(CODE, { move: 'rollback', args: [0] })).ok).toBe(false);
+    expect((await hostConnection.submitMoveIntent(CODE, { move: 'rollback', args: [0] })).ok).toBe(true);
+    expect(await debtOf(backend, '0')).toBe(0);
+  });
+
+  test('refuses whole-state saves and seat changes once the game has started', async () => {
+    const guestConnection = new LocalMoveAuthorityAdapter(backend, 'guest-device');
+    const tampered = storedState();
+    (tampered.G as unknown as StoredG).players[1][1].cash = 1_000_000;
+
+    expect(await guestConnection.saveGame(CODE, tampered, {})).toEqual({ success: false });
+    expect(await guestConnection.updateGameMetadata(CODE, { hostDeviceId: 'guest-device' })).toBe(false);
+    expect((await backend.getGameMetadata(CODE))?.hostDeviceId).toBe('host-device');
+  });
+
+  test('receives moves made through an authority session', async () => {
+    setStorageAdapter('cloud', new LocalMoveAuthorityAdapter(backend, 'host-device'));
+    startAuthoritySession({ gameCode: CODE, playerID: '0' });
+
+    createMoves(useGameStore).borrowMoney(5000);
+
+    await vi.waitFor(async () => expect(await debtOf(backend, '0')).toBe(5000));
+    expect(useGameStore.getState().G.players[0][1].debt).toBe(5000);
+  });
+
+  test('sends moves queued offline to the authority as intents', async () => {
+    setStorageAdapter('cloud', new LocalMoveAuthorityAdapter(backend, 'host-device'));
+    // Another of the host's devices moved first, so the queued moves and the restore to one of them land one later
+    await new LocalMoveAuthorityAdapter(backend, 'host-device').submitMoveIntent(CODE, {
+      move: 'borrowMoney',
+      args: [10000],
+    });
+    setOfflineQueue(CODE, {
+      baseLength: 0,
+      moves: [
+        { move: 'borrowMoney', args: [5000], playerID: '0' },
+        { move: 'borrowMoney', args: [5000], playerID: '0' },
+        { move: 'undoMove', args: [1], playerID: '0' },
+      ],
+    });
+    const replay = vi.fn();
+
+    const result = await syncOfflineMoves(CODE, replay);
+
+    expect(replay).not.toHaveBeenCalled();
+    expect(result).toMatchObject({ ok: true, applied: 3, rejected: [] });
+    expect(getOfflineQueue(CODE)).toBeNull();
+    const G = (await backend.loadGame(CODE))?.G as unknown as StoredG;
+    expect(G.moveLog?.map((entry) => [entry.move, entry.args])).toEqual([
+      ['borrowMoney', [10000]],
+      ['borrowMoney', [5000]],
+      ['borrowMoney', [5000]],
+      ['undoMove', [2]],
+    ]);
+    expect(G.players[0][1].debt).toBe(15000);
+  });
+
+  test('queues moves while the authority is unreachable and sends them once it is back', async () => {
+    const connection = new FlakyConnection(backend, 'host-device');
+    setStorageAdapter('cloud', connection);
+    updateLastModifiedCache(CODE, 't0', storedState());
+    startAuthoritySession({ gameCode: CODE, playerID: '0' });
+    connection.offline = true;
+
+    const moves = createMoves(useGameStore);
+    moves.borrowMoney(5000);
+    await vi.waitFor(() => expect(getQueuedMoveCount(CODE)).toBe(1));
+    connection.offline = false;
+    moves.borrowMoney(5000);
+    await vi.waitFor(() => expect(getQueuedMoveCount(CODE)).toBe(2));
+    expect(await debtOf(backend, '0')).toBe(0);
+    expect(useGameStore.getState().G.players[0][1].debt).toBe(10000);
+
+    expect(await syncOfflineMoves(CODE, vi.fn())).toMatchObject({ ok: true, applied: 2, rejected: [] });
+    expect(getOfflineQueue(CODE)).toBeNull();
+    expect(await debtOf(backend, '0')).toBe(10000);
+  });
+});
@@ -0,0 +1,147 @@
+/**
+ * Local Move Authority Adapter
+ *
+ * Test double for a server-side move authority. The app never constructs it: real BYOD games have no move authority
+ * yet and still save whole states (see "Server-side move authority" in docs/BYOD_AGENT_GUIDE.md).
+ *
+ * Each instance is one device's connection to a "server" that keeps its games in `backend` (any StorageAdapter). The
+ * device ID is fixed when the connection is made, as an authenticated session's would be: the authority works out the
+ * device's seat and host status from the game's metadata (playerSeats, hostDeviceId), never from what the device
+ * sends.
+ *
+ * Once a BYOD game has left waiting_for_players it is an authority game: moves arrive only as intents, applied with
+ * applyMoveIntent (src/stores/moveAuthority.ts), and whole-state saves and seat changes are refused.
+ */
+
+import {
+  StorageAdapter,
+  type GameListItem,
+  type MoveIntent,
+  type MoveIntentResult,
+  type SaveGameResult,
+  type SubscribeCallback,
+} from './storageAdapter';
+import type { SerializedState } from '../stateSerialization';
+import { applyMoveIntent, type AuthoritySeat } from '../../stores/moveAuthority';
+
+/** Metadata fields only the authority may change once a game has started. */
+const SEAT_METADATA_KEYS = ['hostDeviceId', 'playerSeats'];
+
+/** Intents applied so far per backend; each waits for the last, so every device's intents apply one at a time. */
+const intentQueues = new WeakMap<StorageAdapter, Promise<unknown>>();
+
+export class LocalMoveAuthorityAdapter extends StorageAdapter {
+  private backend: StorageAdapter;
+  private deviceId: string;
+
+  constructor(backend: StorageAdapter, deviceId: string) {
+    super();
+
+    if (!deviceId) {
+      throw new Error('LocalMoveAuthorityAdapter: deviceId is required');
+    }
+
+    this.backend = backend;
+    this.deviceId = deviceId;
+  }
+
+  hasMoveAuthority(): boolean {
+    return true;
+  }
+
+  /** Apply a move intent for this device's seat and save the canonical state. */
+  async submitMoveIntent(code: string, intent: MoveIntent): Promise<MoveIntentResult> {
+    const previous = intentQueues.get(this.backend) ?? Promise.resolve();
+    const next = previous.then(() => this._applyIntent(code, intent));
+    intentQueues.set(this.backend, next.catch(() => undefined));
+    return next;
+  }
+
+  async _applyIntent(code: string, intent: MoveIntent): Promise<MoveIntentResult> {
+    const operation = 'submitMoveIntent';
+
+    const state = await this.backend.loadGame(code);
+    const metadata = await this.backend.getGameMetadata(code);
+    if (!state || !metadata) {
+      return { ok: false, error: `Game "${code}" not found` };
+    }
+
+    const seat = this._seatOf(metadata);
+    if (!seat) {
+      console.warn(`[LocalMoveAuthorityAdapter.${operation}] Device has no seat in game "${code}"`);
+      return { ok: false, error: `This device has no seat in game "${code}"`, state };
+    }
+
+    const result = applyMoveIntent(state, intent, seat);
+    if (!result.ok) return result;
+
+    const lastModified = new Date().toISOString();
+    const saved = await this.backend.saveGame(code, result.state, { lastModified });
+    if (!(typeof saved === 'boolean' ? saved : saved.success)) {
+      console.error(`[LocalMoveAuthorityAdapter.${operation}] Failed to save game "${code}"`);
+      return { ok: false, error: `Failed to save game "${code}"`, state };
+    }
+    return { ok: true, state: result.state, lastModified };
+  }
+
+  /** Whole states are saved only until a BYOD game starts; after that every change is a move intent. */
+  async saveGame(
+    code: string,
+    state: SerializedState,
+    metadata: Record<string, unknown>,
+    expectedLastModified?: string | null
+  ): Promise<SaveGameResult> {
+    if (await this._isAuthorityGame(code)) {
+      console.warn(`[LocalMoveAuthorityAdapter.saveGame] Game "${code}" only accepts move intents`);
+      return { success: false };
+    }
+    return this.backend.saveGame(code, state, metadata, expectedLastModified);
+  }
+
+  /** Seats and the host are fixed once a BYOD game starts. */
+  async updateGameMetadata(code: string, metadata: Record<string, unknown>): Promise<boolean> {
+    if (SEAT_METADATA_KEYS.some((key) => key in metadata) && (await this._isAuthorityGame(code))) {
+      console.warn(`[LocalMoveAuthorityAdapter.updateGameMetadata] Seats in game "${code}" can no longer change`);
+      return false;
+    }
+    return this.backend.updateGameMetadata(code, metadata);
+  }
+
+  async loadGame(code: string): Promise<SerializedState | null> {
+    return this.backend.loadGame(code);
+  }
+
+  async deleteGame(code: string): Promise<boolean> {
+    return this.backend.deleteGame(code);
+  }
+
+  async listGames(): Promise<GameListItem[]> {
+    return this.backend.listGames();
+  }
+
+  subscribeToGame(code: string, callback: SubscribeCallback): () => void {
+    return this.backend.subscribeToGame(code, callback);
+  }
+
+  async getLastModified(code: string): Promise<string | null> {
+    return this.backend.getLastModified(code);
+  }
+
+  async getGameMetadata(code: string): Promise<Record<string, unknown> | null> {
+    return this.backend.getGameMetadata(code);
+  }
+
+  /** This device's seat in a game, from the game's metadata. */
+  _seatOf(metadata: Record<string, unknown>): AuthoritySeat | null {
+    const seats = metadata.playerSeats as Record<string, { playerID?: string }> | undefined;
+    const playerID = seats?.[this.deviceId]?.playerID;
+    return playerID ? { playerID, isHost: metadata.hostDeviceId === this.deviceId } : null;
+  }
+
+  async _isAuthorityGame(code: string): Promise<boolean> {
+    const metadata = await this.backend.getGameMetadata(code);
+    if (metadata?.gameMode !== 'byod') return false;
+    const state = await this.backend.loadGame(code);
+    return !!state && state.ctx.phase !== 'waiting_for_players';
+  }
+}
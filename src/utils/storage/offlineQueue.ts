@@ -0,0 +1,114 @@
+/**
+ * Moves made in cloud games while the cloud is unreachable, kept in localStorage until they can be replayed onto the
+ * latest stored state (see syncOfflineMoves in gameManager.ts and syncQueuedMoves in supabaseAdapter.ts).
+ */
+
+import type { QueuedMove } from './storageAdapter';
+import { RESTORE_MOVES } from '../../stores/moveLog';
+
+const OFFLINE_QUEUE_KEY = 'offline_move_queue';
+
+/** A game's queued moves: its move log entries after the last state this device synced. */
+export interface OfflineQueue {
+  /** Length of the move log in the last synced state; restores at or after it return to a queued move. */
+  baseLength: number;
+  moves: QueuedMove[];
+}
+
+const listeners = new Set<() => void>();
+
+function readQueues(): Record<string, OfflineQueue> {
+  try {
+    const data = localStorage.getItem(OFFLINE_QUEUE_KEY);
+    return data ? (JSON.parse(data) as Record<string, OfflineQueue>) : {};
+  } catch (e) {
+    const msg = e instanceof Error ? e.message : String(e);
+    console.error('[offlineQueue] Failed to read queued moves:', msg);
+    return {};
+  }
+}
+
+function writeQueues(queues: Record<string, OfflineQueue>): void {
+  try {
+    localStorage.setItem(OFFLINE_QUEUE_KEY, JSON.stringify(queues));
+  } catch (e) {
+    const msg = e instanceof Error ? e.message : String(e);
+    console.error('[offlineQueue] Failed to save queued moves:', msg);
+  }
+  listeners.forEach((listener) => listener());
+}
+
+/**
+ * Queued moves for a game.
+ *
+ * @param code - Normalized game code
+ * @returns The queue, or null if nothing is queued
+ */
+export function getOfflineQueue(code: string): OfflineQueue | null {
+  const queue = readQueues()[code];
+  return queue && queue.moves.length > 0 ? queue : null;
+}
+
+/**
+ * Number of moves waiting to be synced for a game.
+ *
+ * @param code - Normalized game code
+ */
+export function getQueuedMoveCount(code: string): number {
+  return getOfflineQueue(code)?.moves.length ?? 0;
+}
+
+/**
+ * Replace a game's queue.
+ *
+ * @param code - Normalized game code
+ * @param queue - Queued moves, or null to clear them
+ */
+export function setOfflineQueue(code: string, queue: OfflineQueue | null): void {
+  const queues = readQueues();
+  if (queue && queue.moves.length > 0) {
+    queues[code] = queue;
+  } else {
+    delete queues[code];
+  }
+  writeQueues(queues);
+}
+
+/**
+ * Add a move to the end of a game's queue.
+ *
+ * @param code - Normalized game code
+ * @param move - Move to queue
+ * @param baseLength - Log length of the last synced state, used if nothing is queued yet
+ */
+export function appendToOfflineQueue(code: string, move: QueuedMove, baseLength: number): void {
+  const queue = getOfflineQueue(code) ?? { baseLength, moves: [] };
+  setOfflineQueue(code, { ...queue, moves: [...queue.moves, move] });
+}
+
+/**
+ * Which queued move a queued restore returns to (the state just before it), when it returns to a position at or after
+ * the queue's base length rather than to the synced state.
+ *
+ * @param queued - Queued move
+ * @param baseLength - The queue's base length
+ * @returns Index in the queue's moves, or null if the move is not a restore to a queued move
+ */
+export function queuedRestoreTarget(queued: QueuedMove, baseLength: number): number | null {
+  const position = queued.args[0];
+  if (!RESTORE_MOVES.includes(queued.move) || typeof position !== 'number' || position < baseLength) return null;
+  return position - baseLength;
+}
+
+/**
+ * Be told whenever any game's queue changes (e.g. to show the pending count).
+ *
+ * @param listener - Called after each change
+ * @returns Unsubscribe function
+ */
+export function subscribeToOfflineQueue(listener: () => void): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
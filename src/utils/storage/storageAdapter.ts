@@ -25,12 +25,65 @@ export interface GameListItem {
 /** Result of saveGame for adapters that return an object (e.g. Supabase). */
 export interface SaveGameResultObject {
   success: boolean;
+  /** Another save landed since expectedLastModified; nothing was written (see mergeStates in stateMerge.ts). */
   conflict?: boolean;
   lastModified?: string;
+  /** On conflict: the stored state, to merge with. */
+  state?: SerializedState;
+  /** The cloud could not be reached (see cloudErrors.ts); nothing was written. */
+  unavailable?: boolean;
 }
 
 export type SaveGameResult = boolean | SaveGameResultObject;
 
+/**
+ * A move submitted to the move authority instead of a whole new state: the authority validates it against the
+ * stored game, applies it with the game's own logic and saves the result. Restores (undoMove, redoMove,
+ * undoCurrentTurn, rollback) take the log position to return to as their only argument. The intent does not say
+ * who makes the move: the authority takes the seat and host status from the device the intent came from.
+ */
+export interface MoveIntent {
+  move: string;
+  args: unknown[];
+  /** ISO timestamp the move was made at, for moves queued earlier; otherwise the move is made now. */
+  time?: string;
+}
+
+/**
+ * Result of submitMoveIntent: the canonical state after the move, or why it was rejected (with the current state).
+ * `unavailable` means the cloud could not be reached, so the move was never checked.
+ */
+export type MoveIntentResult =
+  | { ok: true; state: SerializedState; lastModified?: string }
+  | { ok: false; error: string; state?: SerializedState; unavailable?: boolean };
+
+/** A move made while the cloud was unreachable, queued for replay (see offlineQueue.ts). */
+export interface QueuedMove {
+  move: string;
+  args: unknown[];
+  playerID: string;
+  /** ISO timestamp of when it was made. */
+  time?: string;
+}
+
+/** A queued move that no longer applies to the latest state, and why. */
+export interface RejectedMove {
+  move: QueuedMove;
+  error: string;
+}
+
+/** Queued moves replayed onto a state: the state after those that applied, and those that did not. */
+export interface QueuedMoveReplay {
+  state: SerializedState;
+  applied: number;
+  rejected: RejectedMove[];
+}
+
+/** Result of syncQueuedMoves: the replay as saved, or why it could not be saved. */
+export type QueueSyncResult =
+  | ({ ok: true; lastModified: string | null } & QueuedMoveReplay)
+  | { ok: false; unavailable: boolean; error: string };
+
 /** Callback for subscribeToGame: (state, metadata, lastModified) => void */
 export type SubscribeCallback = (
   state: SerializedState | null,
@@ -41,7 +94,8 @@ export type SubscribeCallback = (
 /**
  * Base StorageAdapter class.
  * All storage adapters must implement: saveGame, loadGame, deleteGame, listGames,
- * getGameMetadata, updateGameMetadata. subscribeToGame and getLastModified are optional.
+ * getGameMetadata, updateGameMetadata. subscribeToGame, getLastModified, hasMoveAuthority, submitMoveIntent and
+ * syncQueuedMoves are optional.
  */
 export class StorageAdapter {
   async saveGame(
@@ -89,6 +143,33 @@ export class StorageAdapter {
     return null;
   }
 
+  /**
+   * Whether BYOD moves go to a move authority (submitMoveIntent) instead of being saved as whole states.
+   * Default: no authority.
+   */
+  hasMoveAuthority(): boolean {
+    return false;
+  }
+
+  /**
+   * Submit a move to the game's move authority (BYOD). Optional; adapters with a move authority override.
+   * Default: no authority, so the intent is rejected.
+   */
+  async submitMoveIntent(_code: string, _intent: MoveIntent): Promise<MoveIntentResult> {
+    return { ok: false, error: 'This storage has no move authority' };
+  }
+
+  /**
+   * Replay moves queued while offline onto the latest stored state and save the result. Optional; cloud adapters
+   * override. Default: nothing to sync against, so the sync fails.
+   */
+  async syncQueuedMoves(
+    _code: string,
+    _replay: (latest: SerializedState) => QueuedMoveReplay
+  ): Promise<QueueSyncResult> {
+    return { ok: false, unavailable: false, error: 'This storage does not sync queued moves' };
+  }
+
   async getGameMetadata(_code: string): Promise<Record<string, unknown> | null> {
     throw new Error('getGameMetadata must be implemented by storage adapter');
   }
@@ -9,6 +9,7 @@
  * - PostgreSQL database storage
  * - Real-time subscriptions via Supabase Realtime
  * - Game code-based access (5-letter codes)
+ * - Moves queued while offline replayed onto the latest state on reconnect (syncQueuedMoves)
  *
  * Database Schema:
  * - Table: games
@@ -22,6 +23,8 @@
 import {
   StorageAdapter,
   type GameListItem,
+  type QueuedMoveReplay,
+  type QueueSyncResult,
   type SaveGameResultObject,
   type SubscribeCallback,
 } from './storageAdapter';
@@ -31,6 +34,9 @@ import { createClient, type SupabaseClient, type RealtimeChannel } from '@supaba
 import { debugSessionLog } from '../debugSessionLog';
 import { CloudUnavailableError, toCloudUnavailableError } from './cloudErrors';
 
+/** Replays of queued moves that keep losing races to other devices' saves give up after this many attempts. */
+const MAX_QUEUE_SYNC_ATTEMPTS = 3;
+
 /** Row shape from games table (state is serialized). */
 interface GamesRow {
   code: string;
@@ -70,13 +76,16 @@ export class SupabaseAdapter extends StorageAdapter {
     return /^[A-Z]{4,5}$/.test(normalized);
   }
 
-  /** Save with optimistic locking: if expectedLastModified provided and server is >10s newer, flag conflict (last-write-wins). */
+  /**
+   * Save with optimistic locking: if expectedLastModified is provided and the server has moved on, save nothing and
+   * return the server's state as a conflict.
+   */
   async saveGame(
     code: string,
     state: SerializedState,
     metadata: Record<string, unknown> = {},
     expectedLastModified: string | null = null
-  ): Promise<boolean | SaveGameResultObject> {
+  ): Promise<SaveGameResultObject> {
     const operation = 'saveGame';
 
     if (!this._isValidCode(code)) {
@@ -141,28 +150,23 @@ export class SupabaseAdapter extends StorageAdapter {
           `[SupabaseAdapter.${operation}] Error checking existing game "${normalizedCode}":`,
           fetchError.message
         );
-        return { success: false };
+        return { success: false, ...(toCloudUnavailableError(fetchError) && { unavailable: true }) };
       }
 
       const existing = existingGame as GamesRow | null;
-      // Only flag significant conflict if server is >10s newer (avoids false positives from same-client rapid saves, stale cache, or replication delay)
-      let hasSignificantConflict = false;
-      if (expectedLastModified && existing) {
-        const serverLastModified = existing.last_modified;
-        if (serverLastModified !== expectedLastModified) {
-          const serverTime = new Date(serverLastModified ?? 0).getTime();
-          const expectedTime = new Date(expectedLastModified).getTime();
-          const timeDiff = serverTime - expectedTime;
-
-          if (timeDiff > 10000) {
-            hasSignificantConflict = true;
-            console.warn(
-              `[SupabaseAdapter.${operation}] Conflict detected for game "${normalizedCode}": expected ${expectedLastModified}, got ${serverLastModified}. Last-write-wins.`
-            );
-          }
-        }
-      }
+      // Another device saved since this one last saw the game: let the caller merge rather than overwrite it.
       // When expectedLastModified is null (cache miss), skip conflict detection to avoid false positives on first save
+      if (expectedLastModified && existing && existing.last_modified !== expectedLastModified) {
+        console.warn(
+          `[SupabaseAdapter.${operation}] Conflict detected for game "${normalizedCode}": expected ${expectedLastModified}, got ${existing.last_modified}`
+        );
+        return {
+          success: false,
+          conflict: true,
+          ...(existing.last_modified && { lastModified: existing.last_modified }),
+          ...(isValidSerializedState(existing.state) && { state: deserializeState(existing.state) }),
+        };
+      }
 
       const gameData: Record<string, unknown> = {
         code: normalizedCode,
@@ -188,14 +192,7 @@ export class SupabaseAdapter extends StorageAdapter {
           `[SupabaseAdapter.${operation}] Failed to save game "${normalizedCode}":`,
           upsertError.message
         );
-        return { success: false };
-      }
-
-      if (hasSignificantConflict) {
-        console.info(
-          `[SupabaseAdapter.${operation}] Saved game "${normalizedCode}" with conflict resolution (last-write-wins)`
-        );
-        return { success: true, conflict: true, lastModified: now };
+        return { success: false, ...(toCloudUnavailableError(upsertError) && { unavailable: true }) };
       }
 
       return { success: true, lastModified: now };
@@ -206,7 +203,7 @@ export class SupabaseAdapter extends StorageAdapter {
         err.message
       );
       console.error(`[SupabaseAdapter.${operation}] Error details:`, e);
-      return { success: false };
+      return { success: false, ...(toCloudUnavailableError(e) && { unavailable: true }) };
     }
   }
 
@@ -242,6 +239,61 @@ export class SupabaseAdapter extends StorageAdapter {
     }
   }
 
+  /**
+   * Replay moves queued while offline onto the latest stored state and save the result. If another device saves in
+   * between, the moves are replayed again onto its state.
+   */
+  async syncQueuedMoves(
+    code: string,
+    replay: (latest: SerializedState) => QueuedMoveReplay
+  ): Promise<QueueSyncResult> {
+    const operation = 'syncQueuedMoves';
+
+    if (!this._isValidCode(code)) {
+      return { ok: false, unavailable: false, error: `Invalid game code format: ${code}` };
+    }
+
+    const normalizedCode = this._normalizeCode(code);
+
+    try {
+      for (let attempt = 1; attempt <= MAX_QUEUE_SYNC_ATTEMPTS; attempt++) {
+        const { data, error } = await this.supabase
+          .from('games')
+          .select('state, metadata, last_modified')
+          .eq('code', normalizedCode)
+          .maybeSingle();
+
+        if (error) {
+          console.error(`[SupabaseAdapter.${operation}] Error loading game "${normalizedCode}":`, error.message);
+          return { ok: false, unavailable: toCloudUnavailableError(error) !== null, error: error.message };
+        }
+
+        const row = data as GamesRow | null;
+        if (!row || !isValidSerializedState(row.state)) {
+          return { ok: false, unavailable: false, error: `Game "${normalizedCode}" not found` };
+        }
+
+        const replayed = replay(deserializeState(row.state));
+        const metadata = { ...(row.metadata ?? {}), lastModified: new Date().toISOString() };
+        const saved = await this.saveGame(normalizedCode, replayed.state, metadata, row.last_modified ?? null);
+        if (saved.success) {
+          return { ok: true, lastModified: saved.lastModified ?? null, ...replayed };
+        }
+        if (saved.unavailable) {
+          return { ok: false, unavailable: true, error: 'Cloud storage is unavailable' };
+        }
+        if (!saved.conflict) {
+          return { ok: false, unavailable: false, error: `Failed to save game "${normalizedCode}"` };
+        }
+      }
+      return { ok: false, unavailable: false, error: `Game "${normalizedCode}" kept changing; try again` };
+    } catch (e) {
+      const err = e as Error;
+      console.error(`[SupabaseAdapter.${operation}] Unexpected error syncing game "${normalizedCode}":`, err.message);
+      return { ok: false, unavailable: toCloudUnavailableError(e) !== null, error: err.message };
+    }
+  }
+
   async loadGame(code: string): Promise<SerializedState | null> {
     const operation = 'loadGame';
 
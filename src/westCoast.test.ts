@@ -0,0 +1,46 @@
+import { describe, test, expect } from 'vitest';
+import { newContract, type Contract } from './Contract';
+import { isWestCoastDelivery, westCoastDeliveriesAfterToggle, westCoastTiesForPlayer } from './westCoast';
+import type { GameState } from './stores/gameStore';
+
+function fulfilled(playerID: string, destinationKey: string): Contract {
+  return newContract(destinationKey, 'coal', { playerID, fulfilled: true }) as Contract;
+}
+
+/** Game state whose West Coast deliveries are the given contracts, in order. */
+function makeGameState(contracts: Contract[]): GameState {
+  return {
+    contracts,
+    players: [],
+    independentRailroads: {},
+    westCoastDeliveries: contracts.filter(isWestCoastDelivery).map((c) => c.id),
+  };
+}
+
+describe('westCoastTiesForPlayer', () => {
+  test('gives 3 ties for the first West Coast delivery and 2 for each later one', () => {
+    const G = makeGameState([
+      fulfilled('1', 'Seattle'),
+      fulfilled('0', 'Los Angeles'),
+      fulfilled('0', 'San Diego'),
+      fulfilled('0', 'Chicago'),
+    ]);
+
+    expect(westCoastTiesForPlayer(G, '1')).toBe(3);
+    expect(westCoastTiesForPlayer(G, '0')).toBe(4);
+  });
+
+  test('passes the first-delivery bonus on when the first delivery is unfulfilled', () => {
+    const first = fulfilled('1', 'Seattle');
+    const G = makeGameState([first, fulfilled('0', 'Los Angeles')]);
+    const unfulfilled = { ...first, fulfilled: false };
+    const after: GameState = {
+      ...G,
+      contracts: G.contracts.map((c) => (c.id === first.id ? unfulfilled : c)),
+      westCoastDeliveries: westCoastDeliveriesAfterToggle(G, unfulfilled),
+    };
+
+    expect(westCoastTiesForPlayer(after, '1')).toBe(0);
+    expect(westCoastTiesForPlayer(after, '0')).toBe(3);
+  });
+});
@@ -0,0 +1,61 @@
+import { cities } from './data';
+import type { Contract } from './Contract';
+import type { GameState } from './stores/gameStore';
+
+/** Ties for the first contract fulfilled to a West Coast city. */
+export const FIRST_WEST_COAST_TIES = 3;
+
+/** Ties for each later contract fulfilled to a West Coast city. */
+export const WEST_COAST_TIES = 2;
+
+/**
+ * Whether the contract's destination is a West Coast city.
+ *
+ * @param contract - The contract (needs destinationKey)
+ * @returns true for West Coast destinations
+ */
+export function isWestCoastDelivery(contract: Pick<Contract, 'destinationKey'>): boolean {
+  return cities.get(contract.destinationKey)?.westCoast ?? false;
+}
+
+/**
+ * West Coast deliveries after a contract is toggled: appended when fulfilled, removed when unfulfilled.
+ * Removing the first delivery passes the first-delivery bonus to the next one.
+ *
+ * @param G - Game state
+ * @param contract - The contract with its new fulfilled state
+ * @returns Updated G.westCoastDeliveries
+ */
+export function westCoastDeliveriesAfterToggle(G: GameState, contract: Contract): string[] {
+  const deliveries = (G.westCoastDeliveries ?? []).filter((id) => id !== contract.id);
+  return contract.fulfilled && isWestCoastDelivery(contract) ? [...deliveries, contract.id] : deliveries;
+}
+
+/**
+ * Fulfilled West Coast contracts in the order they were delivered. Skips entries whose contract has since been
+ * unfulfilled or deleted.
+ *
+ * @param G - Game state
+ * @returns Delivered contracts, first delivery first
+ */
+export function westCoastDeliveries(G: GameState): Contract[] {
+  return (G.westCoastDeliveries ?? [])
+    .map((id) => G.contracts.find((c) => c.id === id))
+    .filter((c): c is Contract => c != null && c.fulfilled && c.playerID != null);
+}
+
+/**
+ * West Coast delivery ties for a player: FIRST_WEST_COAST_TIES for the first delivery in the game,
+ * WEST_COAST_TIES for each other one.
+ *
+ * @param G - Game state
+ * @param playerID - Player ID
+ * @returns Sum of West Coast delivery ties
+ */
+export function westCoastTiesForPlayer(G: GameState, playerID: string): number {
+  return westCoastDeliveries(G).reduce(
+    (sum, contract, i) =>
+      contract.playerID === playerID ? sum + (i === 0 ? FIRST_WEST_COAST_TIES : WEST_COAST_TIES) : sum,
+    0
+  );
+}